@@ -1,20 +1,68 @@
 import 'dotenv/config'
 import express from 'express'
 import { setupSecurity } from './middleware/security.js'
-import { authenticateToken, AuthenticatedRequest } from './middleware/auth.js'
+import { authenticateToken, AuthenticatedRequest, requireAdminSecret } from './middleware/auth.js'
 import { userRateLimiter } from './middleware/rateLimit.js'
-import { getChart, getQuotes } from './routes/marketData.js'
-import { getCurrentUser, createUser, updateUser, deleteUser } from './routes/users.js'
+import { getChart, getQuotes, getSymbolSearch } from './routes/marketData.js'
+import { getCurrentUser, getCurrentUserExport, createUser, updateUser, deleteUser } from './routes/users.js'
 import { testConnection, closeConnection } from './services/testConnection.js'
-import { createUserStock, deleteUserStock, getUserStocks } from './routes/userStocks.js'
-import { getDashboardOverview } from './routes/dashboard.js'
+import { migrateUp } from './services/migrationService.js'
+import { createUserStock, deleteUserStock, getUserStocks, updateUserStock } from './routes/userStocks.js'
+import { getImportProfiles, importPortfolio } from './routes/portfolioImport.js'
+import { getPortfolioExport } from './routes/portfolioExport.js'
+import {
+  getTransactions,
+  createTransaction,
+  deleteTransactionById,
+  getPositions,
+  getPositionBySymbol,
+  getAllocation
+} from './routes/portfolioTransactions.js'
+import {
+  getPortfolios,
+  createPortfolioForUser,
+  updatePortfolio,
+  deletePortfolioById
+} from './routes/portfolios.js'
+import {
+  getDashboardOverview,
+  getDashboardHistory,
+  getDashboardHistoryExport,
+  getDashboardPerformance,
+  getDashboardBenchmarks,
+  getDashboardRisk
+} from './routes/dashboard.js'
 import { dailyResumeGenerate } from './routes/dailyResumeAdmin.js'
+import { getJobRuns, getJob, cancelJob, resumeJob } from './routes/adminJobs.js'
+import { getAlerts, createAlert, updateAlertById, deleteAlertById } from './routes/alerts.js'
+import {
+  getNotifications,
+  acknowledgeNotification,
+  acknowledgeAllNotifications
+} from './routes/notifications.js'
+import {
+  getWatchlists,
+  getWatchlistById,
+  createWatchlistForUser,
+  updateWatchlist,
+  deleteWatchlistById,
+  addWatchlistEntry,
+  updateWatchlistEntry,
+  deleteWatchlistEntry,
+  reorderWatchlist,
+  getWatchlistQuotes
+} from './routes/watchlists.js'
+import { startAlertEvaluator, stopAlertEvaluator } from './services/alertService.js'
+import { registerConfiguredNotificationChannels } from './services/notificationService.js'
+import { startScheduler, stopScheduler } from './services/schedulerService.js'
+import { startJobWorker, stopJobWorker } from './services/jobQueueService.js'
 import redisClient from './config/redis.js'
 
 const app = express()
 const PORT = process.env.PORT || 4040
 
-app.use(express.json())
+// CSV imports arrive as a JSON string; 1mb fits a few thousand rows
+app.use(express.json({ limit: '1mb' }))
 setupSecurity(app)
 
 // Health check endpoint (no auth required)
@@ -25,14 +73,57 @@ app.get('/health', (_req, res) => {
 // Market data endpoints (with per-user rate limiting: 20 requests/minute)
 app.get('/api/market-data/stocks/chart', authenticateToken, userRateLimiter, getChart)
 app.get('/api/market-data/stocks/quotes', authenticateToken, userRateLimiter, getQuotes)
+app.get('/api/market-data/search', authenticateToken, userRateLimiter, getSymbolSearch)
 
 // Dashboard endpoints
 app.get('/api/dashboard/overview', authenticateToken, getDashboardOverview)
+app.get('/api/dashboard/history', authenticateToken, getDashboardHistory)
+app.get('/api/dashboard/history/export', authenticateToken, getDashboardHistoryExport)
+app.get('/api/dashboard/performance', authenticateToken, getDashboardPerformance)
+app.get('/api/dashboard/benchmarks', authenticateToken, getDashboardBenchmarks)
+app.get('/api/dashboard/risk', authenticateToken, getDashboardRisk)
 
 // Portfolio endpoints
+app.get('/api/portfolios', authenticateToken, getPortfolios)
+app.post('/api/portfolios', authenticateToken, createPortfolioForUser)
+app.put('/api/portfolios/:id', authenticateToken, updatePortfolio)
+app.patch('/api/portfolios/:id', authenticateToken, updatePortfolio)
+app.delete('/api/portfolios/:id', authenticateToken, deletePortfolioById)
 app.get('/api/portfolio/stocks', authenticateToken, getUserStocks)
 app.post('/api/portfolio/stocks', authenticateToken, createUserStock)
+app.put('/api/portfolio/stocks/:id', authenticateToken, updateUserStock)
+app.patch('/api/portfolio/stocks/:id', authenticateToken, updateUserStock)
 app.delete('/api/portfolio/stocks/:id', authenticateToken, deleteUserStock)
+app.get('/api/portfolio/import/profiles', authenticateToken, getImportProfiles)
+app.post('/api/portfolio/import', authenticateToken, importPortfolio)
+app.get('/api/portfolio/export', authenticateToken, getPortfolioExport)
+app.get('/api/portfolio/transactions', authenticateToken, getTransactions)
+app.post('/api/portfolio/transactions', authenticateToken, createTransaction)
+app.delete('/api/portfolio/transactions/:id', authenticateToken, deleteTransactionById)
+app.get('/api/portfolio/positions', authenticateToken, getPositions)
+app.get('/api/portfolio/positions/:symbol', authenticateToken, getPositionBySymbol)
+app.get('/api/portfolio/allocation', authenticateToken, getAllocation)
+
+// Alert and notification endpoints
+app.get('/api/alerts', authenticateToken, getAlerts)
+app.post('/api/alerts', authenticateToken, createAlert)
+app.put('/api/alerts/:id', authenticateToken, updateAlertById)
+app.patch('/api/alerts/:id', authenticateToken, updateAlertById)
+app.delete('/api/alerts/:id', authenticateToken, deleteAlertById)
+app.get('/api/notifications', authenticateToken, getNotifications)
+app.post('/api/notifications/ack', authenticateToken, acknowledgeAllNotifications)
+app.post('/api/notifications/:id/ack', authenticateToken, acknowledgeNotification)
+app.get('/api/watchlists', authenticateToken, getWatchlists)
+app.post('/api/watchlists', authenticateToken, createWatchlistForUser)
+app.get('/api/watchlists/:id', authenticateToken, getWatchlistById)
+app.put('/api/watchlists/:id', authenticateToken, updateWatchlist)
+app.patch('/api/watchlists/:id', authenticateToken, updateWatchlist)
+app.delete('/api/watchlists/:id', authenticateToken, deleteWatchlistById)
+app.get('/api/watchlists/:id/quotes', authenticateToken, getWatchlistQuotes)
+app.put('/api/watchlists/:id/order', authenticateToken, reorderWatchlist)
+app.post('/api/watchlists/:id/items', authenticateToken, addWatchlistEntry)
+app.patch('/api/watchlists/:id/items/:itemId', authenticateToken, updateWatchlistEntry)
+app.delete('/api/watchlists/:id/items/:itemId', authenticateToken, deleteWatchlistEntry)
 
 // Protected routes
 app.get('/api/user', authenticateToken, (req: AuthenticatedRequest, res) => {
@@ -40,14 +131,27 @@ app.get('/api/user', authenticateToken, (req: AuthenticatedRequest, res) => {
 })
 
 // Admin endpoints (protected by x-admin-secret header)
-app.post('/api/admin/resume/daily-generate', dailyResumeGenerate)
+app.post('/api/admin/resume/daily-generate', requireAdminSecret, dailyResumeGenerate)
+app.get('/api/admin/job-runs', requireAdminSecret, getJobRuns)
+app.get('/api/admin/jobs/:id', requireAdminSecret, getJob)
+app.post('/api/admin/jobs/:id/cancel', requireAdminSecret, cancelJob)
+app.post('/api/admin/jobs/:id/resume', requireAdminSecret, resumeJob)
 
 // User routes
 app.get('/api/users/me', authenticateToken, getCurrentUser)
+app.get('/api/users/me/export', authenticateToken, getCurrentUserExport)
 app.post('/api/users/me', authenticateToken, createUser)
 app.put('/api/users/me', authenticateToken, updateUser)
 app.delete('/api/users/me', authenticateToken, deleteUser)
 
+// Bring the schema up to date before accepting requests; a failed migration aborts startup
+try {
+  await migrateUp()
+} catch (error) {
+  console.error('❌ Database migration failed:', error)
+  process.exit(1)
+}
+
 // Start server
 const server = app.listen(PORT, async () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`)
@@ -60,11 +164,19 @@ const server = app.listen(PORT, async () => {
   } else {
     console.error('❌ Database connection failed:', dbTest.error)
   }
+
+  registerConfiguredNotificationChannels()
+  startAlertEvaluator()
+  startScheduler()
+  startJobWorker()
 })
 
 // Graceful shutdown
 async function shutdown () {
   console.log('Shutting down gracefully...')
+  stopAlertEvaluator()
+  await stopScheduler()
+  stopJobWorker()
   server.close(async () => {
     console.log('HTTP server closed')
     await closeConnection()
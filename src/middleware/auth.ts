@@ -44,3 +44,18 @@ export async function authenticateToken (
   }
 }
 
+
+const ADMIN_SECRET_HEADER = 'x-admin-secret'
+
+/** Admin endpoints: the x-admin-secret header must match ADMIN_SECRET */
+export function requireAdminSecret (req: Request, res: Response, next: NextFunction): void {
+  const adminSecret = process.env.ADMIN_SECRET
+  const providedSecret = req.headers[ADMIN_SECRET_HEADER] as string | undefined
+
+  if (!adminSecret || providedSecret !== adminSecret) {
+    res.status(403).json({ error: 'Forbidden' })
+    return
+  }
+
+  next()
+}
@@ -0,0 +1,53 @@
+import 'dotenv/config'
+import { getMigrationStatus, migrateDown, migrateUp } from './services/migrationService.js'
+import { closeConnection } from './services/testConnection.js'
+
+const USAGE = `Usage: migrate <command>
+  up [version]   apply pending migrations (up to and including version)
+  down [steps]   revert the last applied migration, or the last <steps>
+  status         list migrations and when they were applied`
+
+function parsePositiveInt (value: string | undefined, label: string): number | undefined {
+  if (value === undefined) return undefined
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer`)
+  }
+  return parsed
+}
+
+async function run (command: string | undefined, arg: string | undefined): Promise<void> {
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp(parsePositiveInt(arg, 'version'))
+      if (applied.length === 0) console.log('Database is up to date')
+      return
+    }
+    case 'down': {
+      const reverted = await migrateDown(parsePositiveInt(arg, 'steps'))
+      if (reverted.length === 0) console.log('No applied migrations to revert')
+      return
+    }
+    case 'status': {
+      for (const s of await getMigrationStatus()) {
+        const state = s.appliedAt ? `applied ${s.appliedAt.toISOString()}` : 'pending'
+        console.log(`${String(s.version).padStart(4, '0')} ${s.name}  ${state}${s.known ? '' : '  (not in this build)'}`)
+      }
+      return
+    }
+    default:
+      console.log(USAGE)
+      process.exitCode = 1
+  }
+}
+
+const [command, arg] = process.argv.slice(2)
+
+try {
+  await run(command, arg)
+} catch (error) {
+  console.error('❌ Migration failed:', error instanceof Error ? error.message : error)
+  process.exitCode = 1
+} finally {
+  await closeConnection()
+}
@@ -0,0 +1,199 @@
+import type { MigrationSql } from './types.js'
+
+/**
+ * Baseline of the user, portfolio and resume tables. Written to be
+ * idempotent, as databases created before migrations already have (parts
+ * of) this schema: the ALTERs and DO blocks bring those up to date.
+ */
+export async function up (sql: MigrationSql): Promise<void> {
+  await sql`CREATE EXTENSION IF NOT EXISTS pgcrypto`
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS user_profiles (
+      uid TEXT PRIMARY KEY,
+      email TEXT,
+      display_name TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `
+
+  await sql`
+    ALTER TABLE user_profiles
+      ADD COLUMN IF NOT EXISTS cost_basis_method TEXT NOT NULL DEFAULT 'FIFO',
+      ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'USD',
+      ADD COLUMN IF NOT EXISTS benchmark_symbols TEXT[] NOT NULL DEFAULT '{}'
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS portfolios (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      uid TEXT NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      is_default BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (uid, name)
+    )
+  `
+
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_portfolios_uid_default
+    ON portfolios (uid) WHERE is_default
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS user_stocks (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      uid TEXT NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+      portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE,
+      symbol TEXT NOT NULL,
+      quantity NUMERIC(20, 8) NOT NULL CHECK (quantity >= 0),
+      purchase_price NUMERIC(20, 8),
+      purchase_date DATE,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `
+
+  // Tables created before fractional support had INTEGER quantities and cent prices
+  await sql`
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_stocks' AND column_name = 'quantity' AND data_type = 'integer'
+      ) THEN
+        ALTER TABLE user_stocks ALTER COLUMN quantity TYPE NUMERIC(20, 8);
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_stocks' AND column_name = 'purchase_price' AND numeric_scale = 2
+      ) THEN
+        ALTER TABLE user_stocks ALTER COLUMN purchase_price TYPE NUMERIC(20, 8);
+      END IF;
+    END $$
+  `
+
+  await sql`
+    ALTER TABLE user_stocks
+      ADD COLUMN IF NOT EXISTS portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_user_stocks_uid_portfolio
+    ON user_stocks (uid, portfolio_id)
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS portfolio_transactions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      uid TEXT NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+      portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE,
+      symbol TEXT,
+      type TEXT NOT NULL CHECK (type IN ('BUY', 'SELL', 'DIVIDEND', 'SPLIT', 'FEE')),
+      trade_date DATE NOT NULL,
+      quantity NUMERIC(20, 8),
+      price NUMERIC(20, 8),
+      amount NUMERIC(18, 4),
+      fee NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      split_ratio NUMERIC(20, 10),
+      note TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `
+
+  await sql`
+    ALTER TABLE portfolio_transactions
+      ADD COLUMN IF NOT EXISTS portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_portfolio_transactions_uid_date
+    ON portfolio_transactions (uid, trade_date)
+  `
+
+  // Lots and transactions from before named portfolios move into their owner's default ('Main') portfolio
+  await sql`
+    INSERT INTO portfolios (uid, name, is_default)
+    SELECT DISTINCT uid, 'Main', TRUE
+    FROM (
+      SELECT uid FROM user_stocks WHERE portfolio_id IS NULL
+      UNION
+      SELECT uid FROM portfolio_transactions WHERE portfolio_id IS NULL
+    ) orphaned
+    ON CONFLICT DO NOTHING
+  `
+
+  await sql`
+    UPDATE user_stocks s
+    SET portfolio_id = p.id
+    FROM portfolios p
+    WHERE s.portfolio_id IS NULL AND p.uid = s.uid AND p.is_default
+  `
+
+  await sql`
+    UPDATE portfolio_transactions t
+    SET portfolio_id = p.id
+    FROM portfolios p
+    WHERE t.portfolio_id IS NULL AND p.uid = t.uid AND p.is_default
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS user_daily_stock_resume (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      uid TEXT NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+      portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE,
+      resume_date DATE NOT NULL,
+      total_invested NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      total_value NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      total_pnl_value NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      total_pnl_percent NUMERIC(10, 4) NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      CONSTRAINT user_daily_stock_resume_uid_portfolio_date_key
+        UNIQUE NULLS NOT DISTINCT (uid, portfolio_id, resume_date)
+    )
+  `
+
+  await sql`
+    ALTER TABLE user_daily_stock_resume
+      ADD COLUMN IF NOT EXISTS total_realized_pnl NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS total_unrealized_pnl NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+      ADD COLUMN IF NOT EXISTS portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE,
+      ADD COLUMN IF NOT EXISTS pricing_quality JSONB,
+      ADD COLUMN IF NOT EXISTS total_dividends NUMERIC(18, 4) NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS dividend_income JSONB
+  `
+
+  // One row per portfolio and day; a NULL portfolio_id is the user's aggregate
+  await sql`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'user_daily_stock_resume_uid_portfolio_date_key'
+      ) THEN
+        ALTER TABLE user_daily_stock_resume DROP CONSTRAINT IF EXISTS user_daily_stock_resume_uid_resume_date_key;
+        ALTER TABLE user_daily_stock_resume
+          ADD CONSTRAINT user_daily_stock_resume_uid_portfolio_date_key
+          UNIQUE NULLS NOT DISTINCT (uid, portfolio_id, resume_date);
+      END IF;
+    END $$
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_user_daily_stock_resume_uid_date
+    ON user_daily_stock_resume (uid, resume_date DESC)
+  `
+}
+
+export async function down (sql: MigrationSql): Promise<void> {
+  await sql`DROP TABLE IF EXISTS user_daily_stock_resume`
+  await sql`DROP TABLE IF EXISTS portfolio_transactions`
+  await sql`DROP TABLE IF EXISTS user_stocks`
+  await sql`DROP TABLE IF EXISTS portfolios`
+  await sql`DROP TABLE IF EXISTS user_profiles`
+}
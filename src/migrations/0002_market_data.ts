@@ -0,0 +1,170 @@
+import type { MigrationSql } from './types.js'
+
+/** Baseline of the symbol, chart store and corporate action tables; idempotent like 0001 */
+export async function up (sql: MigrationSql): Promise<void> {
+  await sql`CREATE EXTENSION IF NOT EXISTS pgcrypto`
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS symbols (
+      symbol TEXT PRIMARY KEY,
+      name TEXT,
+      exchange TEXT,
+      currency TEXT,
+      quote_type TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `
+
+  await sql`
+    ALTER TABLE symbols
+      ADD COLUMN IF NOT EXISTS sector TEXT,
+      ADD COLUMN IF NOT EXISTS industry TEXT,
+      ADD COLUMN IF NOT EXISTS country TEXT,
+      ADD COLUMN IF NOT EXISTS profile_updated_at TIMESTAMPTZ
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS yahoo_chart_series (
+      symbol TEXT NOT NULL,
+      interval TEXT NOT NULL,
+      oldest_date DATE,
+      newest_date DATE,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (symbol, interval)
+    )
+  `
+
+  // Listing currency as reported by Yahoo chart meta
+  await sql`
+    ALTER TABLE yahoo_chart_series
+      ADD COLUMN IF NOT EXISTS currency TEXT
+  `
+
+  // Intraday bars: oldest_at/newest_at track the fetched window, not the bar dates
+  await sql`
+    ALTER TABLE yahoo_chart_series
+      ADD COLUMN IF NOT EXISTS oldest_at TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS newest_at TIMESTAMPTZ
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS yahoo_chart_points (
+      symbol TEXT NOT NULL,
+      interval TEXT NOT NULL,
+      trade_date DATE NOT NULL,
+      open NUMERIC(24, 8),
+      high NUMERIC(24, 8),
+      low NUMERIC(24, 8),
+      close NUMERIC(24, 8),
+      volume BIGINT,
+      adj_close NUMERIC(24, 8),
+      PRIMARY KEY (symbol, interval, trade_date),
+      FOREIGN KEY (symbol, interval) REFERENCES yahoo_chart_series(symbol, interval) ON DELETE CASCADE
+    )
+  `
+
+  // Tables created before OHLCV storage only had a close column
+  await sql`
+    ALTER TABLE yahoo_chart_points
+      ADD COLUMN IF NOT EXISTS open NUMERIC(24, 8),
+      ADD COLUMN IF NOT EXISTS high NUMERIC(24, 8),
+      ADD COLUMN IF NOT EXISTS low NUMERIC(24, 8),
+      ADD COLUMN IF NOT EXISTS volume BIGINT,
+      ADD COLUMN IF NOT EXISTS adj_close NUMERIC(24, 8)
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS yahoo_chart_intraday_points (
+      symbol TEXT NOT NULL,
+      interval TEXT NOT NULL,
+      bar_time TIMESTAMPTZ NOT NULL,
+      open NUMERIC(24, 8),
+      high NUMERIC(24, 8),
+      low NUMERIC(24, 8),
+      close NUMERIC(24, 8),
+      volume BIGINT,
+      adj_close NUMERIC(24, 8),
+      PRIMARY KEY (symbol, interval, bar_time),
+      FOREIGN KEY (symbol, interval) REFERENCES yahoo_chart_series(symbol, interval) ON DELETE CASCADE
+    )
+  `
+
+  // Sub-cent prices (crypto, penny stocks) need more than 4 decimals
+  await sql`
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'yahoo_chart_points' AND column_name = 'close' AND numeric_scale = 4
+      ) THEN
+        ALTER TABLE yahoo_chart_points
+          ALTER COLUMN open TYPE NUMERIC(24, 8),
+          ALTER COLUMN high TYPE NUMERIC(24, 8),
+          ALTER COLUMN low TYPE NUMERIC(24, 8),
+          ALTER COLUMN close TYPE NUMERIC(24, 8),
+          ALTER COLUMN adj_close TYPE NUMERIC(24, 8);
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'yahoo_chart_intraday_points' AND column_name = 'close' AND numeric_scale = 4
+      ) THEN
+        ALTER TABLE yahoo_chart_intraday_points
+          ALTER COLUMN open TYPE NUMERIC(24, 8),
+          ALTER COLUMN high TYPE NUMERIC(24, 8),
+          ALTER COLUMN low TYPE NUMERIC(24, 8),
+          ALTER COLUMN close TYPE NUMERIC(24, 8),
+          ALTER COLUMN adj_close TYPE NUMERIC(24, 8);
+      END IF;
+    END $$
+  `
+
+  // Intraday series used to be stored per trade_date, one (last-written) bar per day
+  await sql`
+    DELETE FROM yahoo_chart_points
+    WHERE interval IN ('5m', '15m', '30m', '60m', '1h')
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_yahoo_chart_points_symbol_interval_date
+    ON yahoo_chart_points (symbol, interval, trade_date DESC)
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_yahoo_chart_series_symbol_interval
+    ON yahoo_chart_series (symbol, interval)
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS corporate_actions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      symbol TEXT NOT NULL,
+      action_type TEXT NOT NULL CHECK (action_type IN ('SPLIT', 'DIVIDEND')),
+      ex_date DATE NOT NULL,
+      split_ratio NUMERIC(20, 10),
+      amount NUMERIC(20, 8),
+      currency TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (symbol, action_type, ex_date)
+    )
+  `
+
+  // One row per symbol whose events were fetched, so the sync can skip fresh ones
+  await sql`
+    CREATE TABLE IF NOT EXISTS corporate_action_syncs (
+      symbol TEXT PRIMARY KEY,
+      synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `
+}
+
+export async function down (sql: MigrationSql): Promise<void> {
+  await sql`DROP TABLE IF EXISTS corporate_action_syncs`
+  await sql`DROP TABLE IF EXISTS corporate_actions`
+  await sql`DROP TABLE IF EXISTS yahoo_chart_intraday_points`
+  await sql`DROP TABLE IF EXISTS yahoo_chart_points`
+  await sql`DROP TABLE IF EXISTS yahoo_chart_series`
+  await sql`DROP TABLE IF EXISTS symbols`
+}
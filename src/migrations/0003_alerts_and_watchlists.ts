@@ -0,0 +1,96 @@
+import type { MigrationSql } from './types.js'
+
+/** Baseline of the alert, notification and watchlist tables; idempotent like 0001 */
+export async function up (sql: MigrationSql): Promise<void> {
+  await sql`CREATE EXTENSION IF NOT EXISTS pgcrypto`
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS price_alerts (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      uid TEXT NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+      symbol TEXT,
+      portfolio_id UUID REFERENCES portfolios(id) ON DELETE CASCADE,
+      condition TEXT NOT NULL,
+      threshold NUMERIC(20, 8) NOT NULL,
+      note TEXT,
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      last_triggered_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_price_alerts_active
+    ON price_alerts (is_active, symbol)
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_price_alerts_uid
+    ON price_alerts (uid)
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS notifications (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      uid TEXT NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+      type TEXT NOT NULL,
+      alert_id UUID REFERENCES price_alerts(id) ON DELETE SET NULL,
+      title TEXT NOT NULL,
+      message TEXT NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+      acknowledged_at TIMESTAMPTZ,
+      delivered_at TIMESTAMPTZ,
+      delivery_attempts INTEGER NOT NULL DEFAULT 0,
+      last_delivery_error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_notifications_uid_created
+    ON notifications (uid, created_at DESC)
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_notifications_undelivered
+    ON notifications (created_at) WHERE delivered_at IS NULL
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS watchlists (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      uid TEXT NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (uid, name)
+    )
+  `
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS watchlist_items (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      watchlist_id UUID NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+      symbol TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      target_price NUMERIC(20, 8),
+      note TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (watchlist_id, symbol)
+    )
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_watchlist_items_watchlist_position
+    ON watchlist_items (watchlist_id, position)
+  `
+}
+
+export async function down (sql: MigrationSql): Promise<void> {
+  await sql`DROP TABLE IF EXISTS watchlist_items`
+  await sql`DROP TABLE IF EXISTS watchlists`
+  await sql`DROP TABLE IF EXISTS notifications`
+  await sql`DROP TABLE IF EXISTS price_alerts`
+}
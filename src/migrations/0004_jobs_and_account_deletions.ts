@@ -0,0 +1,66 @@
+import type { MigrationSql } from './types.js'
+
+/** Baseline of the job run log and the account deletion audit trail; idempotent like 0001 */
+export async function up (sql: MigrationSql): Promise<void> {
+  await sql`CREATE EXTENSION IF NOT EXISTS pgcrypto`
+
+  await sql`
+    CREATE TABLE IF NOT EXISTS job_runs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      job_name TEXT NOT NULL,
+      scheduled_for TIMESTAMPTZ NOT NULL,
+      status TEXT NOT NULL DEFAULT 'RUNNING',
+      instance_id TEXT NOT NULL,
+      result JSONB,
+      error TEXT,
+      started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      finished_at TIMESTAMPTZ,
+      UNIQUE (job_name, scheduled_for)
+    )
+  `
+
+  // Queued (admin-triggered) jobs: parameters, resumable progress and cancellation
+  await sql`
+    ALTER TABLE job_runs
+      ADD COLUMN IF NOT EXISTS params JSONB,
+      ADD COLUMN IF NOT EXISTS progress JSONB,
+      ADD COLUMN IF NOT EXISTS cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+      ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ,
+      ALTER COLUMN instance_id DROP NOT NULL
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_job_runs_started
+    ON job_runs (started_at DESC)
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_job_runs_queued
+    ON job_runs (scheduled_for) WHERE status = 'QUEUED'
+  `
+
+  // No foreign key to user_profiles: the audit trail must survive the account
+  await sql`
+    CREATE TABLE IF NOT EXISTS account_deletions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      uid TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'PENDING',
+      delete_auth_user BOOLEAN NOT NULL DEFAULT FALSE,
+      erased_rows JSONB,
+      auth_user_deleted BOOLEAN NOT NULL DEFAULT FALSE,
+      error TEXT,
+      requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMPTZ
+    )
+  `
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS idx_account_deletions_uid
+    ON account_deletions (uid, requested_at DESC)
+  `
+}
+
+export async function down (sql: MigrationSql): Promise<void> {
+  await sql`DROP TABLE IF EXISTS account_deletions`
+  await sql`DROP TABLE IF EXISTS job_runs`
+}
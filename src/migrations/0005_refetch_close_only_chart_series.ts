@@ -0,0 +1,28 @@
+import type { MigrationSql } from './types.js'
+
+/**
+ * Points stored before OHLCV storage only have a close, and getChartData
+ * serves any date inside a series' stored range from the database. Drop every
+ * series of yahoo_chart_points (daily, weekly and monthly intervals; intraday
+ * bars live in their own table) holding such points, its points cascading, so
+ * the next request fetches it again with full bars.
+ */
+export async function up (sql: MigrationSql): Promise<void> {
+  await sql`
+    DELETE FROM yahoo_chart_series s
+    WHERE EXISTS (
+      SELECT 1
+      FROM yahoo_chart_points p
+      WHERE p.symbol = s.symbol
+        AND p.interval = s.interval
+        AND p.close IS NOT NULL
+        AND p.open IS NULL
+        AND p.high IS NULL
+        AND p.low IS NULL
+        AND p.volume IS NULL
+    )
+  `
+}
+
+/** The dropped points are refetched from Yahoo, so there is nothing to restore */
+export async function down (): Promise<void> {}
@@ -0,0 +1,20 @@
+import type { Migration } from './types.js'
+import * as usersAndPortfolios from './0001_users_and_portfolios.js'
+import * as marketData from './0002_market_data.js'
+import * as alertsAndWatchlists from './0003_alerts_and_watchlists.js'
+import * as jobsAndAccountDeletions from './0004_jobs_and_account_deletions.js'
+import * as refetchCloseOnlyChartSeries from './0005_refetch_close_only_chart_series.js'
+
+/**
+ * Every migration, in version order. A new migration gets the next number,
+ * a `NNNN_name.ts` file exporting `up` and `down`, and an entry here.
+ */
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: 'users_and_portfolios', ...usersAndPortfolios },
+  { version: 2, name: 'market_data', ...marketData },
+  { version: 3, name: 'alerts_and_watchlists', ...alertsAndWatchlists },
+  { version: 4, name: 'jobs_and_account_deletions', ...jobsAndAccountDeletions },
+  { version: 5, name: 'refetch_close_only_chart_series', ...refetchCloseOnlyChartSeries }
+]
+
+export type { Migration, MigrationSql } from './types.js'
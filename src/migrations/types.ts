@@ -0,0 +1,16 @@
+import type sql from '../config/database.js'
+
+/** Connection a migration runs on; always inside the runner's transaction */
+export type MigrationSql = typeof sql
+
+/**
+ * One schema change. `up` and `down` run in a transaction together with the
+ * schema_migrations bookkeeping, so a failing step leaves nothing behind.
+ * Migrations are frozen once released: write a new one instead of editing.
+ */
+export interface Migration {
+  version: number
+  name: string
+  up: (sql: MigrationSql) => Promise<void>
+  down: (sql: MigrationSql) => Promise<void>
+}
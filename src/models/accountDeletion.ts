@@ -0,0 +1,35 @@
+export const ACCOUNT_DELETION_STATUSES = ['PENDING', 'COMPLETED', 'PARTIAL', 'FAILED'] as const
+
+export type AccountDeletionStatus = typeof ACCOUNT_DELETION_STATUSES[number]
+
+/**
+ * Audit record of an account deletion. It outlives the account and only
+ * keeps the uid plus what was erased: row counts per table and whether the
+ * Firebase user was deleted. PARTIAL means the rows are gone but the
+ * Firebase deletion failed; see `error`.
+ */
+export interface AccountDeletion {
+  id: string
+  uid: string
+  status: AccountDeletionStatus
+  deleteAuthUser: boolean
+  erasedRows: Record<string, number> | null
+  authUserDeleted: boolean
+  error: string | null
+  requestedAt: Date
+  completedAt: Date | null
+}
+
+export function mapRowToAccountDeletion (row: Record<string, unknown>): AccountDeletion {
+  return {
+    id: row.id as string,
+    uid: row.uid as string,
+    status: row.status as AccountDeletionStatus,
+    deleteAuthUser: row.delete_auth_user === true,
+    erasedRows: (row.erased_rows as Record<string, number> | null) ?? null,
+    authUserDeleted: row.auth_user_deleted === true,
+    error: (row.error as string | null) ?? null,
+    requestedAt: row.requested_at as Date,
+    completedAt: (row.completed_at as Date | null) ?? null
+  }
+}
@@ -0,0 +1,39 @@
+export const CORPORATE_ACTION_TYPES = ['SPLIT', 'DIVIDEND'] as const
+
+export type CorporateActionType = typeof CORPORATE_ACTION_TYPES[number]
+
+/** Split or cash dividend of a listed symbol, as reported by Yahoo */
+export interface CorporateAction {
+  id: string
+  symbol: string
+  type: CorporateActionType
+  exDate: string
+  /** SPLIT: new shares per old share (10 for 10:1, 0.1 for a 1:10 reverse split) */
+  splitRatio: number | null
+  /** DIVIDEND: cash per share in the listing currency (may be a minor unit like GBp) */
+  amount: number | null
+  currency: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CorporateActionInput {
+  type: CorporateActionType
+  exDate: string
+  splitRatio: number | null
+  amount: number | null
+}
+
+export function mapRowToCorporateAction (row: Record<string, unknown>): CorporateAction {
+  return {
+    id: row.id as string,
+    symbol: row.symbol as string,
+    type: row.action_type as CorporateActionType,
+    exDate: (row.ex_date instanceof Date ? row.ex_date.toISOString().slice(0, 10) : String(row.ex_date)),
+    splitRatio: row.split_ratio != null ? Number(row.split_ratio) : null,
+    amount: row.amount != null ? Number(row.amount) : null,
+    currency: (row.currency as string | null) ?? null,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date
+  }
+}
@@ -0,0 +1,43 @@
+export const JOB_RUN_STATUSES = ['QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED'] as const
+
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number]
+
+/**
+ * One execution of a job. For scheduled jobs `scheduledFor` is the schedule
+ * slot the run belongs to; a slot runs at most once across all replicas.
+ * Queued jobs (admin-triggered) use the time they were queued and carry
+ * `params` plus a `progress` checkpoint they can be resumed from.
+ */
+export interface JobRun {
+  id: string
+  jobName: string
+  scheduledFor: Date
+  status: JobRunStatus
+  instanceId: string | null
+  params: Record<string, unknown> | null
+  progress: Record<string, unknown> | null
+  cancelRequested: boolean
+  result: Record<string, unknown> | null
+  error: string | null
+  startedAt: Date
+  finishedAt: Date | null
+  updatedAt: Date | null
+}
+
+export function mapRowToJobRun (row: Record<string, unknown>): JobRun {
+  return {
+    id: row.id as string,
+    jobName: row.job_name as string,
+    scheduledFor: row.scheduled_for as Date,
+    status: row.status as JobRunStatus,
+    instanceId: (row.instance_id as string | null) ?? null,
+    params: (row.params as Record<string, unknown> | null) ?? null,
+    progress: (row.progress as Record<string, unknown> | null) ?? null,
+    cancelRequested: row.cancel_requested === true,
+    result: (row.result as Record<string, unknown> | null) ?? null,
+    error: (row.error as string | null) ?? null,
+    startedAt: row.started_at as Date,
+    finishedAt: (row.finished_at as Date | null) ?? null,
+    updatedAt: (row.updated_at as Date | null) ?? null
+  }
+}
@@ -0,0 +1,47 @@
+export const NOTIFICATION_TYPES = ['PRICE_ALERT'] as const
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number]
+
+/**
+ * Outbox entry. Users list and acknowledge them in the app; delivery
+ * channels (webhooks) push them out and record the outcome.
+ */
+export interface Notification {
+  id: string
+  uid: string
+  type: NotificationType
+  alertId: string | null
+  title: string
+  message: string
+  payload: Record<string, unknown>
+  acknowledgedAt: Date | null
+  deliveredAt: Date | null
+  deliveryAttempts: number
+  lastDeliveryError: string | null
+  createdAt: Date
+}
+
+export interface NotificationPayload {
+  type: NotificationType
+  alertId: string | null
+  title: string
+  message: string
+  payload: Record<string, unknown>
+}
+
+export function mapRowToNotification (row: Record<string, unknown>): Notification {
+  return {
+    id: row.id as string,
+    uid: row.uid as string,
+    type: row.type as NotificationType,
+    alertId: (row.alert_id as string | null) ?? null,
+    title: row.title as string,
+    message: row.message as string,
+    payload: (row.payload as Record<string, unknown> | null) ?? {},
+    acknowledgedAt: (row.acknowledged_at as Date | null) ?? null,
+    deliveredAt: (row.delivered_at as Date | null) ?? null,
+    deliveryAttempts: Number(row.delivery_attempts ?? 0),
+    lastDeliveryError: (row.last_delivery_error as string | null) ?? null,
+    createdAt: row.created_at as Date
+  }
+}
@@ -0,0 +1,21 @@
+export const DEFAULT_PORTFOLIO_NAME = 'Main'
+
+export interface Portfolio {
+  id: string
+  uid: string
+  name: string
+  isDefault: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export function mapRowToPortfolio (row: Record<string, unknown>): Portfolio {
+  return {
+    id: row.id as string,
+    uid: row.uid as string,
+    name: row.name as string,
+    isDefault: Boolean(row.is_default),
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date
+  }
+}
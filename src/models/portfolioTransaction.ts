@@ -0,0 +1,63 @@
+export const PORTFOLIO_TRANSACTION_TYPES = ['BUY', 'SELL', 'DIVIDEND', 'SPLIT', 'FEE'] as const
+
+export type PortfolioTransactionType = typeof PORTFOLIO_TRANSACTION_TYPES[number]
+
+/**
+ * Ledger entry. Which fields are set depends on the type:
+ * - BUY / SELL: symbol, quantity, price (+ optional fee)
+ * - DIVIDEND: symbol, amount (cash received)
+ * - SPLIT: symbol, splitRatio (new shares per old share, 10 for a 10:1 split)
+ * - FEE: amount, optional symbol
+ */
+export interface PortfolioTransaction {
+  id: string
+  uid: string
+  portfolioId: string | null
+  symbol: string | null
+  type: PortfolioTransactionType
+  tradeDate: string
+  quantity: number | null
+  price: number | null
+  amount: number | null
+  fee: number
+  splitRatio: number | null
+  note: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface PortfolioTransactionPayload {
+  portfolioId: string
+  symbol: string | null
+  type: PortfolioTransactionType
+  tradeDate: string
+  quantity: number | null
+  price: number | null
+  amount: number | null
+  fee: number
+  splitRatio: number | null
+  note: string | null
+}
+
+function toNullableNumber (value: unknown): number | null {
+  return value == null ? null : Number(value)
+}
+
+export function mapRowToPortfolioTransaction (row: Record<string, unknown>): PortfolioTransaction {
+  return {
+    id: row.id as string,
+    uid: row.uid as string,
+    portfolioId: (row.portfolio_id as string | null) ?? null,
+    symbol: (row.symbol as string | null) ?? null,
+    type: row.type as PortfolioTransactionType,
+    tradeDate: (row.trade_date instanceof Date ? row.trade_date.toISOString().slice(0, 10) : String(row.trade_date)),
+    quantity: toNullableNumber(row.quantity),
+    price: toNullableNumber(row.price),
+    amount: toNullableNumber(row.amount),
+    fee: Number(row.fee ?? 0),
+    splitRatio: toNullableNumber(row.split_ratio),
+    note: (row.note as string | null) ?? null,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date
+  }
+}
@@ -0,0 +1,65 @@
+/** Conditions on a single symbol's quote */
+export const SYMBOL_ALERT_CONDITIONS = [
+  'PRICE_ABOVE',
+  'PRICE_BELOW',
+  'DAY_CHANGE_PERCENT_ABOVE',
+  'DAY_CHANGE_PERCENT_BELOW'
+] as const
+
+/** Conditions on a portfolio's (or the user's aggregate) value change since the previous close */
+export const PORTFOLIO_ALERT_CONDITIONS = [
+  'PORTFOLIO_DAY_CHANGE_PERCENT_ABOVE',
+  'PORTFOLIO_DAY_CHANGE_PERCENT_BELOW'
+] as const
+
+export const PRICE_ALERT_CONDITIONS = [...SYMBOL_ALERT_CONDITIONS, ...PORTFOLIO_ALERT_CONDITIONS] as const
+
+export type PriceAlertCondition = typeof PRICE_ALERT_CONDITIONS[number]
+
+/**
+ * Alerts fire once: the evaluator deactivates them when they trigger, the
+ * user re-arms them by setting isActive again.
+ * Symbol conditions need `symbol`; portfolio conditions use `portfolioId`
+ * (null for all of the user's portfolios).
+ */
+export interface PriceAlert {
+  id: string
+  uid: string
+  symbol: string | null
+  portfolioId: string | null
+  condition: PriceAlertCondition
+  threshold: number
+  note: string | null
+  isActive: boolean
+  lastTriggeredAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface PriceAlertPayload {
+  symbol: string | null
+  portfolioId: string | null
+  condition: PriceAlertCondition
+  threshold: number
+  note: string | null
+}
+
+export function isSymbolAlertCondition (condition: PriceAlertCondition): boolean {
+  return (SYMBOL_ALERT_CONDITIONS as readonly string[]).includes(condition)
+}
+
+export function mapRowToPriceAlert (row: Record<string, unknown>): PriceAlert {
+  return {
+    id: row.id as string,
+    uid: row.uid as string,
+    symbol: (row.symbol as string | null) ?? null,
+    portfolioId: (row.portfolio_id as string | null) ?? null,
+    condition: row.condition as PriceAlertCondition,
+    threshold: Number(row.threshold),
+    note: (row.note as string | null) ?? null,
+    isActive: Boolean(row.is_active),
+    lastTriggeredAt: (row.last_triggered_at as Date | null) ?? null,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date
+  }
+}
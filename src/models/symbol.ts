@@ -0,0 +1,29 @@
+/** Instrument metadata from Yahoo, cached in the `symbols` table */
+export interface SymbolInfo {
+  symbol: string
+  name: string | null
+  exchange: string | null
+  currency: string | null
+  quoteType: string | null
+  sector: string | null
+  industry: string | null
+  country: string | null
+  /** When sector/industry/country were last fetched; null when never */
+  profileUpdatedAt: Date | null
+  updatedAt: Date
+}
+
+export function mapRowToSymbolInfo (row: Record<string, unknown>): SymbolInfo {
+  return {
+    symbol: row.symbol as string,
+    name: (row.name as string | null) ?? null,
+    exchange: (row.exchange as string | null) ?? null,
+    currency: (row.currency as string | null) ?? null,
+    quoteType: (row.quote_type as string | null) ?? null,
+    sector: (row.sector as string | null) ?? null,
+    industry: (row.industry as string | null) ?? null,
+    country: (row.country as string | null) ?? null,
+    profileUpdatedAt: (row.profile_updated_at as Date | null) ?? null,
+    updatedAt: row.updated_at as Date
+  }
+}
@@ -1,9 +1,22 @@
+
+export const COST_BASIS_METHODS = ['FIFO', 'LIFO', 'AVERAGE'] as const
+
+export const DEFAULT_BASE_CURRENCY = 'USD'
+
+/** Most benchmark symbols a user can compare against at once */
+export const MAX_BENCHMARK_SYMBOLS = 5
+
+type CostBasisMethod = typeof COST_BASIS_METHODS[number]
+
 interface UserProfile {
     uid: string
     email?: string | null
     displayName?: string | null
+    costBasisMethod: CostBasisMethod
+    baseCurrency: string
+    benchmarkSymbols: string[]
     createdAt: Date
     updatedAt: Date
   }
 
-export type { UserProfile }
\ No newline at end of file
+export type { UserProfile, CostBasisMethod }
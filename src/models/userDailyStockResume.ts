@@ -1,11 +1,53 @@
+export const PRICING_QUALITY_STATUSES = ['COMPLETE', 'STALE', 'INCOMPLETE'] as const
+
+export type PricingQualityStatus = typeof PRICING_QUALITY_STATUSES[number]
+
+/** A holding not valued at its close on the resume date */
+export interface EstimatedHolding {
+  symbol: string
+  /**
+   * STALE: valued at an earlier close (`priceDate`); MISSING: no close within
+   * the lookback, valued at 0; UNCONVERTED: no FX rate into the resume
+   * currency, left out of every total
+   */
+  quality: 'STALE' | 'MISSING' | 'UNCONVERTED'
+  priceDate: string | null
+}
+
+/**
+ * How the holdings of a resume were priced. COMPLETE: every open holding had
+ * a close on the day; STALE: some used a carried-forward close; INCOMPLETE:
+ * some had no price at all or could not be converted.
+ */
+export interface PricingQuality {
+  status: PricingQualityStatus
+  holdings: EstimatedHolding[]
+}
+
+/** Dividends received on a holding up to the resume date, in the resume currency */
+export interface DividendIncome {
+  symbol: string
+  amount: number
+}
+
 export interface UserDailyStockResume {
   id: string
   uid: string
+  /** Null for the aggregate across all of the user's portfolios */
+  portfolioId: string | null
   resumeDate: string
+  currency: string
   totalInvested: number
   totalValue: number
   totalPnlValue: number
   totalPnlPercent: number
+  totalRealizedPnl: number
+  totalUnrealizedPnl: number
+  /** Cumulative dividend income, closed holdings included */
+  totalDividends: number
+  dividendIncome: DividendIncome[]
+  /** Null for rows stored before pricing quality was tracked */
+  pricingQuality: PricingQuality | null
   createdAt: Date
   updatedAt: Date
 }
@@ -13,21 +55,34 @@ export interface UserDailyStockResume {
 export interface UserDailyStockResumePayload {
   uid: string
   resumeDate: string
+  currency: string
   totalInvested: number
   totalValue: number
   totalPnlValue: number
   totalPnlPercent: number
+  totalRealizedPnl: number
+  totalUnrealizedPnl: number
+  totalDividends: number
+  dividendIncome: DividendIncome[]
+  pricingQuality: PricingQuality
 }
 
 export function mapRowToUserDailyStockResume (row: Record<string, unknown>): UserDailyStockResume {
   return {
     id: row.id as string,
     uid: row.uid as string,
+    portfolioId: (row.portfolio_id as string | null) ?? null,
     resumeDate: (row.resume_date instanceof Date ? row.resume_date.toISOString().slice(0, 10) : String(row.resume_date)),
+    currency: (row.currency as string | null) ?? 'USD',
     totalInvested: Number(row.total_invested ?? 0),
     totalValue: Number(row.total_value ?? 0),
     totalPnlValue: Number(row.total_pnl_value ?? 0),
     totalPnlPercent: Number(row.total_pnl_percent ?? 0),
+    totalRealizedPnl: Number(row.total_realized_pnl ?? 0),
+    totalUnrealizedPnl: Number(row.total_unrealized_pnl ?? 0),
+    totalDividends: Number(row.total_dividends ?? 0),
+    dividendIncome: (row.dividend_income as DividendIncome[] | null) ?? [],
+    pricingQuality: (row.pricing_quality as PricingQuality | null) ?? null,
     createdAt: row.created_at as Date,
     updatedAt: row.updated_at as Date
   }
@@ -1,6 +1,7 @@
 interface UserStock {
   id: string
   uid: string
+  portfolioId: string | null
   symbol: string
   quantity: number
   purchasePrice: number | null
@@ -0,0 +1,46 @@
+export interface WatchlistItem {
+  id: string
+  watchlistId: string
+  symbol: string
+  /** 0-based order within the watchlist */
+  position: number
+  targetPrice: number | null
+  note: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface Watchlist {
+  id: string
+  uid: string
+  name: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface WatchlistWithItems extends Watchlist {
+  items: WatchlistItem[]
+}
+
+export function mapRowToWatchlist (row: Record<string, unknown>): Watchlist {
+  return {
+    id: row.id as string,
+    uid: row.uid as string,
+    name: row.name as string,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date
+  }
+}
+
+export function mapRowToWatchlistItem (row: Record<string, unknown>): WatchlistItem {
+  return {
+    id: row.id as string,
+    watchlistId: row.watchlist_id as string,
+    symbol: row.symbol as string,
+    position: Number(row.position),
+    targetPrice: row.target_price != null ? Number(row.target_price) : null,
+    note: (row.note as string | null) ?? null,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date
+  }
+}
@@ -0,0 +1,65 @@
+import sql from '../config/database.js'
+import {
+  mapRowToAccountDeletion,
+  type AccountDeletion,
+  type AccountDeletionStatus
+} from '../models/accountDeletion.js'
+import { transaction } from '../utils/db.js'
+
+export async function startAccountDeletion (uid: string, deleteAuthUser: boolean): Promise<AccountDeletion> {
+  const rows = await sql`
+    INSERT INTO account_deletions (uid, delete_auth_user)
+    VALUES (${uid}, ${deleteAuthUser})
+    RETURNING *
+  `
+  return mapRowToAccountDeletion(rows[0] as Record<string, unknown>)
+}
+
+export async function finishAccountDeletion (
+  id: string,
+  status: Exclude<AccountDeletionStatus, 'PENDING'>,
+  result: {
+    erasedRows: Record<string, number> | null
+    authUserDeleted: boolean
+    error: string | null
+  }
+): Promise<AccountDeletion> {
+  const rows = await sql`
+    UPDATE account_deletions
+    SET
+      status = ${status},
+      erased_rows = ${result.erasedRows != null ? sql.json(result.erasedRows) : null},
+      auth_user_deleted = ${result.authUserDeleted},
+      error = ${result.error},
+      completed_at = NOW()
+    WHERE id = ${id}
+    RETURNING *
+  `
+  return mapRowToAccountDeletion(rows[0] as Record<string, unknown>)
+}
+
+/**
+ * Delete every row owned by the user, children first, in one transaction.
+ * Returns the deleted row count per table; the profile row goes last, so a
+ * zero `user_profiles` count means the user did not exist.
+ */
+export async function eraseUserRows (uid: string): Promise<Record<string, number>> {
+  return await transaction(async (txSql) => {
+    const erased: Record<string, number> = {}
+
+    erased.notifications = (await txSql`DELETE FROM notifications WHERE uid = ${uid}`).count
+    erased.price_alerts = (await txSql`DELETE FROM price_alerts WHERE uid = ${uid}`).count
+    erased.watchlist_items = (await txSql`
+      DELETE FROM watchlist_items
+      WHERE watchlist_id IN (SELECT id FROM watchlists WHERE uid = ${uid})
+    `).count
+    erased.watchlists = (await txSql`DELETE FROM watchlists WHERE uid = ${uid}`).count
+    erased.user_daily_stock_resume = (await txSql`DELETE FROM user_daily_stock_resume WHERE uid = ${uid}`).count
+    erased.portfolio_transactions = (await txSql`DELETE FROM portfolio_transactions WHERE uid = ${uid}`).count
+    erased.user_stocks = (await txSql`DELETE FROM user_stocks WHERE uid = ${uid}`).count
+    erased.portfolios = (await txSql`DELETE FROM portfolios WHERE uid = ${uid}`).count
+    erased.user_profiles = (await txSql`DELETE FROM user_profiles WHERE uid = ${uid}`).count
+
+    return erased
+  })
+}
@@ -0,0 +1,81 @@
+import sql from '../config/database.js'
+import {
+  mapRowToCorporateAction,
+  type CorporateAction,
+  type CorporateActionInput
+} from '../models/corporateAction.js'
+
+/**
+ * Store the events of one symbol. Returns the rows that were new or whose
+ * ratio/amount changed; unchanged events are left alone.
+ */
+export async function upsertCorporateActions (
+  symbol: string,
+  currency: string | null,
+  actions: CorporateActionInput[]
+): Promise<CorporateAction[]> {
+  if (actions.length === 0) return []
+
+  const rows = await sql`
+    INSERT INTO corporate_actions ${sql(actions.map((a) => ({
+      symbol,
+      action_type: a.type,
+      ex_date: a.exDate,
+      split_ratio: a.splitRatio,
+      amount: a.amount,
+      currency
+    })))}
+    ON CONFLICT (symbol, action_type, ex_date) DO UPDATE SET
+      split_ratio = EXCLUDED.split_ratio,
+      amount = EXCLUDED.amount,
+      currency = EXCLUDED.currency,
+      updated_at = NOW()
+    WHERE (corporate_actions.split_ratio, corporate_actions.amount)
+      IS DISTINCT FROM (EXCLUDED.split_ratio, EXCLUDED.amount)
+    RETURNING *
+  `
+  return rows.map((row) => mapRowToCorporateAction(row as Record<string, unknown>))
+}
+
+/** Actions per symbol, oldest ex-date first; symbols without any are absent */
+export async function listCorporateActions (symbols: string[]): Promise<Map<string, CorporateAction[]>> {
+  const bySymbol = new Map<string, CorporateAction[]>()
+  if (symbols.length === 0) return bySymbol
+
+  const rows = await sql`
+    SELECT *
+    FROM corporate_actions
+    WHERE symbol = ANY(${symbols})
+    ORDER BY symbol, ex_date ASC, action_type DESC
+  `
+  for (const row of rows) {
+    const action = mapRowToCorporateAction(row as Record<string, unknown>)
+    if (!bySymbol.has(action.symbol)) bySymbol.set(action.symbol, [])
+    bySymbol.get(action.symbol)!.push(action)
+  }
+  return bySymbol
+}
+
+/** Symbols whose events were never fetched or were fetched more than `maxAgeMs` ago */
+export async function listSymbolsDueForActionSync (symbols: string[], maxAgeMs: number): Promise<string[]> {
+  if (symbols.length === 0) return []
+
+  const cutoff = new Date(Date.now() - maxAgeMs)
+  const rows = await sql`
+    SELECT symbol
+    FROM corporate_action_syncs
+    WHERE symbol = ANY(${symbols})
+      AND synced_at >= ${cutoff}
+  ` as unknown as Array<{ symbol: string }>
+
+  const fresh = new Set(rows.map((r) => r.symbol))
+  return symbols.filter((s) => !fresh.has(s))
+}
+
+export async function markCorporateActionsSynced (symbol: string): Promise<void> {
+  await sql`
+    INSERT INTO corporate_action_syncs (symbol, synced_at)
+    VALUES (${symbol}, NOW())
+    ON CONFLICT (symbol) DO UPDATE SET synced_at = NOW()
+  `
+}
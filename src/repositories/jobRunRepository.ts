@@ -0,0 +1,176 @@
+import sql from '../config/database.js'
+import { mapRowToJobRun, type JobRun, type JobRunStatus } from '../models/jobRun.js'
+import { isUuid } from '../utils/validation.js'
+
+/**
+ * Claim a schedule slot. Returns null when a run for that slot already exists,
+ * whichever replica recorded it.
+ */
+export async function startJobRun (jobName: string, scheduledFor: Date, instanceId: string): Promise<JobRun | null> {
+  const rows = await sql`
+    INSERT INTO job_runs (job_name, scheduled_for, instance_id)
+    VALUES (${jobName}, ${scheduledFor}, ${instanceId})
+    ON CONFLICT (job_name, scheduled_for) DO NOTHING
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+  return mapRowToJobRun(rows[0] as Record<string, unknown>)
+}
+
+export async function finishJobRun (
+  id: string,
+  status: Exclude<JobRunStatus, 'QUEUED' | 'RUNNING'>,
+  result: Record<string, unknown> | null,
+  error: string | null
+): Promise<void> {
+  await sql`
+    UPDATE job_runs
+    SET
+      status = ${status},
+      result = ${result != null ? sql.json(result as Parameters<typeof sql.json>[0]) : null},
+      error = ${error},
+      finished_at = NOW(),
+      updated_at = NOW()
+    WHERE id = ${id}
+  `
+}
+
+/**
+ * Runs left RUNNING by an instance that went away (e.g. a restart mid-job)
+ * are marked FAILED so they do not look in progress forever. Queued jobs that
+ * failed this way can be resumed.
+ */
+export async function failStaleJobRuns (inactiveSince: Date): Promise<number> {
+  const result = await sql`
+    UPDATE job_runs
+    SET status = 'FAILED', error = 'Abandoned: the instance running this job stopped', finished_at = NOW()
+    WHERE status = 'RUNNING' AND COALESCE(updated_at, started_at) < ${inactiveSince}
+  `
+  return result.count
+}
+
+/** Most recent runs first, optionally for one job */
+export async function listJobRuns (options: { jobName?: string; limit?: number } = {}): Promise<JobRun[]> {
+  const rows = await sql`
+    SELECT *
+    FROM job_runs
+    ${options.jobName ? sql`WHERE job_name = ${options.jobName}` : sql``}
+    ORDER BY started_at DESC
+    LIMIT ${options.limit ?? 100}
+  `
+  return rows.map((row) => mapRowToJobRun(row as Record<string, unknown>))
+}
+
+export async function pruneJobRuns (startedBefore: Date): Promise<number> {
+  const result = await sql`
+    DELETE FROM job_runs
+    WHERE started_at < ${startedBefore} AND status NOT IN ('QUEUED', 'RUNNING')
+  `
+  return result.count
+}
+
+/** Queue a job for the background worker; `params` tells its handler what to do */
+export async function enqueueJobRun (jobName: string, params: Record<string, unknown>): Promise<JobRun> {
+  const rows = await sql`
+    INSERT INTO job_runs (job_name, scheduled_for, status, params, updated_at)
+    VALUES (${jobName}, NOW(), 'QUEUED', ${sql.json(params as Parameters<typeof sql.json>[0])}, NOW())
+    RETURNING *
+  `
+  return mapRowToJobRun(rows[0] as Record<string, unknown>)
+}
+
+/** A queued or running job of `jobName` whose params contain `params` (jsonb containment) */
+export async function findActiveJobRun (jobName: string, params: Record<string, unknown>): Promise<JobRun | null> {
+  const rows = await sql`
+    SELECT *
+    FROM job_runs
+    WHERE job_name = ${jobName}
+      AND status IN ('QUEUED', 'RUNNING')
+      AND params @> ${sql.json(params as Parameters<typeof sql.json>[0])}
+    ORDER BY scheduled_for ASC
+    LIMIT 1
+  `
+  if (rows.length === 0) return null
+  return mapRowToJobRun(rows[0] as Record<string, unknown>)
+}
+
+export async function getJobRun (id: string): Promise<JobRun | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    SELECT *
+    FROM job_runs
+    WHERE id = ${id}
+  `
+  if (rows.length === 0) return null
+  return mapRowToJobRun(rows[0] as Record<string, unknown>)
+}
+
+/** Move the oldest queued job to RUNNING for this instance; SKIP LOCKED keeps two workers off the same job */
+export async function claimQueuedJobRun (instanceId: string): Promise<JobRun | null> {
+  const rows = await sql`
+    UPDATE job_runs
+    SET status = 'RUNNING', instance_id = ${instanceId}, started_at = NOW(), updated_at = NOW()
+    WHERE id = (
+      SELECT id
+      FROM job_runs
+      WHERE status = 'QUEUED'
+      ORDER BY scheduled_for ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+  return mapRowToJobRun(rows[0] as Record<string, unknown>)
+}
+
+/** Save a checkpoint; returns whether cancellation has been requested meanwhile */
+export async function updateJobRunProgress (id: string, progress: Record<string, unknown>): Promise<boolean> {
+  const rows = await sql`
+    UPDATE job_runs
+    SET progress = ${sql.json(progress as Parameters<typeof sql.json>[0])}, updated_at = NOW()
+    WHERE id = ${id}
+    RETURNING cancel_requested
+  `
+  return rows[0]?.cancel_requested === true
+}
+
+/**
+ * Cancel a queued or running job. Queued jobs are cancelled at once; running
+ * ones stop at their next checkpoint. Returns null when the job is not found
+ * or already finished.
+ */
+export async function requestJobRunCancel (id: string): Promise<JobRun | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    UPDATE job_runs
+    SET
+      cancel_requested = (status = 'RUNNING'),
+      status = CASE WHEN status = 'QUEUED' THEN 'CANCELLED' ELSE status END,
+      finished_at = CASE WHEN status = 'QUEUED' THEN NOW() ELSE finished_at END,
+      updated_at = NOW()
+    WHERE id = ${id} AND status IN ('QUEUED', 'RUNNING')
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+  return mapRowToJobRun(rows[0] as Record<string, unknown>)
+}
+
+/**
+ * Queue a cancelled or failed job again; its handler continues from the saved
+ * progress. Scheduled runs (no params) cannot be resumed.
+ */
+export async function requeueJobRun (id: string): Promise<JobRun | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    UPDATE job_runs
+    SET status = 'QUEUED', cancel_requested = FALSE, result = NULL, error = NULL, finished_at = NULL, updated_at = NOW()
+    WHERE id = ${id} AND status IN ('CANCELLED', 'FAILED') AND params IS NOT NULL
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+  return mapRowToJobRun(rows[0] as Record<string, unknown>)
+}
@@ -0,0 +1,96 @@
+import sql from '../config/database.js'
+import {
+  mapRowToNotification,
+  type Notification,
+  type NotificationPayload
+} from '../models/notification.js'
+import { transaction } from '../utils/db.js'
+import { isUuid } from '../utils/validation.js'
+
+/** Newest first; `limit` defaults to 100, null returns them all */
+export async function listNotificationsForUser (
+  uid: string,
+  options: { unacknowledgedOnly?: boolean; limit?: number | null } = {}
+): Promise<Notification[]> {
+  const rows = await sql`
+    SELECT *
+    FROM notifications
+    WHERE uid = ${uid}
+      ${options.unacknowledgedOnly ? sql`AND acknowledged_at IS NULL` : sql``}
+    ORDER BY created_at DESC
+    ${options.limit !== null ? sql`LIMIT ${options.limit ?? 100}` : sql``}
+  `
+  return rows.map((row) => mapRowToNotification(row as Record<string, unknown>))
+}
+
+/** Acknowledge one notification, or all of the user's when id is null; returns how many changed */
+export async function acknowledgeNotifications (uid: string, id: string | null): Promise<number> {
+  if (id != null && !isUuid(id)) return 0
+
+  const result = await sql`
+    UPDATE notifications
+    SET acknowledged_at = NOW()
+    WHERE uid = ${uid}
+      AND acknowledged_at IS NULL
+      ${id ? sql`AND id = ${id}` : sql``}
+  `
+  return result.count
+}
+
+/**
+ * Disarm the alert and queue its notification in one transaction. Returns
+ * null when the alert was already disarmed (another evaluator got there first).
+ */
+export async function recordAlertTrigger (
+  uid: string,
+  alertId: string,
+  data: NotificationPayload
+): Promise<Notification | null> {
+  return await transaction(async (txSql) => {
+    const disarmed = await txSql`
+      UPDATE price_alerts
+      SET is_active = FALSE, last_triggered_at = NOW(), updated_at = NOW()
+      WHERE id = ${alertId} AND is_active
+    `
+    if (disarmed.count === 0) return null
+
+    const rows = await txSql`
+      INSERT INTO notifications (uid, type, alert_id, title, message, payload)
+      VALUES (
+        ${uid},
+        ${data.type},
+        ${alertId},
+        ${data.title},
+        ${data.message},
+        ${txSql.json(data.payload as Parameters<typeof txSql.json>[0])}
+      )
+      RETURNING *
+    `
+    return mapRowToNotification(rows[0] as Record<string, unknown>)
+  })
+}
+
+/** Notifications still to be pushed out, oldest first */
+export async function listUndeliveredNotifications (maxAttempts: number, limit: number): Promise<Notification[]> {
+  const rows = await sql`
+    SELECT *
+    FROM notifications
+    WHERE delivered_at IS NULL AND delivery_attempts < ${maxAttempts}
+    ORDER BY created_at ASC
+    LIMIT ${limit}
+  `
+  return rows.map((row) => mapRowToNotification(row as Record<string, unknown>))
+}
+
+export async function markNotificationDelivery (id: string, error: string | null): Promise<void> {
+  if (!isUuid(id)) return
+
+  await sql`
+    UPDATE notifications
+    SET
+      delivery_attempts = delivery_attempts + 1,
+      delivered_at = ${error == null ? sql`NOW()` : sql`NULL`},
+      last_delivery_error = ${error}
+    WHERE id = ${id}
+  `
+}
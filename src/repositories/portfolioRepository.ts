@@ -0,0 +1,117 @@
+import sql from '../config/database.js'
+import { DEFAULT_PORTFOLIO_NAME, mapRowToPortfolio, type Portfolio } from '../models/portfolio.js'
+import { isUuid } from '../utils/validation.js'
+
+export async function listPortfolios (uid: string): Promise<Portfolio[]> {
+  const rows = await sql`
+    SELECT *
+    FROM portfolios
+    WHERE uid = ${uid}
+    ORDER BY is_default DESC, created_at ASC
+  `
+  return rows.map((row) => mapRowToPortfolio(row as Record<string, unknown>))
+}
+
+export async function listPortfoliosForUsers (uids: string[]): Promise<Portfolio[]> {
+  if (uids.length === 0) return []
+
+  const rows = await sql`
+    SELECT *
+    FROM portfolios
+    WHERE uid = ANY(${uids})
+    ORDER BY uid, is_default DESC, created_at ASC
+  `
+  return rows.map((row) => mapRowToPortfolio(row as Record<string, unknown>))
+}
+
+export async function getPortfolio (uid: string, id: string): Promise<Portfolio | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    SELECT *
+    FROM portfolios
+    WHERE id = ${id} AND uid = ${uid}
+  `
+  if (rows.length === 0) return null
+  return mapRowToPortfolio(rows[0] as Record<string, unknown>)
+}
+
+/** Create the default portfolio for every given user that has a profile but no default yet */
+export async function ensureDefaultPortfolios (uids: string[]): Promise<void> {
+  if (uids.length === 0) return
+
+  await sql`
+    INSERT INTO portfolios (uid, name, is_default)
+    SELECT p.uid, ${DEFAULT_PORTFOLIO_NAME}, TRUE
+    FROM user_profiles p
+    WHERE p.uid = ANY(${uids})
+    ON CONFLICT DO NOTHING
+  `
+}
+
+/** The user's default portfolio, created on first use; null when the user has no profile */
+export async function ensureDefaultPortfolio (uid: string): Promise<Portfolio | null> {
+  await ensureDefaultPortfolios([uid])
+
+  const rows = await sql`
+    SELECT *
+    FROM portfolios
+    WHERE uid = ${uid}
+    ORDER BY is_default DESC, created_at ASC
+    LIMIT 1
+  `
+  if (rows.length === 0) return null
+  return mapRowToPortfolio(rows[0] as Record<string, unknown>)
+}
+
+/**
+ * Portfolio id a request refers to: the requested one when the user owns it,
+ * the default portfolio when none was requested. The error is a not-found
+ * message for the portfolio, or for the profile when there is no default
+ * portfolio because the user has no profile.
+ */
+export async function resolvePortfolioId (uid: string, requested: unknown): Promise<{ portfolioId: string } | { error: string }> {
+  if (requested === undefined || requested === null || requested === '') {
+    const portfolio = await ensureDefaultPortfolio(uid)
+    return portfolio ? { portfolioId: portfolio.id } : { error: 'Profile not found' }
+  }
+  const portfolio = await getPortfolio(uid, String(requested))
+  return portfolio ? { portfolioId: portfolio.id } : { error: 'Portfolio not found' }
+}
+
+export async function createPortfolio (uid: string, name: string): Promise<Portfolio> {
+  const rows = await sql`
+    INSERT INTO portfolios (uid, name, is_default)
+    VALUES (
+      ${uid},
+      ${name},
+      NOT EXISTS (SELECT 1 FROM portfolios WHERE uid = ${uid})
+    )
+    RETURNING *
+  `
+  return mapRowToPortfolio(rows[0] as Record<string, unknown>)
+}
+
+export async function renamePortfolio (uid: string, id: string, name: string): Promise<Portfolio | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    UPDATE portfolios
+    SET name = ${name}, updated_at = NOW()
+    WHERE id = ${id} AND uid = ${uid}
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+  return mapRowToPortfolio(rows[0] as Record<string, unknown>)
+}
+
+/** Deletes a portfolio with its lots, transactions and resumes (ON DELETE CASCADE) */
+export async function deletePortfolio (uid: string, id: string): Promise<boolean> {
+  if (!isUuid(id)) return false
+
+  const result = await sql`
+    DELETE FROM portfolios
+    WHERE id = ${id} AND uid = ${uid}
+  `
+  return result.count > 0
+}
@@ -0,0 +1,84 @@
+import sql from '../config/database.js'
+import {
+  mapRowToPortfolioTransaction,
+  type PortfolioTransaction,
+  type PortfolioTransactionPayload
+} from '../models/portfolioTransaction.js'
+import { isUuid } from '../utils/validation.js'
+
+export async function listTransactionsForUser (
+  uid: string,
+  filters: { symbol?: string; portfolioId?: string } = {}
+): Promise<PortfolioTransaction[]> {
+  const { symbol, portfolioId } = filters
+  const rows = await sql`
+    SELECT *
+    FROM portfolio_transactions
+    WHERE uid = ${uid}
+      ${symbol ? sql`AND symbol = ${symbol}` : sql``}
+      ${portfolioId ? sql`AND portfolio_id = ${portfolioId}` : sql``}
+    ORDER BY trade_date DESC, created_at DESC
+  `
+  return rows.map((row) => mapRowToPortfolioTransaction(row as Record<string, unknown>))
+}
+
+export async function listTransactionsForUsers (uids: string[]): Promise<PortfolioTransaction[]> {
+  if (uids.length === 0) return []
+
+  const rows = await sql`
+    SELECT *
+    FROM portfolio_transactions
+    WHERE uid = ANY(${uids})
+    ORDER BY trade_date ASC, created_at ASC
+  `
+  return rows.map((row) => mapRowToPortfolioTransaction(row as Record<string, unknown>))
+}
+
+export async function insertTransaction (
+  uid: string,
+  data: PortfolioTransactionPayload
+): Promise<PortfolioTransaction> {
+  const rows = await sql`
+    INSERT INTO portfolio_transactions (uid, portfolio_id, symbol, type, trade_date, quantity, price, amount, fee, split_ratio, note)
+    VALUES (
+      ${uid},
+      ${data.portfolioId},
+      ${data.symbol},
+      ${data.type},
+      ${data.tradeDate}::date,
+      ${data.quantity},
+      ${data.price},
+      ${data.amount},
+      ${data.fee},
+      ${data.splitRatio},
+      ${data.note}
+    )
+    RETURNING *
+  `
+  return mapRowToPortfolioTransaction(rows[0] as Record<string, unknown>)
+}
+
+export async function getTransaction (uid: string, id: string): Promise<PortfolioTransaction | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    SELECT *
+    FROM portfolio_transactions
+    WHERE id = ${id} AND uid = ${uid}
+  `
+  if (rows.length === 0) return null
+  return mapRowToPortfolioTransaction(rows[0] as Record<string, unknown>)
+}
+
+/** Deletes a user's transaction and returns it, or null when it doesn't exist */
+export async function deleteTransaction (uid: string, id: string): Promise<PortfolioTransaction | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    DELETE FROM portfolio_transactions
+    WHERE id = ${id} AND uid = ${uid}
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+  return mapRowToPortfolioTransaction(rows[0] as Record<string, unknown>)
+}
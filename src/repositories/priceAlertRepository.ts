@@ -0,0 +1,64 @@
+import sql from '../config/database.js'
+import {
+  mapRowToPriceAlert,
+  type PriceAlert,
+  type PriceAlertPayload
+} from '../models/priceAlert.js'
+import { isUuid } from '../utils/validation.js'
+
+export async function listAlertsForUser (uid: string): Promise<PriceAlert[]> {
+  const rows = await sql`
+    SELECT *
+    FROM price_alerts
+    WHERE uid = ${uid}
+    ORDER BY created_at DESC
+  `
+  return rows.map((row) => mapRowToPriceAlert(row as Record<string, unknown>))
+}
+
+/** Every armed alert, for the evaluator */
+export async function listActiveAlerts (): Promise<PriceAlert[]> {
+  const rows = await sql`
+    SELECT *
+    FROM price_alerts
+    WHERE is_active
+    ORDER BY uid, created_at
+  `
+  return rows.map((row) => mapRowToPriceAlert(row as Record<string, unknown>))
+}
+
+export async function insertAlert (uid: string, data: PriceAlertPayload): Promise<PriceAlert> {
+  const rows = await sql`
+    INSERT INTO price_alerts (uid, symbol, portfolio_id, condition, threshold, note)
+    VALUES (${uid}, ${data.symbol}, ${data.portfolioId}, ${data.condition}, ${data.threshold}, ${data.note})
+    RETURNING *
+  `
+  return mapRowToPriceAlert(rows[0] as Record<string, unknown>)
+}
+
+export async function updateAlert (
+  uid: string,
+  id: string,
+  updates: Partial<{ threshold: number; note: string | null; is_active: boolean }>
+): Promise<PriceAlert | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    UPDATE price_alerts
+    SET ${sql(updates)}, updated_at = NOW()
+    WHERE id = ${id} AND uid = ${uid}
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+  return mapRowToPriceAlert(rows[0] as Record<string, unknown>)
+}
+
+export async function deleteAlert (uid: string, id: string): Promise<boolean> {
+  if (!isUuid(id)) return false
+
+  const result = await sql`
+    DELETE FROM price_alerts
+    WHERE id = ${id} AND uid = ${uid}
+  `
+  return result.count > 0
+}
@@ -0,0 +1,95 @@
+import sql from '../config/database.js'
+import { mapRowToSymbolInfo, type SymbolInfo } from '../models/symbol.js'
+import type { SymbolProfile } from '../utils/yahooRetry.js'
+
+/** Cached metadata keyed by symbol; symbols that were never resolved are absent */
+export async function getSymbols (symbols: string[]): Promise<Map<string, SymbolInfo>> {
+  const bySymbol = new Map<string, SymbolInfo>()
+  if (symbols.length === 0) return bySymbol
+
+  const rows = await sql`
+    SELECT *
+    FROM symbols
+    WHERE symbol = ANY(${symbols})
+  `
+  for (const row of rows) {
+    const info = mapRowToSymbolInfo(row as Record<string, unknown>)
+    bySymbol.set(info.symbol, info)
+  }
+  return bySymbol
+}
+
+export async function upsertSymbols (
+  infos: Array<Pick<SymbolInfo, 'symbol' | 'name' | 'exchange' | 'currency' | 'quoteType'>>
+): Promise<void> {
+  if (infos.length === 0) return
+
+  for (const info of infos) {
+    await sql`
+      INSERT INTO symbols (symbol, name, exchange, currency, quote_type)
+      VALUES (${info.symbol}, ${info.name}, ${info.exchange}, ${info.currency}, ${info.quoteType})
+      ON CONFLICT (symbol) DO UPDATE SET
+        name = EXCLUDED.name,
+        exchange = EXCLUDED.exchange,
+        currency = EXCLUDED.currency,
+        quote_type = EXCLUDED.quote_type,
+        updated_at = NOW()
+    `
+  }
+}
+
+/** Store quoteSummary profile data; creates the row for symbols not cached yet */
+export async function updateSymbolProfile (symbol: string, profile: SymbolProfile): Promise<void> {
+  await sql`
+    INSERT INTO symbols (symbol, quote_type, sector, industry, country, profile_updated_at)
+    VALUES (${symbol}, ${profile.quoteType}, ${profile.sector}, ${profile.industry}, ${profile.country}, NOW())
+    ON CONFLICT (symbol) DO UPDATE SET
+      quote_type = COALESCE(EXCLUDED.quote_type, symbols.quote_type),
+      sector = EXCLUDED.sector,
+      industry = EXCLUDED.industry,
+      country = EXCLUDED.country,
+      profile_updated_at = NOW()
+  `
+}
+
+/** Symbols whose profile was never fetched or is older than `maxAgeMs` */
+export async function listSymbolsWithStaleProfile (symbols: string[], maxAgeMs: number): Promise<string[]> {
+  if (symbols.length === 0) return []
+
+  const cutoff = new Date(Date.now() - maxAgeMs)
+  const rows = await sql`
+    SELECT symbol
+    FROM symbols
+    WHERE symbol = ANY(${symbols})
+      AND profile_updated_at IS NOT NULL
+      AND profile_updated_at >= ${cutoff}
+  ` as unknown as Array<{ symbol: string }>
+
+  const fresh = new Set(rows.map((r) => r.symbol))
+  return symbols.filter((s) => !fresh.has(s))
+}
+
+/** Every symbol some user holds, has traded or watches, sorted */
+export async function listTrackedSymbols (): Promise<string[]> {
+  const rows = await sql`
+    SELECT symbol FROM user_stocks
+    UNION
+    SELECT symbol FROM portfolio_transactions WHERE symbol IS NOT NULL
+    UNION
+    SELECT symbol FROM watchlist_items
+    ORDER BY symbol
+  ` as unknown as Array<{ symbol: string }>
+
+  return rows.map((r) => r.symbol)
+}
+
+/** Users with lots or transactions in the symbol */
+export async function listUidsWithSymbol (symbol: string): Promise<string[]> {
+  const rows = await sql`
+    SELECT uid FROM user_stocks WHERE symbol = ${symbol}
+    UNION
+    SELECT uid FROM portfolio_transactions WHERE symbol = ${symbol}
+  ` as unknown as Array<{ uid: string }>
+
+  return rows.map((r) => r.uid)
+}
@@ -2,67 +2,57 @@ import sql from '../config/database.js'
 import type { UserDailyStockResumePayload } from '../models/userDailyStockResume.js'
 import { mapRowToUserDailyStockResume, type UserDailyStockResume } from '../models/userDailyStockResume.js'
 
-let isUserDailyStockResumeTableInitialized = false
-
-export async function ensureUserDailyStockResumeTable (): Promise<void> {
-  if (isUserDailyStockResumeTableInitialized) return
-
-  await sql`CREATE EXTENSION IF NOT EXISTS pgcrypto`
-
-  await sql`
-    CREATE TABLE IF NOT EXISTS user_daily_stock_resume (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      uid TEXT NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
-      resume_date DATE NOT NULL,
-      total_invested NUMERIC(18, 4) NOT NULL DEFAULT 0,
-      total_value NUMERIC(18, 4) NOT NULL DEFAULT 0,
-      total_pnl_value NUMERIC(18, 4) NOT NULL DEFAULT 0,
-      total_pnl_percent NUMERIC(10, 4) NOT NULL DEFAULT 0,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      UNIQUE (uid, resume_date)
-    )
-  `
-
-  await sql`
-    CREATE INDEX IF NOT EXISTS idx_user_daily_stock_resume_uid_date
-    ON user_daily_stock_resume (uid, resume_date DESC)
-  `
-
-  isUserDailyStockResumeTableInitialized = true
-}
-
 export async function upsertUserDailyStockResume (
   uid: string,
   resumeDate: string,
-  data: Omit<UserDailyStockResumePayload, 'uid' | 'resumeDate'>
+  data: Omit<UserDailyStockResumePayload, 'uid' | 'resumeDate'>,
+  portfolioId: string | null = null
 ): Promise<UserDailyStockResume> {
   const rows = await sql`
-    INSERT INTO user_daily_stock_resume (uid, resume_date, total_invested, total_value, total_pnl_value, total_pnl_percent)
+    INSERT INTO user_daily_stock_resume (
+      uid, portfolio_id, resume_date, total_invested, total_value, total_pnl_value, total_pnl_percent,
+      total_realized_pnl, total_unrealized_pnl, currency, pricing_quality, total_dividends, dividend_income
+    )
     VALUES (
       ${uid},
+      ${portfolioId},
       ${resumeDate}::date,
       ${data.totalInvested},
       ${data.totalValue},
       ${data.totalPnlValue},
-      ${data.totalPnlPercent}
+      ${data.totalPnlPercent},
+      ${data.totalRealizedPnl},
+      ${data.totalUnrealizedPnl},
+      ${data.currency},
+      ${sql.json(data.pricingQuality as unknown as Parameters<typeof sql.json>[0])},
+      ${data.totalDividends},
+      ${sql.json(data.dividendIncome as unknown as Parameters<typeof sql.json>[0])}
     )
-    ON CONFLICT (uid, resume_date) DO UPDATE SET
+    ON CONFLICT (uid, portfolio_id, resume_date) DO UPDATE SET
       total_invested = EXCLUDED.total_invested,
       total_value = EXCLUDED.total_value,
       total_pnl_value = EXCLUDED.total_pnl_value,
       total_pnl_percent = EXCLUDED.total_pnl_percent,
+      total_realized_pnl = EXCLUDED.total_realized_pnl,
+      total_unrealized_pnl = EXCLUDED.total_unrealized_pnl,
+      currency = EXCLUDED.currency,
+      pricing_quality = EXCLUDED.pricing_quality,
+      total_dividends = EXCLUDED.total_dividends,
+      dividend_income = EXCLUDED.dividend_income,
       updated_at = NOW()
     RETURNING *
   `
   return mapRowToUserDailyStockResume(rows[0] as Record<string, unknown>)
 }
 
-export async function getLatestResumeForUser (uid: string): Promise<UserDailyStockResume | null> {
+export async function getLatestResumeForUser (
+  uid: string,
+  portfolioId: string | null = null
+): Promise<UserDailyStockResume | null> {
   const rows = await sql`
     SELECT *
     FROM user_daily_stock_resume
-    WHERE uid = ${uid}
+    WHERE uid = ${uid} AND portfolio_id IS NOT DISTINCT FROM ${portfolioId}
     ORDER BY resume_date DESC
     LIMIT 1
   `
@@ -70,24 +60,105 @@ export async function getLatestResumeForUser (uid: string): Promise<UserDailySto
   return mapRowToUserDailyStockResume(rows[0] as Record<string, unknown>)
 }
 
-export async function getResumeForUserOnDate (uid: string, resumeDate: string): Promise<UserDailyStockResume | null> {
+export async function getResumeForUserOnDate (
+  uid: string,
+  resumeDate: string,
+  portfolioId: string | null = null
+): Promise<UserDailyStockResume | null> {
   const rows = await sql`
     SELECT *
     FROM user_daily_stock_resume
-    WHERE uid = ${uid} AND resume_date = ${resumeDate}::date
+    WHERE uid = ${uid}
+      AND portfolio_id IS NOT DISTINCT FROM ${portfolioId}
+      AND resume_date = ${resumeDate}::date
   `
   if (rows.length === 0) return null
   return mapRowToUserDailyStockResume(rows[0] as Record<string, unknown>)
 }
 
-export async function getPreviousResumeForUser (uid: string, beforeDate: string): Promise<UserDailyStockResume | null> {
+export async function getPreviousResumeForUser (
+  uid: string,
+  beforeDate: string,
+  portfolioId: string | null = null
+): Promise<UserDailyStockResume | null> {
   const rows = await sql`
     SELECT *
     FROM user_daily_stock_resume
-    WHERE uid = ${uid} AND resume_date < ${beforeDate}::date
+    WHERE uid = ${uid}
+      AND portfolio_id IS NOT DISTINCT FROM ${portfolioId}
+      AND resume_date < ${beforeDate}::date
     ORDER BY resume_date DESC
     LIMIT 1
   `
   if (rows.length === 0) return null
   return mapRowToUserDailyStockResume(rows[0] as Record<string, unknown>)
 }
+
+/** Stored resumes with `from <= resume_date <= to`, oldest first */
+export async function getResumesForUserInRange (
+  uid: string,
+  fromDate: string,
+  toDate: string,
+  portfolioId: string | null = null
+): Promise<UserDailyStockResume[]> {
+  const rows = await sql`
+    SELECT *
+    FROM user_daily_stock_resume
+    WHERE uid = ${uid}
+      AND portfolio_id IS NOT DISTINCT FROM ${portfolioId}
+      AND resume_date BETWEEN ${fromDate}::date AND ${toDate}::date
+    ORDER BY resume_date ASC
+  `
+  return rows.map((row) => mapRowToUserDailyStockResume(row as Record<string, unknown>))
+}
+
+/** Every stored resume of the user (all portfolios and the aggregate), oldest first */
+export async function listResumesForUser (uid: string): Promise<UserDailyStockResume[]> {
+  const rows = await sql`
+    SELECT *
+    FROM user_daily_stock_resume
+    WHERE uid = ${uid}
+    ORDER BY portfolio_id ASC NULLS FIRST, resume_date ASC
+  `
+  return rows.map((row) => mapRowToUserDailyStockResume(row as Record<string, unknown>))
+}
+
+/** Same rows as getResumesForUserInRange, read through a cursor in batches */
+export async function * streamResumesForUserInRange (
+  uid: string,
+  fromDate: string,
+  toDate: string,
+  portfolioId: string | null = null,
+  batchSize = 500
+): AsyncGenerator<UserDailyStockResume[]> {
+  const cursor = sql`
+    SELECT *
+    FROM user_daily_stock_resume
+    WHERE uid = ${uid}
+      AND portfolio_id IS NOT DISTINCT FROM ${portfolioId}
+      AND resume_date BETWEEN ${fromDate}::date AND ${toDate}::date
+    ORDER BY resume_date ASC
+  `.cursor(batchSize)
+
+  for await (const rows of cursor) {
+    yield rows.map((row) => mapRowToUserDailyStockResume(row as Record<string, unknown>))
+  }
+}
+
+/**
+ * Drop stored resumes from `fromDate` onwards so they get recomputed, for every
+ * portfolio of the user and the aggregate.
+ * A null date invalidates the user's whole history.
+ */
+export async function deleteResumesForUserFromDate (uid: string, fromDate: string | null): Promise<number> {
+  const result = fromDate
+    ? await sql`
+        DELETE FROM user_daily_stock_resume
+        WHERE uid = ${uid} AND resume_date >= ${fromDate}::date
+      `
+    : await sql`
+        DELETE FROM user_daily_stock_resume
+        WHERE uid = ${uid}
+      `
+  return result.count
+}
@@ -0,0 +1,77 @@
+import sql from '../config/database.js'
+import {
+  COST_BASIS_METHODS,
+  DEFAULT_BASE_CURRENCY,
+  type CostBasisMethod,
+  type UserProfile
+} from '../models/user.js'
+
+/** Per-user settings that drive portfolio valuation */
+export interface PortfolioSettings {
+  costBasisMethod: CostBasisMethod
+  baseCurrency: string
+}
+
+export function mapRowToUserProfile (row: any): UserProfile {
+  return {
+    uid: row.uid,
+    email: row.email,
+    displayName: row?.display_name,
+    costBasisMethod: row.cost_basis_method ?? 'FIFO',
+    baseCurrency: row.base_currency ?? DEFAULT_BASE_CURRENCY,
+    benchmarkSymbols: row.benchmark_symbols ?? [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export function isCostBasisMethod (value: unknown): value is CostBasisMethod {
+  return typeof value === 'string' && (COST_BASIS_METHODS as readonly string[]).includes(value)
+}
+
+export async function listUserIds (): Promise<string[]> {
+  const rows = await sql`SELECT uid FROM user_profiles` as unknown as Array<{ uid: string }>
+  return rows.map((r) => r.uid)
+}
+
+export async function getUserProfile (uid: string): Promise<UserProfile | null> {
+  const rows = await sql`
+    SELECT *
+    FROM user_profiles
+    WHERE uid = ${uid}
+  `
+  return rows.length > 0 ? mapRowToUserProfile(rows[0]) : null
+}
+
+export async function getBenchmarkSymbols (uid: string): Promise<string[]> {
+  const rows = await sql`
+    SELECT benchmark_symbols
+    FROM user_profiles
+    WHERE uid = ${uid}
+  `
+  return (rows[0]?.benchmark_symbols as string[] | undefined) ?? []
+}
+
+/** Valuation settings per user; users without a profile row get the defaults */
+export async function getPortfolioSettings (uids: string[]): Promise<Map<string, PortfolioSettings>> {
+  const settings = new Map<string, PortfolioSettings>()
+  if (uids.length === 0) return settings
+
+  const rows = await sql`
+    SELECT uid, cost_basis_method, base_currency
+    FROM user_profiles
+    WHERE uid = ANY(${uids})
+  ` as unknown as Array<{ uid: string; cost_basis_method: string; base_currency: string | null }>
+
+  for (const uid of uids) {
+    settings.set(uid, { costBasisMethod: 'FIFO', baseCurrency: DEFAULT_BASE_CURRENCY })
+  }
+  for (const row of rows) {
+    settings.set(row.uid, {
+      costBasisMethod: isCostBasisMethod(row.cost_basis_method) ? row.cost_basis_method : 'FIFO',
+      baseCurrency: row.base_currency ?? DEFAULT_BASE_CURRENCY
+    })
+  }
+
+  return settings
+}
@@ -0,0 +1,98 @@
+import sql from '../config/database.js'
+import UserStock from '../models/userStocks.js'
+import type { PortfolioTransactionPayload } from '../models/portfolioTransaction.js'
+import { transaction } from '../utils/db.js'
+
+// NUMERIC columns come back as strings from postgres.js
+export function mapRowToUserStock (row: any): UserStock {
+  return {
+    id: row.id,
+    uid: row.uid,
+    portfolioId: row.portfolio_id ?? null,
+    symbol: row.symbol,
+    quantity: Number(row.quantity),
+    purchasePrice: row.purchase_price != null ? Number(row.purchase_price) : null,
+    purchaseDate: row.purchase_date ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export async function listLots (uid: string, portfolioId: string): Promise<UserStock[]> {
+  const rows = await sql`
+    SELECT *
+    FROM user_stocks
+    WHERE uid = ${uid} AND portfolio_id = ${portfolioId}
+    ORDER BY purchase_date ASC NULLS FIRST, created_at ASC
+  `
+  return rows.map(mapRowToUserStock)
+}
+
+/** A user's lots (of one portfolio, or all with null), read through a cursor in batches */
+export async function * streamLots (
+  uid: string,
+  portfolioId: string | null,
+  batchSize = 500
+): AsyncGenerator<UserStock[]> {
+  const cursor = sql`
+    SELECT *
+    FROM user_stocks
+    WHERE uid = ${uid}
+      ${portfolioId ? sql`AND portfolio_id = ${portfolioId}` : sql``}
+    ORDER BY symbol ASC, purchase_date ASC NULLS FIRST, created_at ASC
+  `.cursor(batchSize)
+
+  for await (const rows of cursor) {
+    yield rows.map(mapRowToUserStock)
+  }
+}
+
+export interface ImportedLot {
+  symbol: string
+  quantity: number
+  purchasePrice: number
+  purchaseDate: string
+}
+
+/** Insert imported lots and transactions into one portfolio, all or nothing */
+export async function insertImportedHoldings (
+  uid: string,
+  portfolioId: string,
+  lots: ImportedLot[],
+  transactions: PortfolioTransactionPayload[]
+): Promise<{ lots: number; transactions: number }> {
+  return await transaction(async (txSql) => {
+    if (lots.length > 0) {
+      await txSql`
+        INSERT INTO user_stocks ${txSql(lots.map((lot) => ({
+          uid,
+          portfolio_id: portfolioId,
+          symbol: lot.symbol,
+          quantity: lot.quantity,
+          purchase_price: lot.purchasePrice,
+          purchase_date: lot.purchaseDate
+        })))}
+      `
+    }
+
+    if (transactions.length > 0) {
+      await txSql`
+        INSERT INTO portfolio_transactions ${txSql(transactions.map((tx) => ({
+          uid,
+          portfolio_id: tx.portfolioId,
+          symbol: tx.symbol,
+          type: tx.type,
+          trade_date: tx.tradeDate,
+          quantity: tx.quantity,
+          price: tx.price,
+          amount: tx.amount,
+          fee: tx.fee,
+          split_ratio: tx.splitRatio,
+          note: tx.note
+        })))}
+      `
+    }
+
+    return { lots: lots.length, transactions: transactions.length }
+  })
+}
@@ -0,0 +1,183 @@
+import sql from '../config/database.js'
+import {
+  mapRowToWatchlist,
+  mapRowToWatchlistItem,
+  type Watchlist,
+  type WatchlistItem,
+  type WatchlistWithItems
+} from '../models/watchlist.js'
+import { transaction } from '../utils/db.js'
+import { isUuid } from '../utils/validation.js'
+
+async function listItems (watchlistIds: string[]): Promise<Map<string, WatchlistItem[]>> {
+  const byWatchlist = new Map<string, WatchlistItem[]>()
+  for (const id of watchlistIds) byWatchlist.set(id, [])
+  if (watchlistIds.length === 0) return byWatchlist
+
+  const rows = await sql`
+    SELECT *
+    FROM watchlist_items
+    WHERE watchlist_id = ANY(${watchlistIds})
+    ORDER BY watchlist_id, position ASC
+  `
+  for (const row of rows) {
+    const item = mapRowToWatchlistItem(row as Record<string, unknown>)
+    byWatchlist.get(item.watchlistId)?.push(item)
+  }
+  return byWatchlist
+}
+
+export async function listWatchlists (uid: string): Promise<WatchlistWithItems[]> {
+  const rows = await sql`
+    SELECT *
+    FROM watchlists
+    WHERE uid = ${uid}
+    ORDER BY created_at ASC
+  `
+  const watchlists = rows.map((row) => mapRowToWatchlist(row as Record<string, unknown>))
+  const items = await listItems(watchlists.map((w) => w.id))
+  return watchlists.map((w) => ({ ...w, items: items.get(w.id) ?? [] }))
+}
+
+export async function getWatchlist (uid: string, id: string): Promise<WatchlistWithItems | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    SELECT *
+    FROM watchlists
+    WHERE id = ${id} AND uid = ${uid}
+  `
+  if (rows.length === 0) return null
+
+  const watchlist = mapRowToWatchlist(rows[0] as Record<string, unknown>)
+  const items = await listItems([watchlist.id])
+  return { ...watchlist, items: items.get(watchlist.id) ?? [] }
+}
+
+/** Create a watchlist with its initial symbols in the given order */
+export async function createWatchlist (uid: string, name: string, symbols: string[]): Promise<WatchlistWithItems> {
+  const id = await transaction(async (txSql) => {
+    const rows = await txSql`
+      INSERT INTO watchlists (uid, name)
+      VALUES (${uid}, ${name})
+      RETURNING id
+    `
+    const watchlistId = rows[0].id as string
+    for (const [position, symbol] of symbols.entries()) {
+      await txSql`
+        INSERT INTO watchlist_items (watchlist_id, symbol, position)
+        VALUES (${watchlistId}, ${symbol}, ${position})
+      `
+    }
+    return watchlistId
+  })
+
+  return (await getWatchlist(uid, id))!
+}
+
+export async function renameWatchlist (uid: string, id: string, name: string): Promise<Watchlist | null> {
+  if (!isUuid(id)) return null
+
+  const rows = await sql`
+    UPDATE watchlists
+    SET name = ${name}, updated_at = NOW()
+    WHERE id = ${id} AND uid = ${uid}
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+  return mapRowToWatchlist(rows[0] as Record<string, unknown>)
+}
+
+export async function deleteWatchlist (uid: string, id: string): Promise<boolean> {
+  if (!isUuid(id)) return false
+
+  const result = await sql`
+    DELETE FROM watchlists
+    WHERE id = ${id} AND uid = ${uid}
+  `
+  return result.count > 0
+}
+
+/** Append a symbol at the end of the watchlist; the caller checks ownership */
+export async function addWatchlistItem (
+  watchlistId: string,
+  data: { symbol: string; targetPrice: number | null; note: string | null }
+): Promise<WatchlistItem> {
+  const rows = await sql`
+    INSERT INTO watchlist_items (watchlist_id, symbol, position, target_price, note)
+    VALUES (
+      ${watchlistId},
+      ${data.symbol},
+      (SELECT COALESCE(MAX(position) + 1, 0) FROM watchlist_items WHERE watchlist_id = ${watchlistId}),
+      ${data.targetPrice},
+      ${data.note}
+    )
+    RETURNING *
+  `
+  return mapRowToWatchlistItem(rows[0] as Record<string, unknown>)
+}
+
+export async function updateWatchlistItem (
+  watchlistId: string,
+  itemId: string,
+  updates: Partial<{ target_price: number | null; note: string | null }>
+): Promise<WatchlistItem | null> {
+  if (!isUuid(itemId)) return null
+
+  const rows = await sql`
+    UPDATE watchlist_items
+    SET ${sql(updates)}, updated_at = NOW()
+    WHERE id = ${itemId} AND watchlist_id = ${watchlistId}
+    RETURNING *
+  `
+  if (rows.length === 0) return null
+  return mapRowToWatchlistItem(rows[0] as Record<string, unknown>)
+}
+
+/** Remove an item and close the gap it leaves in the order */
+export async function removeWatchlistItem (watchlistId: string, itemId: string): Promise<boolean> {
+  if (!isUuid(itemId)) return false
+
+  return await transaction(async (txSql) => {
+    const rows = await txSql`
+      DELETE FROM watchlist_items
+      WHERE id = ${itemId} AND watchlist_id = ${watchlistId}
+      RETURNING position
+    `
+    if (rows.length === 0) return false
+
+    await txSql`
+      UPDATE watchlist_items
+      SET position = position - 1
+      WHERE watchlist_id = ${watchlistId} AND position > ${rows[0].position}
+    `
+    return true
+  })
+}
+
+/**
+ * Reorder a watchlist. `itemIds` must list every item of the watchlist
+ * exactly once; returns false otherwise.
+ */
+export async function reorderWatchlistItems (watchlistId: string, itemIds: string[]): Promise<boolean> {
+  return await transaction(async (txSql) => {
+    const rows = await txSql`
+      SELECT id
+      FROM watchlist_items
+      WHERE watchlist_id = ${watchlistId}
+      FOR UPDATE
+    `
+    const existing = new Set(rows.map((r) => r.id as string))
+    if (existing.size !== itemIds.length || new Set(itemIds).size !== itemIds.length) return false
+    if (itemIds.some((id) => !existing.has(id))) return false
+
+    for (const [position, id] of itemIds.entries()) {
+      await txSql`
+        UPDATE watchlist_items
+        SET position = ${position}, updated_at = NOW()
+        WHERE id = ${id}
+      `
+    }
+    return true
+  })
+}
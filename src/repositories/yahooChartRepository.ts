@@ -1,10 +1,14 @@
 import sql from '../config/database.js'
+import type { ChartQuote } from '../utils/yahooRetry.js'
 
 export interface YahooChartSeries {
   symbol: string
   interval: string
   oldestDate: Date | null
   newestDate: Date | null
+  oldestAt: Date | null
+  newestAt: Date | null
+  currency: string | null
   updatedAt: Date
 }
 
@@ -12,55 +16,31 @@ export interface YahooChartPoint {
   symbol: string
   interval: string
   tradeDate: Date
+  open: number | null
+  high: number | null
+  low: number | null
   close: number | null
+  volume: number | null
+  adjClose: number | null
 }
 
-let isYahooChartTablesInitialized = false
-
-export async function ensureYahooChartTables (): Promise<void> {
-  if (isYahooChartTablesInitialized) return
-
-  await sql`
-    CREATE TABLE IF NOT EXISTS yahoo_chart_series (
-      symbol TEXT NOT NULL,
-      interval TEXT NOT NULL,
-      oldest_date DATE,
-      newest_date DATE,
-      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      PRIMARY KEY (symbol, interval)
-    )
-  `
-
-  await sql`
-    CREATE TABLE IF NOT EXISTS yahoo_chart_points (
-      symbol TEXT NOT NULL,
-      interval TEXT NOT NULL,
-      trade_date DATE NOT NULL,
-      close NUMERIC(18, 4),
-      PRIMARY KEY (symbol, interval, trade_date),
-      FOREIGN KEY (symbol, interval) REFERENCES yahoo_chart_series(symbol, interval) ON DELETE CASCADE
-    )
-  `
-
-  await sql`
-    CREATE INDEX IF NOT EXISTS idx_yahoo_chart_points_symbol_interval_date
-    ON yahoo_chart_points (symbol, interval, trade_date DESC)
-  `
+function toNullableNumber (value: unknown): number | null {
+  if (value == null) return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
 
-  await sql`
-    CREATE INDEX IF NOT EXISTS idx_yahoo_chart_series_symbol_interval
-    ON yahoo_chart_series (symbol, interval)
-  `
+/** Intervals stored per bar timestamp in yahoo_chart_intraday_points */
+export const INTRADAY_INTERVALS = ['5m', '15m', '30m', '60m', '1h'] as const
 
-  isYahooChartTablesInitialized = true
+export function isIntradayInterval (interval: string): boolean {
+  return (INTRADAY_INTERVALS as readonly string[]).includes(interval)
 }
 
 export async function getStoredRange (
   symbol: string,
   interval: string
 ): Promise<{ oldestDate: Date | null; newestDate: Date | null } | null> {
-  await ensureYahooChartTables()
-
   const rows = await sql`
     SELECT oldest_date, newest_date
     FROM yahoo_chart_series
@@ -81,34 +61,36 @@ export async function getPoints (
   interval: string,
   period1: Date,
   period2: Date
-): Promise<Array<{ date: Date; close: number | null }>> {
-  await ensureYahooChartTables()
-
+): Promise<ChartQuote[]> {
   const rows = await sql`
-    SELECT trade_date, close
+    SELECT trade_date, open, high, low, close, volume, adj_close
     FROM yahoo_chart_points
     WHERE symbol = ${symbol}
       AND interval = ${interval}
       AND trade_date >= ${period1}::date
       AND trade_date <= ${period2}::date
     ORDER BY trade_date ASC
-  ` as unknown as Array<{ trade_date: Date; close: number | null }>
+  ` as unknown as Array<Record<string, unknown> & { trade_date: Date }>
 
+  // NUMERIC and BIGINT columns come back as strings from postgres.js
   return rows.map((row) => ({
     date: row.trade_date,
-    close: row.close
+    open: toNullableNumber(row.open),
+    high: toNullableNumber(row.high),
+    low: toNullableNumber(row.low),
+    close: toNullableNumber(row.close),
+    volume: toNullableNumber(row.volume),
+    adjclose: toNullableNumber(row.adj_close)
   }))
 }
 
 export async function insertPoints (
   symbol: string,
   interval: string,
-  points: Array<{ date: Date; close: number | null }>
+  points: ChartQuote[]
 ): Promise<void> {
   if (points.length === 0) return
 
-  await ensureYahooChartTables()
-
   // Ensure series exists first
   await sql`
     INSERT INTO yahoo_chart_series (symbol, interval, oldest_date, newest_date)
@@ -121,11 +103,27 @@ export async function insertPoints (
     const d = point.date instanceof Date ? point.date : new Date(point.date as unknown as string | number)
     if (Number.isNaN(d.getTime())) continue
     const dateStr = d.toISOString().slice(0, 10) // YYYY-MM-DD
+    const volume = point.volume != null ? Math.round(point.volume) : null
     await sql`
-      INSERT INTO yahoo_chart_points (symbol, interval, trade_date, close)
-      VALUES (${symbol}, ${interval}, ${dateStr}::date, ${point.close})
+      INSERT INTO yahoo_chart_points (symbol, interval, trade_date, open, high, low, close, volume, adj_close)
+      VALUES (
+        ${symbol},
+        ${interval},
+        ${dateStr}::date,
+        ${point.open},
+        ${point.high},
+        ${point.low},
+        ${point.close},
+        ${volume},
+        ${point.adjclose}
+      )
       ON CONFLICT (symbol, interval, trade_date) DO UPDATE SET
-        close = EXCLUDED.close
+        open = EXCLUDED.open,
+        high = EXCLUDED.high,
+        low = EXCLUDED.low,
+        close = EXCLUDED.close,
+        volume = EXCLUDED.volume,
+        adj_close = EXCLUDED.adj_close
     `
   }
 }
@@ -136,8 +134,6 @@ export async function updateRange (
   oldestDate: Date | null,
   newestDate: Date | null
 ): Promise<void> {
-  await ensureYahooChartTables()
-
   // Use LEAST/GREATEST for safe concurrent updates
   await sql`
     UPDATE yahoo_chart_series
@@ -163,8 +159,6 @@ export async function initializeSeriesRange (
   oldestDate: Date,
   newestDate: Date
 ): Promise<void> {
-  await ensureYahooChartTables()
-
   await sql`
     INSERT INTO yahoo_chart_series (symbol, interval, oldest_date, newest_date)
     VALUES (${symbol}, ${interval}, ${oldestDate}::date, ${newestDate}::date)
@@ -174,3 +168,192 @@ export async function initializeSeriesRange (
       updated_at = NOW()
   `
 }
+
+export async function getStoredIntradayRange (
+  symbol: string,
+  interval: string
+): Promise<{ oldestAt: Date | null; newestAt: Date | null; latestBarAt: Date | null } | null> {
+  const rows = await sql`
+    SELECT
+      s.oldest_at,
+      s.newest_at,
+      (
+        SELECT MAX(p.bar_time)
+        FROM yahoo_chart_intraday_points p
+        WHERE p.symbol = s.symbol AND p.interval = s.interval
+      ) AS latest_bar_at
+    FROM yahoo_chart_series s
+    WHERE s.symbol = ${symbol} AND s.interval = ${interval}
+  `
+
+  if (rows.length === 0) return null
+
+  const row = rows[0] as { oldest_at: Date | null; newest_at: Date | null; latest_bar_at: Date | null }
+  return {
+    oldestAt: row.oldest_at,
+    newestAt: row.newest_at,
+    latestBarAt: row.latest_bar_at
+  }
+}
+
+export async function getIntradayPoints (
+  symbol: string,
+  interval: string,
+  period1: Date,
+  period2: Date
+): Promise<ChartQuote[]> {
+  const rows = await sql`
+    SELECT bar_time, open, high, low, close, volume, adj_close
+    FROM yahoo_chart_intraday_points
+    WHERE symbol = ${symbol}
+      AND interval = ${interval}
+      AND bar_time >= ${period1}
+      AND bar_time <= ${period2}
+    ORDER BY bar_time ASC
+  ` as unknown as Array<Record<string, unknown> & { bar_time: Date }>
+
+  return rows.map((row) => ({
+    date: row.bar_time,
+    open: toNullableNumber(row.open),
+    high: toNullableNumber(row.high),
+    low: toNullableNumber(row.low),
+    close: toNullableNumber(row.close),
+    volume: toNullableNumber(row.volume),
+    adjclose: toNullableNumber(row.adj_close)
+  }))
+}
+
+export async function insertIntradayPoints (
+  symbol: string,
+  interval: string,
+  points: ChartQuote[]
+): Promise<void> {
+  if (points.length === 0) return
+
+  await sql`
+    INSERT INTO yahoo_chart_series (symbol, interval, oldest_date, newest_date)
+    VALUES (${symbol}, ${interval}, NULL, NULL)
+    ON CONFLICT (symbol, interval) DO NOTHING
+  `
+
+  for (const point of points) {
+    const d = point.date instanceof Date ? point.date : new Date(point.date as unknown as string | number)
+    if (Number.isNaN(d.getTime())) continue
+    const volume = point.volume != null ? Math.round(point.volume) : null
+    await sql`
+      INSERT INTO yahoo_chart_intraday_points (symbol, interval, bar_time, open, high, low, close, volume, adj_close)
+      VALUES (
+        ${symbol},
+        ${interval},
+        ${d},
+        ${point.open},
+        ${point.high},
+        ${point.low},
+        ${point.close},
+        ${volume},
+        ${point.adjclose}
+      )
+      ON CONFLICT (symbol, interval, bar_time) DO UPDATE SET
+        open = EXCLUDED.open,
+        high = EXCLUDED.high,
+        low = EXCLUDED.low,
+        close = EXCLUDED.close,
+        volume = EXCLUDED.volume,
+        adj_close = EXCLUDED.adj_close
+    `
+  }
+}
+
+/**
+ * Widen the fetched window of an intraday series. Called with the requested
+ * bounds of a successful Yahoo fetch, so empty stretches (nights, weekends)
+ * count as covered.
+ */
+export async function updateIntradayRange (
+  symbol: string,
+  interval: string,
+  oldestAt: Date | null,
+  newestAt: Date | null
+): Promise<void> {
+  await sql`
+    INSERT INTO yahoo_chart_series (symbol, interval, oldest_date, newest_date, oldest_at, newest_at)
+    VALUES (${symbol}, ${interval}, NULL, NULL, ${oldestAt}, ${newestAt})
+    ON CONFLICT (symbol, interval) DO UPDATE SET
+      oldest_at = CASE
+        WHEN yahoo_chart_series.oldest_at IS NULL THEN EXCLUDED.oldest_at
+        WHEN EXCLUDED.oldest_at IS NULL THEN yahoo_chart_series.oldest_at
+        ELSE LEAST(yahoo_chart_series.oldest_at, EXCLUDED.oldest_at)
+      END,
+      newest_at = CASE
+        WHEN yahoo_chart_series.newest_at IS NULL THEN EXCLUDED.newest_at
+        WHEN EXCLUDED.newest_at IS NULL THEN yahoo_chart_series.newest_at
+        ELSE GREATEST(yahoo_chart_series.newest_at, EXCLUDED.newest_at)
+      END,
+      updated_at = NOW()
+  `
+}
+
+/**
+ * Delete intraday bars older than `before` and move the series window up to match.
+ * Pass no symbol to prune every series of the interval. Returns deleted bar count.
+ */
+export async function pruneIntradayPoints (
+  interval: string,
+  before: Date,
+  symbol?: string
+): Promise<number> {
+  const result = symbol
+    ? await sql`
+        DELETE FROM yahoo_chart_intraday_points
+        WHERE symbol = ${symbol} AND interval = ${interval} AND bar_time < ${before}
+      `
+    : await sql`
+        DELETE FROM yahoo_chart_intraday_points
+        WHERE interval = ${interval} AND bar_time < ${before}
+      `
+
+  await sql`
+    UPDATE yahoo_chart_series
+    SET oldest_at = ${before}, updated_at = NOW()
+    WHERE interval = ${interval}
+      AND oldest_at < ${before}
+      ${symbol ? sql`AND symbol = ${symbol}` : sql``}
+  `
+
+  return result.count
+}
+
+export async function setSeriesCurrency (
+  symbol: string,
+  interval: string,
+  currency: string
+): Promise<void> {
+  await sql`
+    INSERT INTO yahoo_chart_series (symbol, interval, oldest_date, newest_date, currency)
+    VALUES (${symbol}, ${interval}, NULL, NULL, ${currency})
+    ON CONFLICT (symbol, interval) DO UPDATE SET
+      currency = EXCLUDED.currency
+  `
+}
+
+/** Listing currency of a symbol from any of its stored series */
+export async function getSeriesCurrency (symbol: string): Promise<string | null> {
+  const rows = await sql`
+    SELECT currency
+    FROM yahoo_chart_series
+    WHERE symbol = ${symbol} AND currency IS NOT NULL
+    ORDER BY updated_at DESC
+    LIMIT 1
+  ` as unknown as Array<{ currency: string }>
+
+  return rows[0]?.currency ?? null
+}
+
+/** Drop every stored series (all intervals, with their points) of a symbol */
+export async function deleteSymbolSeries (symbol: string): Promise<number> {
+  const result = await sql`
+    DELETE FROM yahoo_chart_series
+    WHERE symbol = ${symbol}
+  `
+  return result.count
+}
@@ -0,0 +1,77 @@
+import type { Request, Response } from 'express'
+import {
+  getJobRun,
+  listJobRuns,
+  requestJobRunCancel,
+  requeueJobRun
+} from '../repositories/jobRunRepository.js'
+import { getScheduledJobs } from '../services/schedulerService.js'
+import { processQueuedJobs } from '../services/jobQueueService.js'
+
+const MAX_JOB_RUNS_LIMIT = 500
+
+/** Scheduled jobs with their latest slot, and recent runs (optionally `?job=` only) */
+export async function getJobRuns (req: Request, res: Response): Promise<void> {
+  const jobName = typeof req.query.job === 'string' && req.query.job.trim() !== '' ? req.query.job.trim() : undefined
+  const limit = req.query.limit != null ? parseInt(String(req.query.limit), 10) : 100
+  if (!Number.isFinite(limit) || limit < 1 || limit > MAX_JOB_RUNS_LIMIT) {
+    res.status(400).json({ error: `limit must be a number between 1 and ${MAX_JOB_RUNS_LIMIT}` })
+    return
+  }
+
+  try {
+    const runs = await listJobRuns({ jobName, limit })
+    res.json({ jobs: getScheduledJobs(), runs })
+  } catch (error) {
+    console.error('Error fetching job runs:', error)
+    res.status(500).json({ error: 'Failed to fetch job runs' })
+  }
+}
+
+export async function getJob (req: Request, res: Response): Promise<void> {
+  try {
+    const job = await getJobRun(req.params.id)
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' })
+      return
+    }
+
+    res.json({ job })
+  } catch (error) {
+    console.error('Error fetching job:', error)
+    res.status(500).json({ error: 'Failed to fetch job' })
+  }
+}
+
+/** Queued jobs are cancelled at once; running ones stop at their next checkpoint */
+export async function cancelJob (req: Request, res: Response): Promise<void> {
+  try {
+    const job = await requestJobRunCancel(req.params.id)
+    if (!job) {
+      res.status(404).json({ error: 'Job not found or already finished' })
+      return
+    }
+
+    res.json({ job })
+  } catch (error) {
+    console.error('Error cancelling job:', error)
+    res.status(500).json({ error: 'Failed to cancel job' })
+  }
+}
+
+/** Re-queue a cancelled or failed job; it continues from its last checkpoint */
+export async function resumeJob (req: Request, res: Response): Promise<void> {
+  try {
+    const job = await requeueJobRun(req.params.id)
+    if (!job) {
+      res.status(404).json({ error: 'Job not found or not resumable' })
+      return
+    }
+
+    void processQueuedJobs()
+    res.status(202).json({ job })
+  } catch (error) {
+    console.error('Error resuming job:', error)
+    res.status(500).json({ error: 'Failed to resume job' })
+  }
+}
@@ -0,0 +1,185 @@
+import type { Response } from 'express'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import {
+  deleteAlert,
+  insertAlert,
+  listAlertsForUser,
+  updateAlert
+} from '../repositories/priceAlertRepository.js'
+import {
+  PRICE_ALERT_CONDITIONS,
+  isSymbolAlertCondition,
+  type PriceAlertCondition,
+  type PriceAlertPayload
+} from '../models/priceAlert.js'
+import { getPortfolio } from '../repositories/portfolioRepository.js'
+import { checkSymbols } from '../services/symbolService.js'
+import { MAX_DECIMAL_VALUE } from '../utils/validation.js'
+
+const MAX_ALERTS_PER_USER = 100
+
+function parseThreshold (value: unknown): number | null {
+  const threshold = Number(value)
+  if (value === undefined || value === null || value === '' || !Number.isFinite(threshold)) return null
+  if (Math.abs(threshold) >= MAX_DECIMAL_VALUE) return null
+  return threshold
+}
+
+function parseNote (value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null
+}
+
+function parseAlertBody (body: Record<string, unknown> | undefined): { data: PriceAlertPayload } | { error: string } {
+  const condition = String(body?.condition ?? '').trim().toUpperCase() as PriceAlertCondition
+  if (!PRICE_ALERT_CONDITIONS.includes(condition)) {
+    return { error: `condition must be one of ${PRICE_ALERT_CONDITIONS.join(', ')}` }
+  }
+
+  const threshold = parseThreshold(body?.threshold)
+  if (threshold == null) {
+    return { error: 'threshold must be a number' }
+  }
+
+  if (isSymbolAlertCondition(condition)) {
+    const symbol = typeof body?.symbol === 'string' ? body.symbol.trim().toUpperCase() : ''
+    if (!symbol) return { error: 'symbol is required for this condition' }
+    if (condition.startsWith('PRICE_') && threshold <= 0) {
+      return { error: 'threshold must be greater than 0 for price conditions' }
+    }
+    return { data: { symbol, portfolioId: null, condition, threshold, note: parseNote(body?.note) } }
+  }
+
+  // Portfolio conditions: no portfolioId means all of the user's portfolios
+  const portfolioId = typeof body?.portfolioId === 'string' && body.portfolioId !== '' ? body.portfolioId : null
+  return { data: { symbol: null, portfolioId, condition, threshold, note: parseNote(body?.note) } }
+}
+
+export async function getAlerts (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  try {
+    const alerts = await listAlertsForUser(req.user.uid)
+    res.json({ alerts })
+  } catch (error) {
+    console.error('Error fetching alerts:', error)
+    res.status(500).json({ error: 'Failed to fetch alerts' })
+  }
+}
+
+export async function createAlert (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const parsed = parseAlertBody(req.body as Record<string, unknown> | undefined)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  const { data } = parsed
+  const uid = req.user.uid
+
+  try {
+    if ((await listAlertsForUser(uid)).length >= MAX_ALERTS_PER_USER) {
+      res.status(400).json({ error: `At most ${MAX_ALERTS_PER_USER} alerts are allowed` })
+      return
+    }
+
+    if (data.portfolioId && !(await getPortfolio(uid, data.portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    if (data.symbol && !(await checkSymbols([data.symbol], res))) return
+
+    const alert = await insertAlert(uid, data)
+    res.status(201).json({ alert })
+  } catch (error) {
+    console.error('Error creating alert:', error)
+    res.status(500).json({ error: 'Failed to create alert' })
+  }
+}
+
+/** Change threshold or note, or re-arm / pause the alert with isActive */
+export async function updateAlertById (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const id = req.params.id
+  if (!id) {
+    res.status(400).json({ error: 'id is required' })
+    return
+  }
+
+  const body = req.body as Record<string, unknown> | undefined
+  const updates: Partial<{ threshold: number; note: string | null; is_active: boolean }> = {}
+
+  if (body?.threshold !== undefined) {
+    const threshold = parseThreshold(body.threshold)
+    if (threshold == null) {
+      res.status(400).json({ error: 'threshold must be a number' })
+      return
+    }
+    updates.threshold = threshold
+  }
+
+  if (body?.note !== undefined) updates.note = parseNote(body.note)
+
+  if (body?.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') {
+      res.status(400).json({ error: 'isActive must be a boolean' })
+      return
+    }
+    updates.is_active = body.isActive
+  }
+
+  if (Object.keys(updates).length === 0) {
+    res.status(400).json({ error: 'No fields to update' })
+    return
+  }
+
+  try {
+    const alert = await updateAlert(req.user.uid, id, updates)
+    if (!alert) {
+      res.status(404).json({ error: 'Alert not found' })
+      return
+    }
+
+    res.json({ alert })
+  } catch (error) {
+    console.error('Error updating alert:', error)
+    res.status(500).json({ error: 'Failed to update alert' })
+  }
+}
+
+export async function deleteAlertById (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const id = req.params.id
+  if (!id) {
+    res.status(400).json({ error: 'id is required' })
+    return
+  }
+
+  try {
+    if (!(await deleteAlert(req.user.uid, id))) {
+      res.status(404).json({ error: 'Alert not found' })
+      return
+    }
+
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting alert:', error)
+    res.status(500).json({ error: 'Failed to delete alert' })
+  }
+}
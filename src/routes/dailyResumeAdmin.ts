@@ -1,37 +1,15 @@
 import type { Request, Response } from 'express'
-import sql from '../config/database.js'
-import {
-  ensureUserDailyStockResumeTable,
-  upsertUserDailyStockResume
-} from '../repositories/userDailyStockResumeRepository.js'
-import { computeResumesBatch, getTodayDateString } from '../services/portfolioResumeService.js'
-
-const ADMIN_SECRET_HEADER = 'x-admin-secret'
-
-function getLastNTradingDays (n: number): string[] {
-  const dates: string[] = []
-  const d = new Date()
-
-  while (dates.length < n) {
-    const day = d.getDay()
-    if (day !== 0 && day !== 6) {
-      dates.push(d.toISOString().slice(0, 10))
-    }
-    d.setDate(d.getDate() - 1)
-  }
-
-  return dates
-}
-
+import { getTodayDateString } from '../services/portfolioResumeService.js'
+import { enqueueResumeBackfill } from '../services/jobQueueService.js'
+import { getLastNTradingDays, isMarketDay } from '../utils/tradingCalendar.js'
+import { isValidDateString } from '../utils/validation.js'
+
+/**
+ * Queue resume generation for `?date=` (default today) or the last `?days=`
+ * market days (days on which any supported exchange trades). Responds 202
+ * with the job; poll GET /api/admin/jobs/:id.
+ */
 export async function dailyResumeGenerate (req: Request, res: Response): Promise<void> {
-  const adminSecret = process.env.ADMIN_SECRET
-  const providedSecret = req.headers[ADMIN_SECRET_HEADER] as string | undefined
-
-  if (!adminSecret || providedSecret !== adminSecret) {
-    res.status(403).json({ error: 'Forbidden' })
-    return
-  }
-
   const dateParam = req.query.date as string | undefined
   const daysParam = req.query.days as string | undefined
 
@@ -43,55 +21,25 @@ export async function dailyResumeGenerate (req: Request, res: Response): Promise
       res.status(400).json({ error: 'days must be a number between 1 and 90' })
       return
     }
-    targetDates = getLastNTradingDays(days)
+    targetDates = getLastNTradingDays(null, days, getTodayDateString())
   } else {
-    targetDates = [dateParam?.trim() || getTodayDateString()]
-  }
-
-  await ensureUserDailyStockResumeTable()
-
-  try {
-    const rows = await sql`SELECT uid FROM user_profiles` as unknown as Array<{ uid: string }>
-    const uids = rows.map((r) => r.uid)
-
-    const batchResults = await computeResumesBatch(uids, targetDates)
-
-    const byDate = new Map<string, { processed: number; errors: number }>()
-    for (const d of targetDates) {
-      byDate.set(d, { processed: 0, errors: 0 })
+    const date = dateParam?.trim() || getTodayDateString()
+    if (!isValidDateString(date)) {
+      res.status(400).json({ error: 'date must be in YYYY-MM-DD format' })
+      return
     }
-
-    let totalProcessed = 0
-    let totalErrors = 0
-
-    for (const { uid, date, data } of batchResults) {
-      try {
-        await upsertUserDailyStockResume(uid, date, data)
-        byDate.get(date)!.processed++
-        totalProcessed++
-      } catch (err) {
-        console.error(`Failed to persist resume for user ${uid} on ${date}:`, err)
-        byDate.get(date)!.errors++
-        totalErrors++
-      }
+    if (!isMarketDay(date)) {
+      res.status(400).json({ error: `${date} is not a trading day on any supported exchange` })
+      return
     }
+    targetDates = [date]
+  }
 
-    const results = targetDates.map((date) => ({
-      date,
-      processed: byDate.get(date)!.processed,
-      errors: byDate.get(date)!.errors
-    }))
-
-    res.json({
-      ok: true,
-      dates: targetDates,
-      results,
-      totalProcessed,
-      totalErrors,
-      usersCount: uids.length
-    })
+  try {
+    const job = await enqueueResumeBackfill(targetDates)
+    res.status(202).json({ ok: true, jobId: job.id, status: job.status, dates: targetDates })
   } catch (error) {
-    console.error('Error in daily resume generation:', error)
-    res.status(500).json({ error: 'Failed to generate daily resumes' })
+    console.error('Error queueing daily resume generation:', error)
+    res.status(500).json({ error: 'Failed to queue daily resume generation' })
   }
 }
@@ -1,19 +1,63 @@
 import type { Response } from 'express'
 import type { AuthenticatedRequest } from '../middleware/auth.js'
 import {
-  ensureUserDailyStockResumeTable,
   getResumeForUserOnDate,
   getPreviousResumeForUser,
   upsertUserDailyStockResume
 } from '../repositories/userDailyStockResumeRepository.js'
-import { computeResume, getTodayDateString } from '../services/portfolioResumeService.js'
+import { getPortfolio } from '../repositories/portfolioRepository.js'
+import {
+  computeResume,
+  getTodayDateString,
+  loadResumeSeries,
+  streamResumeSeries
+} from '../services/portfolioResumeService.js'
+import { parseExportQuery, streamExport, type ExportColumn } from '../services/exportService.js'
+import { computePerformance } from '../services/performanceService.js'
+import { computeBenchmarkComparison } from '../services/benchmarkService.js'
+import { computeRiskReport, getDefaultRiskFreeRate } from '../services/riskService.js'
+import { getBenchmarkSymbols } from '../repositories/userProfileRepository.js'
+import { MAX_BENCHMARK_SYMBOLS } from '../models/user.js'
+import type { DividendIncome, PricingQuality, UserDailyStockResume } from '../models/userDailyStockResume.js'
+import { isValidDateString } from '../utils/validation.js'
+
+const HISTORY_GRANULARITIES = ['day', 'week', 'month'] as const
+type HistoryGranularity = typeof HISTORY_GRANULARITIES[number]
+
+/** Longest range /history serves; missing days in it are computed on demand */
+const MAX_HISTORY_DAYS = 366
+
+/** Benchmark for beta when neither the request nor the profile names one */
+const DEFAULT_BENCHMARK_SYMBOL = '^GSPC'
 
 interface ResumeOverviewItem {
   date: string
+  currency: string
   totalInvested: number
   totalValue: number
   totalPnlValue: number
   totalPnlPercent: number
+  totalRealizedPnl: number
+  totalUnrealizedPnl: number
+  totalDividends: number
+  dividendIncome: DividendIncome[]
+  pricingQuality: PricingQuality | null
+}
+
+function toOverviewItem (resume: UserDailyStockResume): ResumeOverviewItem {
+  return {
+    date: resume.resumeDate,
+    currency: resume.currency,
+    totalInvested: resume.totalInvested,
+    totalValue: resume.totalValue,
+    totalPnlValue: resume.totalPnlValue,
+    totalPnlPercent: resume.totalPnlPercent,
+    totalRealizedPnl: resume.totalRealizedPnl,
+    totalUnrealizedPnl: resume.totalUnrealizedPnl,
+    totalDividends: resume.totalDividends,
+    dividendIncome: resume.dividendIncome,
+    pricingQuality: resume.pricingQuality
+  }
 }
 
 export async function getDashboardOverview (req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -23,37 +67,27 @@ export async function getDashboardOverview (req: AuthenticatedRequest, res: Resp
   }
 
   const uid = req.user.uid
-
-  await ensureUserDailyStockResumeTable()
+  // Without a portfolio id the overview covers all of the user's portfolios
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
 
   try {
+    if (portfolioId && !(await getPortfolio(uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
     const todayStr = getTodayDateString()
 
-    let todayResume = await getResumeForUserOnDate(uid, todayStr)
+    let todayResume = await getResumeForUserOnDate(uid, todayStr, portfolioId)
     if (!todayResume) {
-      const computed = await computeResume(uid, todayStr)
-      todayResume = await upsertUserDailyStockResume(uid, todayStr, computed)
+      const computed = await computeResume(uid, todayStr, portfolioId)
+      todayResume = await upsertUserDailyStockResume(uid, todayStr, computed, portfolioId)
     }
 
-    const yesterdayResume = await getPreviousResumeForUser(uid, todayStr)
-
-    const today: ResumeOverviewItem = {
-      date: todayResume.resumeDate,
-      totalInvested: todayResume.totalInvested,
-      totalValue: todayResume.totalValue,
-      totalPnlValue: todayResume.totalPnlValue,
-      totalPnlPercent: todayResume.totalPnlPercent
-    }
+    const yesterdayResume = await getPreviousResumeForUser(uid, todayStr, portfolioId)
 
-    const yesterday: ResumeOverviewItem | null = yesterdayResume
-      ? {
-          date: yesterdayResume.resumeDate,
-          totalInvested: yesterdayResume.totalInvested,
-          totalValue: yesterdayResume.totalValue,
-          totalPnlValue: yesterdayResume.totalPnlValue,
-          totalPnlPercent: yesterdayResume.totalPnlPercent
-        }
-      : null
+    const today = toOverviewItem(todayResume)
+    const yesterday = yesterdayResume ? toOverviewItem(yesterdayResume) : null
 
     const deltas = yesterdayResume
       ? {
@@ -63,9 +97,291 @@ export async function getDashboardOverview (req: AuthenticatedRequest, res: Resp
         }
       : { deltaValue: null, deltaPnlValue: null, deltaPnlPercent: null }
 
-    res.json({ today, yesterday, deltas })
+    res.json({ portfolioId, today, yesterday, deltas })
   } catch (error) {
     console.error('Error fetching dashboard overview:', error)
     res.status(500).json({ error: 'Failed to fetch dashboard overview' })
   }
 }
+
+/** Bucket a date falls into: the day itself, the Monday of its week or the first of its month */
+function getPeriodStart (date: string, granularity: HistoryGranularity): string {
+  if (granularity === 'day') return date
+  if (granularity === 'month') return `${date.slice(0, 7)}-01`
+
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7))
+  return d.toISOString().slice(0, 10)
+}
+
+/** One point per period: the last resume of the week or month (its closing value) */
+function aggregateByPeriod (
+  resumes: UserDailyStockResume[],
+  granularity: HistoryGranularity
+): Array<ResumeOverviewItem & { periodStart: string }> {
+  const byPeriod = new Map<string, UserDailyStockResume>()
+  for (const resume of resumes) {
+    byPeriod.set(getPeriodStart(resume.resumeDate, granularity), resume)
+  }
+  return [...byPeriod].map(([periodStart, resume]) => ({ periodStart, ...toOverviewItem(resume) }))
+}
+
+/**
+ * from/to query parameters; `to` defaults to today and `from` to
+ * `defaultMonths` before it. The range is capped at `maxDays` (null: no cap).
+ */
+function parseRangeQuery (
+  req: AuthenticatedRequest,
+  defaultMonths: number,
+  maxDays: number | null = MAX_HISTORY_DAYS
+): { fromDate: string; toDate: string } | { error: string } {
+  const toDate = (req.query.to as string | undefined)?.trim() || getTodayDateString()
+  let fromDate = (req.query.from as string | undefined)?.trim()
+  if (!fromDate) {
+    const d = new Date(`${toDate}T00:00:00Z`)
+    d.setUTCMonth(d.getUTCMonth() - defaultMonths)
+    fromDate = d.toISOString().slice(0, 10)
+  }
+
+  if (!isValidDateString(fromDate) || !isValidDateString(toDate)) {
+    return { error: 'from and to must be dates in YYYY-MM-DD format' }
+  }
+
+  if (fromDate > toDate) {
+    return { error: 'from must not be after to' }
+  }
+
+  const rangeDays = (new Date(toDate).getTime() - new Date(fromDate).getTime()) / (24 * 60 * 60 * 1000)
+  if (maxDays != null && rangeDays > maxDays) {
+    return { error: `The range must not exceed ${maxDays} days` }
+  }
+
+  return { fromDate, toDate }
+}
+
+export async function getDashboardHistory (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const uid = req.user.uid
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
+  const granularity = ((req.query.granularity as string | undefined)?.trim() || 'day') as HistoryGranularity
+
+  const range = parseRangeQuery(req, 1)
+  if ('error' in range) {
+    res.status(400).json({ error: range.error })
+    return
+  }
+  const { fromDate, toDate } = range
+
+  if (!HISTORY_GRANULARITIES.includes(granularity)) {
+    res.status(400).json({ error: `granularity must be one of ${HISTORY_GRANULARITIES.join(', ')}` })
+    return
+  }
+
+  try {
+    if (portfolioId && !(await getPortfolio(uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    const resumes = await loadResumeSeries(uid, fromDate, toDate, portfolioId)
+
+    res.json({
+      portfolioId,
+      from: fromDate,
+      to: toDate,
+      granularity,
+      series: aggregateByPeriod(resumes, granularity)
+    })
+  } catch (error) {
+    console.error('Error fetching dashboard history:', error)
+    res.status(500).json({ error: 'Failed to fetch dashboard history' })
+  }
+}
+
+/** Daily resume columns of the history export; amounts in the resume currency */
+const HISTORY_EXPORT_COLUMNS: Array<ExportColumn<UserDailyStockResume>> = [
+  { key: 'date', type: 'date', value: (r) => r.resumeDate },
+  { key: 'currency', type: 'text', value: (r) => r.currency },
+  { key: 'totalInvested', type: 'number', value: (r) => r.totalInvested },
+  { key: 'totalValue', type: 'number', value: (r) => r.totalValue },
+  { key: 'totalPnlValue', type: 'number', value: (r) => r.totalPnlValue },
+  { key: 'totalPnlPercent', type: 'number', value: (r) => r.totalPnlPercent },
+  { key: 'totalRealizedPnl', type: 'number', value: (r) => r.totalRealizedPnl },
+  { key: 'totalUnrealizedPnl', type: 'number', value: (r) => r.totalUnrealizedPnl },
+  { key: 'totalDividends', type: 'number', value: (r) => r.totalDividends },
+  { key: 'pricingQuality', type: 'text', value: (r) => r.pricingQuality?.status ?? null }
+]
+
+/**
+ * Download the daily resume series as CSV or NDJSON (see parseExportQuery).
+ * `from` defaults to a year back and the range is not capped: the stored
+ * history is streamed, with missing days computed only for the last year
+ * (see streamResumeSeries).
+ */
+export async function getDashboardHistoryExport (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const uid = req.user.uid
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
+
+  const range = parseRangeQuery(req, 12, null)
+  if ('error' in range) {
+    res.status(400).json({ error: range.error })
+    return
+  }
+  const { fromDate, toDate } = range
+
+  const query = parseExportQuery(req.query)
+  if ('error' in query) {
+    res.status(400).json({ error: query.error })
+    return
+  }
+
+  try {
+    if (portfolioId && !(await getPortfolio(uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    const batches = await streamResumeSeries(uid, fromDate, toDate, portfolioId)
+    await streamExport(res, {
+      ...query,
+      filename: `portfolio-history-${fromDate}-to-${toDate}`,
+      columns: HISTORY_EXPORT_COLUMNS
+    }, batches)
+  } catch (error) {
+    console.error('Error exporting dashboard history:', error)
+    res.status(500).json({ error: 'Failed to export dashboard history' })
+  }
+}
+
+export async function getDashboardPerformance (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const uid = req.user.uid
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
+  const fromDate = (req.query.from as string | undefined)?.trim()
+  const toDate = (req.query.to as string | undefined)?.trim() || getTodayDateString()
+
+  // from (and optionally to) add a custom period next to 1M, YTD, 1Y and inception
+  if (fromDate && (!isValidDateString(fromDate) || !isValidDateString(toDate) || fromDate > toDate)) {
+    res.status(400).json({ error: 'from and to must be dates in YYYY-MM-DD format with from <= to' })
+    return
+  }
+
+  try {
+    if (portfolioId && !(await getPortfolio(uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    const { currency, periods, backfill } = await computePerformance(
+      uid,
+      portfolioId,
+      fromDate ? { from: fromDate, to: toDate } : null
+    )
+
+    res.json({ portfolioId, currency, periods, backfill })
+  } catch (error) {
+    console.error('Error computing dashboard performance:', error)
+    res.status(500).json({ error: 'Failed to compute dashboard performance' })
+  }
+}
+
+export async function getDashboardBenchmarks (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const uid = req.user.uid
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
+  const symbolsParam = (req.query.symbols as string | undefined)?.trim()
+
+  const range = parseRangeQuery(req, 12)
+  if ('error' in range) {
+    res.status(400).json({ error: range.error })
+    return
+  }
+  const { fromDate, toDate } = range
+
+  try {
+    if (portfolioId && !(await getPortfolio(uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    // ?symbols= overrides the benchmarks saved on the profile
+    const symbols = symbolsParam
+      ? [...new Set(symbolsParam.split(',').map((s) => s.trim().toUpperCase()).filter(Boolean))]
+      : await getBenchmarkSymbols(uid)
+
+    if (symbols.length === 0) {
+      res.status(400).json({ error: 'No benchmark symbols: set benchmarkSymbols on the profile or pass symbols' })
+      return
+    }
+
+    if (symbols.length > MAX_BENCHMARK_SYMBOLS) {
+      res.status(400).json({ error: `At most ${MAX_BENCHMARK_SYMBOLS} benchmark symbols are supported` })
+      return
+    }
+
+    const comparison = await computeBenchmarkComparison(uid, portfolioId, fromDate, toDate, symbols)
+
+    res.json({ portfolioId, ...comparison })
+  } catch (error) {
+    console.error('Error computing benchmark comparison:', error)
+    res.status(500).json({ error: 'Failed to compute benchmark comparison' })
+  }
+}
+
+export async function getDashboardRisk (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const uid = req.user.uid
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
+  const benchmarkParam = (req.query.benchmark as string | undefined)?.trim().toUpperCase()
+  const riskFreeParam = (req.query.riskFreeRate as string | undefined)?.trim()
+
+  const range = parseRangeQuery(req, 12)
+  if ('error' in range) {
+    res.status(400).json({ error: range.error })
+    return
+  }
+  const { fromDate, toDate } = range
+
+  // Annual rate in percent, e.g. 4.5
+  const riskFreeRate = riskFreeParam ? Number(riskFreeParam) : getDefaultRiskFreeRate()
+  if (!Number.isFinite(riskFreeRate) || riskFreeRate < -100 || riskFreeRate > 100) {
+    res.status(400).json({ error: 'riskFreeRate must be an annual rate in percent' })
+    return
+  }
+
+  try {
+    if (portfolioId && !(await getPortfolio(uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    const benchmark = benchmarkParam || (await getBenchmarkSymbols(uid))[0] || DEFAULT_BENCHMARK_SYMBOL
+    const report = await computeRiskReport(uid, portfolioId, fromDate, toDate, benchmark, riskFreeRate)
+
+    res.json({ portfolioId, ...report })
+  } catch (error) {
+    console.error('Error computing risk metrics:', error)
+    res.status(500).json({ error: 'Failed to compute risk metrics' })
+  }
+}
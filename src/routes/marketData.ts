@@ -1,7 +1,11 @@
 import type { Request, Response } from 'express'
-import { getCache, setCache, getChartCacheKey, getQuoteCacheKey } from '../services/cache.js'
-import { getQuotes as fetchQuotes } from '../utils/yahooRetry.js'
-import { getChartData } from '../services/chartDataService.js'
+import { getCache, setCache, getChartCacheKey } from '../services/cache.js'
+import type { ChartInterval } from '../utils/yahooRetry.js'
+import { getLatestQuotes } from '../services/quoteService.js'
+import { getChartData, type ChartSeriesData } from '../services/chartDataService.js'
+import { searchSymbols } from '../services/symbolService.js'
+
+const MAX_SEARCH_QUERY_LENGTH = 64
 
 function getStartDate (range: string): Date {
   const now = new Date()
@@ -43,7 +47,7 @@ export async function getChart (req: Request, res: Response): Promise<void> {
   try {
     // Check cache first
     const cacheKey = getChartCacheKey(symbol, interval, range)
-    const cachedData = await getCache<{ timestamp: number[]; closes: (number | null)[] }>(cacheKey)
+    const cachedData = await getCache<ChartSeriesData>(cacheKey)
     
     if (cachedData) {
       console.log(`Cache hit for chart: ${symbol} (${interval}, ${range})`)
@@ -56,15 +60,21 @@ export async function getChart (req: Request, res: Response): Promise<void> {
     const startDate = getStartDate(range)
     const data = await getChartData(
       symbol,
-      interval as '1d' | '5m' | '1h' | '15m' | '30m' | '60m' | '1wk' | '1mo',
+      interval as ChartInterval,
       startDate,
       new Date()
     )
 
-    // Guarantee response shape for UI: { timestamp: number[], closes: (number | null)[] }
-    const payload: { timestamp: number[]; closes: (number | null)[] } = {
+    // Guarantee response shape for UI: { timestamp, closes } stays as before,
+    // OHLCV arrays are added alongside and aligned with timestamp
+    const payload: ChartSeriesData = {
       timestamp: Array.isArray(data.timestamp) ? data.timestamp : [],
-      closes: Array.isArray(data.closes) ? data.closes : []
+      closes: Array.isArray(data.closes) ? data.closes : [],
+      opens: Array.isArray(data.opens) ? data.opens : [],
+      highs: Array.isArray(data.highs) ? data.highs : [],
+      lows: Array.isArray(data.lows) ? data.lows : [],
+      volumes: Array.isArray(data.volumes) ? data.volumes : [],
+      adjCloses: Array.isArray(data.adjCloses) ? data.adjCloses : []
     }
 
     await setCache(cacheKey, payload)
@@ -90,38 +100,9 @@ export async function getQuotes (req: Request, res: Response): Promise<void> {
   const symbols = symbolsParam.split(',').filter(s => s.trim())
 
   try {
-    // Check cache first
-    const cacheKey = getQuoteCacheKey(symbols)
-    const cachedData = await getCache<{ quotes: Array<{
-      symbol: string
-      regularMarketPrice?: number
-      regularMarketChange?: number
-      regularMarketChangePercent?: number
-    }> }>(cacheKey)
-    
-    if (cachedData) {
-      console.log(`Cache hit for quotes: ${symbols.join(',')}`)
-      res.json(cachedData)
-      return
-    }
-
-    // Cache miss - fetch from Yahoo Finance
-    console.log(`Cache miss for quotes: ${symbols.join(',')}`)
-    const results = await fetchQuotes(symbols)
-
-    const data = {
-      quotes: results.map((q) => ({
-        symbol: q.symbol,
-        regularMarketPrice: q.regularMarketPrice,
-        regularMarketChange: q.regularMarketChange,
-        regularMarketChangePercent: q.regularMarketChangePercent
-      }))
-    }
-
-    // Store in cache
-    await setCache(cacheKey, data)
-
-    res.json(data)
+    // Served from the shared quote cache, Yahoo Finance on a miss
+    const quotes = await getLatestQuotes(symbols)
+    res.json({ quotes })
   } catch (error: any) {
     console.error('Error fetching quotes:', error)
     const statusCode = isRateLimitError(error) ? 429 : 500
@@ -132,3 +113,28 @@ export async function getQuotes (req: Request, res: Response): Promise<void> {
   }
 }
 
+export async function getSymbolSearch (req: Request, res: Response): Promise<void> {
+  const query = (req.query.q as string | undefined)?.trim()
+
+  if (!query) {
+    res.status(400).json({ error: 'q parameter is required' })
+    return
+  }
+
+  if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+    res.status(400).json({ error: `q must be at most ${MAX_SEARCH_QUERY_LENGTH} characters` })
+    return
+  }
+
+  try {
+    const results = await searchSymbols(query)
+    res.json({ results })
+  } catch (error: any) {
+    console.error(`Error searching symbols for ${query}:`, error)
+    const statusCode = isRateLimitError(error) ? 429 : 500
+    const errorMessage = isRateLimitError(error)
+      ? 'Rate limit exceeded. Please try again later.'
+      : 'Failed to search symbols'
+    res.status(statusCode).json({ error: errorMessage })
+  }
+}
@@ -0,0 +1,71 @@
+import type { Response } from 'express'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import {
+  acknowledgeNotifications,
+  listNotificationsForUser
+} from '../repositories/notificationRepository.js'
+
+const MAX_NOTIFICATIONS_LIMIT = 500
+
+export async function getNotifications (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const unacknowledgedOnly = req.query.unacknowledged === 'true'
+  const limit = req.query.limit != null ? parseInt(String(req.query.limit), 10) : 100
+  if (!Number.isFinite(limit) || limit < 1 || limit > MAX_NOTIFICATIONS_LIMIT) {
+    res.status(400).json({ error: `limit must be a number between 1 and ${MAX_NOTIFICATIONS_LIMIT}` })
+    return
+  }
+
+  try {
+    const notifications = await listNotificationsForUser(req.user.uid, { unacknowledgedOnly, limit })
+    res.json({ notifications })
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    res.status(500).json({ error: 'Failed to fetch notifications' })
+  }
+}
+
+export async function acknowledgeNotification (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const id = req.params.id
+  if (!id) {
+    res.status(400).json({ error: 'id is required' })
+    return
+  }
+
+  try {
+    const count = await acknowledgeNotifications(req.user.uid, id)
+    if (count === 0) {
+      res.status(404).json({ error: 'Notification not found or already acknowledged' })
+      return
+    }
+
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error acknowledging notification:', error)
+    res.status(500).json({ error: 'Failed to acknowledge notification' })
+  }
+}
+
+export async function acknowledgeAllNotifications (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  try {
+    const acknowledged = await acknowledgeNotifications(req.user.uid, null)
+    res.json({ acknowledged })
+  } catch (error) {
+    console.error('Error acknowledging notifications:', error)
+    res.status(500).json({ error: 'Failed to acknowledge notifications' })
+  }
+}
@@ -0,0 +1,91 @@
+import type { Response } from 'express'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import { getPortfolio } from '../repositories/portfolioRepository.js'
+import { streamLots } from '../repositories/userStocksRepository.js'
+import type UserStock from '../models/userStocks.js'
+import { loadCurrentPositions, summarizePosition } from '../services/ledgerService.js'
+import { getMarketPrices } from '../services/quoteService.js'
+import { getTodayDateString } from '../services/portfolioResumeService.js'
+import { parseExportQuery, streamExport, type ExportColumn } from '../services/exportService.js'
+
+const PORTFOLIO_EXPORT_TYPES = ['holdings', 'lots'] as const
+
+type PortfolioExportType = typeof PORTFOLIO_EXPORT_TYPES[number]
+
+type HoldingRow = ReturnType<typeof summarizePosition>
+
+const HOLDING_COLUMNS: Array<ExportColumn<HoldingRow>> = [
+  { key: 'symbol', type: 'text', value: (h) => h.symbol },
+  { key: 'currency', type: 'text', value: (h) => h.currency },
+  { key: 'quantity', type: 'number', value: (h) => h.quantity },
+  { key: 'averageCost', type: 'number', value: (h) => h.averageCost },
+  { key: 'costBasis', type: 'number', value: (h) => h.costBasis },
+  { key: 'marketPrice', type: 'number', value: (h) => h.marketPrice },
+  { key: 'marketValue', type: 'number', value: (h) => h.marketValue },
+  { key: 'unrealizedPnl', type: 'number', value: (h) => h.unrealizedPnl },
+  { key: 'realizedPnl', type: 'number', value: (h) => h.realizedPnl },
+  { key: 'dividends', type: 'number', value: (h) => h.dividends },
+  { key: 'fees', type: 'number', value: (h) => h.fees }
+]
+
+const LOT_COLUMNS: Array<ExportColumn<UserStock>> = [
+  { key: 'id', type: 'text', value: (l) => l.id },
+  { key: 'portfolioId', type: 'text', value: (l) => l.portfolioId },
+  { key: 'symbol', type: 'text', value: (l) => l.symbol },
+  { key: 'quantity', type: 'number', value: (l) => l.quantity },
+  { key: 'purchasePrice', type: 'number', value: (l) => l.purchasePrice },
+  {
+    key: 'purchaseDate',
+    type: 'date',
+    value: (l) => (l.purchaseDate instanceof Date ? l.purchaseDate.toISOString().slice(0, 10) : l.purchaseDate)
+  }
+]
+
+/**
+ * Download the ledger holdings (with market values, in each listing
+ * currency) or the raw lots of a portfolio, or of all portfolios without
+ * `portfolioId`. `type` is holdings (default) or lots; see parseExportQuery
+ * for `format` and `locale`.
+ */
+export async function getPortfolioExport (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const uid = req.user.uid
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
+  const type = ((req.query.type as string | undefined)?.trim().toLowerCase() || 'holdings') as PortfolioExportType
+  if (!PORTFOLIO_EXPORT_TYPES.includes(type)) {
+    res.status(400).json({ error: `type must be one of ${PORTFOLIO_EXPORT_TYPES.join(', ')}` })
+    return
+  }
+
+  const query = parseExportQuery(req.query)
+  if ('error' in query) {
+    res.status(400).json({ error: query.error })
+    return
+  }
+
+  const filename = `portfolio-${type}-${getTodayDateString()}`
+
+  try {
+    if (portfolioId && !(await getPortfolio(uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    if (type === 'lots') {
+      await streamExport(res, { ...query, filename, columns: LOT_COLUMNS }, streamLots(uid, portfolioId))
+      return
+    }
+
+    const { positions } = await loadCurrentPositions(uid, portfolioId)
+    const prices = await getMarketPrices(positions.filter((p) => p.quantity > 0).map((p) => p.symbol))
+    const holdings = positions.map((p) => summarizePosition(p, prices.get(p.symbol) ?? null))
+    await streamExport(res, { ...query, filename, columns: HOLDING_COLUMNS }, [holdings])
+  } catch (error) {
+    console.error('Error exporting portfolio:', error)
+    res.status(500).json({ error: 'Failed to export portfolio' })
+  }
+}
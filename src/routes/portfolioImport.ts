@@ -0,0 +1,121 @@
+import type { Response } from 'express'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import { resolvePortfolioId } from '../repositories/portfolioRepository.js'
+import {
+  IMPORT_FIELDS,
+  IMPORT_FORMATS,
+  IMPORT_PROFILES,
+  commitImport,
+  previewImport,
+  type DateOrder,
+  type ImportField,
+  type ImportFormat,
+  type ImportOptions
+} from '../services/portfolioImportService.js'
+
+const DATE_ORDERS: DateOrder[] = ['DMY', 'MDY', 'YMD']
+
+function isStringRecord (value: unknown): value is Record<string, string> {
+  return value != null && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === 'string')
+}
+
+function parseImportOptions (body: Record<string, unknown> | undefined): { data: ImportOptions } | { error: string } {
+  const format = String(body?.format ?? 'GENERIC').trim().toUpperCase() as ImportFormat
+  if (!IMPORT_FORMATS.includes(format)) {
+    return { error: `format must be one of ${IMPORT_FORMATS.join(', ')}` }
+  }
+
+  const data: ImportOptions = { format }
+
+  if (body?.columns != null) {
+    if (!isStringRecord(body.columns)) return { error: 'columns must map fields to header names' }
+    const unknown = Object.keys(body.columns).filter((f) => !IMPORT_FIELDS.includes(f as ImportField))
+    if (unknown.length > 0) return { error: `Unknown column field(s): ${unknown.join(', ')}; fields are ${IMPORT_FIELDS.join(', ')}` }
+    data.columns = body.columns as Partial<Record<ImportField, string>>
+  }
+
+  if (body?.dateOrder != null) {
+    const dateOrder = String(body.dateOrder).toUpperCase() as DateOrder
+    if (!DATE_ORDERS.includes(dateOrder)) return { error: `dateOrder must be one of ${DATE_ORDERS.join(', ')}` }
+    data.dateOrder = dateOrder
+  }
+
+  if (body?.decimalSeparator != null) {
+    if (body.decimalSeparator !== '.' && body.decimalSeparator !== ',') return { error: 'decimalSeparator must be "." or ","' }
+    data.decimalSeparator = body.decimalSeparator
+  }
+
+  if (body?.symbolMap != null) {
+    if (!isStringRecord(body.symbolMap)) return { error: 'symbolMap must map tickers or ISINs to symbols' }
+    data.symbolMap = body.symbolMap
+  }
+
+  return { data }
+}
+
+/** Column-mapping profiles of the supported broker exports */
+export async function getImportProfiles (_req: AuthenticatedRequest, res: Response): Promise<void> {
+  res.json({ profiles: Object.values(IMPORT_PROFILES), fields: IMPORT_FIELDS })
+}
+
+/**
+ * Import a broker CSV export (`csv` as a string in the JSON body) into a
+ * portfolio. By default this is a dry run returning the parsed rows with
+ * their validation errors; `dryRun: false` writes every valid row in one
+ * transaction, and is refused while any row has an error.
+ */
+export async function importPortfolio (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const body = req.body as Record<string, unknown> | undefined
+  const csv = body?.csv
+  if (typeof csv !== 'string' || csv.trim() === '') {
+    res.status(400).json({ error: 'csv is required' })
+    return
+  }
+
+  const parsed = parseImportOptions(body)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  const dryRun = body?.dryRun !== false
+  const includeDuplicates = body?.includeDuplicates === true
+  const uid = req.user.uid
+
+  try {
+    const resolved = await resolvePortfolioId(uid, body?.portfolioId)
+    if ('error' in resolved) {
+      res.status(404).json({ error: resolved.error })
+      return
+    }
+    const { portfolioId } = resolved
+
+    const preview = await previewImport(uid, portfolioId, csv, parsed.data, includeDuplicates)
+    if ('error' in preview) {
+      res.status(400).json({ error: preview.error })
+      return
+    }
+
+    if (dryRun) {
+      res.json({ dryRun, portfolioId, ...preview })
+      return
+    }
+
+    if (preview.summary.errors > 0) {
+      res.status(400).json({ error: 'Some rows have errors; fix or remove them and retry', dryRun, portfolioId, ...preview })
+      return
+    }
+
+    const imported = await commitImport(uid, portfolioId, preview, includeDuplicates)
+    res.status(201).json({ dryRun, portfolioId, ...preview, imported })
+  } catch (error) {
+    console.error('Error importing portfolio CSV:', error)
+    res.status(500).json({ error: 'Failed to import portfolio CSV' })
+  }
+}
@@ -0,0 +1,337 @@
+import type { Response } from 'express'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import {
+  listTransactionsForUser,
+  getTransaction,
+  insertTransaction,
+  deleteTransaction
+} from '../repositories/portfolioTransactionRepository.js'
+import { deleteResumesForUserFromDate } from '../repositories/userDailyStockResumeRepository.js'
+import {
+  PORTFOLIO_TRANSACTION_TYPES,
+  type PortfolioTransactionPayload,
+  type PortfolioTransactionType
+} from '../models/portfolioTransaction.js'
+import {
+  filterEntriesByPortfolio,
+  findRemovalShortfall,
+  findSellShortfall,
+  loadCurrentPositions,
+  loadLedgerEntries,
+  summarizePosition,
+  type LedgerEntry
+} from '../services/ledgerService.js'
+import { getMarketPrices, type MarketPrice } from '../services/quoteService.js'
+import { getPortfolio, resolvePortfolioId } from '../repositories/portfolioRepository.js'
+import { computeAllocation } from '../services/allocationService.js'
+import { checkSymbols } from '../services/symbolService.js'
+import {
+  MAX_DECIMAL_VALUE,
+  QUANTITY_DECIMALS,
+  hasMaxDecimals,
+  isValidDateString
+} from '../utils/validation.js'
+import { round4 } from '../utils/number.js'
+
+function toOptionalNumber (value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : undefined
+}
+
+type TransactionInput = Omit<PortfolioTransactionPayload, 'portfolioId'>
+
+function parseTransactionBody (body: Record<string, unknown> | undefined): { data: TransactionInput } | { error: string } {
+  const type = String(body?.type ?? '').trim().toUpperCase() as PortfolioTransactionType
+  if (!PORTFOLIO_TRANSACTION_TYPES.includes(type)) {
+    return { error: `type must be one of ${PORTFOLIO_TRANSACTION_TYPES.join(', ')}` }
+  }
+
+  const symbol = typeof body?.symbol === 'string' && body.symbol.trim() !== ''
+    ? body.symbol.trim().toUpperCase()
+    : null
+  if (!symbol && type !== 'FEE') {
+    return { error: 'symbol is required' }
+  }
+
+  const tradeDate = typeof body?.tradeDate === 'string' ? body.tradeDate.trim() : ''
+  if (!isValidDateString(tradeDate)) {
+    return { error: 'tradeDate must be a date in YYYY-MM-DD format' }
+  }
+
+  const quantity = toOptionalNumber(body?.quantity)
+  const price = toOptionalNumber(body?.price)
+  const amount = toOptionalNumber(body?.amount)
+  const fee = toOptionalNumber(body?.fee)
+  const splitRatio = toOptionalNumber(body?.splitRatio)
+
+  if (quantity === undefined || price === undefined || amount === undefined || fee === undefined || splitRatio === undefined) {
+    return { error: 'quantity, price, amount, fee and splitRatio must be numbers' }
+  }
+
+  if (fee != null && fee < 0) {
+    return { error: 'fee must not be negative' }
+  }
+
+  if (type === 'BUY' || type === 'SELL') {
+    if (quantity == null || quantity <= 0) return { error: 'quantity must be greater than 0' }
+    if (quantity >= MAX_DECIMAL_VALUE) return { error: `quantity must be less than ${MAX_DECIMAL_VALUE}` }
+    if (price == null || price < 0) return { error: 'price is required and must not be negative' }
+    if (price >= MAX_DECIMAL_VALUE) return { error: `price must be less than ${MAX_DECIMAL_VALUE}` }
+    if (!hasMaxDecimals(quantity, QUANTITY_DECIMALS) || !hasMaxDecimals(price, QUANTITY_DECIMALS)) {
+      return { error: `quantity and price support at most ${QUANTITY_DECIMALS} decimal places` }
+    }
+  }
+
+  if ((type === 'DIVIDEND' || type === 'FEE') && (amount == null || amount <= 0)) {
+    return { error: 'amount must be greater than 0' }
+  }
+
+  if (type === 'SPLIT' && (splitRatio == null || splitRatio <= 0)) {
+    return { error: 'splitRatio must be greater than 0' }
+  }
+
+  const note = typeof body?.note === 'string' && body.note.trim() !== '' ? body.note.trim() : null
+
+  return {
+    data: {
+      symbol,
+      type,
+      tradeDate,
+      quantity: type === 'BUY' || type === 'SELL' ? quantity : null,
+      price: type === 'BUY' || type === 'SELL' ? price : null,
+      amount: type === 'DIVIDEND' || type === 'FEE' ? amount : null,
+      fee: fee ?? 0,
+      splitRatio: type === 'SPLIT' ? splitRatio : null,
+      note
+    }
+  }
+}
+
+export async function getTransactions (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const symbol = (req.query.symbol as string | undefined)?.trim().toUpperCase() || undefined
+  const portfolioId = (req.query.portfolioId as string | undefined) || undefined
+
+  try {
+    if (portfolioId && !(await getPortfolio(req.user.uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    const transactions = await listTransactionsForUser(req.user.uid, { symbol, portfolioId })
+    res.json({ transactions })
+  } catch (error) {
+    console.error('Error fetching portfolio transactions:', error)
+    res.status(500).json({ error: 'Failed to fetch portfolio transactions' })
+  }
+}
+
+export async function createTransaction (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const parsed = parseTransactionBody(req.body as Record<string, unknown> | undefined)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  const uid = req.user.uid
+
+  try {
+    const resolved = await resolvePortfolioId(uid, (req.body as Record<string, unknown> | undefined)?.portfolioId)
+    if ('error' in resolved) {
+      res.status(404).json({ error: resolved.error })
+      return
+    }
+    const { portfolioId } = resolved
+
+    const data: PortfolioTransactionPayload = { ...parsed.data, portfolioId }
+
+    if (data.symbol && !(await checkSymbols([data.symbol], res))) return
+
+    if (data.type === 'SELL') {
+      // Shares can only be sold from the portfolio that holds them, and the
+      // sale must not leave a later sell without enough shares
+      const sell: LedgerEntry = {
+        id: null,
+        uid,
+        portfolioId,
+        symbol: data.symbol,
+        type: 'SELL',
+        tradeDate: data.tradeDate,
+        quantity: data.quantity!,
+        price: data.price ?? 0,
+        amount: 0,
+        fee: data.fee,
+        splitRatio: null,
+        dividendPerShare: null,
+        marketSplit: false
+      }
+      const entries = filterEntriesByPortfolio((await loadLedgerEntries([uid], [sell])).get(uid) ?? [], portfolioId)
+      const shortfall = findSellShortfall(entries.filter((e) => e !== sell), entries)
+      if (shortfall) {
+        res.status(400).json({
+          error: shortfall.entry === sell
+            ? `Cannot sell ${data.quantity} ${data.symbol}: only ${shortfall.held} held on ${data.tradeDate}`
+            : `Cannot sell ${data.quantity} ${data.symbol} on ${data.tradeDate}: the sale of ${shortfall.entry.quantity} on ${shortfall.entry.tradeDate} would then exceed the ${shortfall.held} held`
+        })
+        return
+      }
+    }
+
+    const transaction = await insertTransaction(uid, data)
+    await deleteResumesForUserFromDate(uid, transaction.tradeDate)
+
+    res.status(201).json({ transaction })
+  } catch (error) {
+    console.error('Error creating portfolio transaction:', error)
+    res.status(500).json({ error: 'Failed to create portfolio transaction' })
+  }
+}
+
+export async function deleteTransactionById (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const id = req.params.id
+  if (!id) {
+    res.status(400).json({ error: 'id is required' })
+    return
+  }
+
+  try {
+    const existing = await getTransaction(req.user.uid, id)
+    if (!existing) {
+      res.status(404).json({ error: 'Transaction not found' })
+      return
+    }
+
+    // Removing a buy or a split must not leave a later sell short
+    const shortfall = await findRemovalShortfall(req.user.uid, existing.portfolioId, id)
+    if (shortfall) {
+      res.status(409).json({
+        error: `Cannot delete the transaction: the sale of ${shortfall.entry.quantity} ${shortfall.entry.symbol} on ${shortfall.entry.tradeDate} would then exceed the ${shortfall.held} held`
+      })
+      return
+    }
+
+    const deleted = await deleteTransaction(req.user.uid, id)
+    if (!deleted) {
+      res.status(404).json({ error: 'Transaction not found' })
+      return
+    }
+
+    await deleteResumesForUserFromDate(req.user.uid, deleted.tradeDate)
+
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting portfolio transaction:', error)
+    res.status(500).json({ error: 'Failed to delete portfolio transaction' })
+  }
+}
+
+export async function getPositions (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
+
+  try {
+    if (portfolioId && !(await getPortfolio(req.user.uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    const { method, positions } = await loadCurrentPositions(req.user.uid, portfolioId)
+    const prices = await getMarketPrices(positions.filter((p) => p.quantity > 0).map((p) => p.symbol))
+
+    res.json({
+      portfolioId,
+      costBasisMethod: method,
+      positions: positions.map((p) => summarizePosition(p, prices.get(p.symbol) ?? null))
+    })
+  } catch (error) {
+    console.error('Error fetching portfolio positions:', error)
+    res.status(500).json({ error: 'Failed to fetch portfolio positions' })
+  }
+}
+
+export async function getPositionBySymbol (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const symbol = req.params.symbol?.trim().toUpperCase()
+  if (!symbol) {
+    res.status(400).json({ error: 'symbol is required' })
+    return
+  }
+
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
+
+  try {
+    if (portfolioId && !(await getPortfolio(req.user.uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    const { method, positions } = await loadCurrentPositions(req.user.uid, portfolioId)
+    const position = positions.find((p) => p.symbol === symbol)
+    if (!position) {
+      res.status(404).json({ error: 'Position not found' })
+      return
+    }
+
+    const prices = position.quantity > 0 ? await getMarketPrices([symbol]) : new Map<string, MarketPrice>()
+
+    res.json({
+      portfolioId,
+      costBasisMethod: method,
+      position: summarizePosition(position, prices.get(symbol) ?? null),
+      lots: position.lots.map((lot) => ({
+        tradeDate: lot.tradeDate,
+        quantity: lot.quantity,
+        unitCost: round4(lot.unitCost),
+        costBasis: round4(lot.quantity * lot.unitCost)
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching portfolio position:', error)
+    res.status(500).json({ error: 'Failed to fetch portfolio position' })
+  }
+}
+
+export async function getAllocation (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
+
+  try {
+    if (portfolioId && !(await getPortfolio(req.user.uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    const allocation = await computeAllocation(req.user.uid, portfolioId)
+    res.json({ portfolioId, ...allocation })
+  } catch (error) {
+    console.error('Error computing portfolio allocation:', error)
+    res.status(500).json({ error: 'Failed to compute portfolio allocation' })
+  }
+}
@@ -0,0 +1,146 @@
+import type { Response } from 'express'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import {
+  createPortfolio,
+  deletePortfolio,
+  ensureDefaultPortfolio,
+  getPortfolio,
+  listPortfolios,
+  renamePortfolio
+} from '../repositories/portfolioRepository.js'
+import { deleteResumesForUserFromDate } from '../repositories/userDailyStockResumeRepository.js'
+
+const MAX_PORTFOLIO_NAME_LENGTH = 100
+
+/** Postgres unique_violation: the user already has a portfolio with that name */
+function isDuplicateNameError (error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505'
+}
+
+function parsePortfolioName (body: { name?: unknown } | undefined): { name: string } | { error: string } {
+  const name = typeof body?.name === 'string' ? body.name.trim() : ''
+  if (!name) return { error: 'name is required' }
+  if (name.length > MAX_PORTFOLIO_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_PORTFOLIO_NAME_LENGTH} characters` }
+  }
+  return { name }
+}
+
+export async function getPortfolios (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  try {
+    if (!(await ensureDefaultPortfolio(req.user.uid))) {
+      res.status(404).json({ error: 'Profile not found' })
+      return
+    }
+    const portfolios = await listPortfolios(req.user.uid)
+    res.json({ portfolios })
+  } catch (error) {
+    console.error('Error fetching portfolios:', error)
+    res.status(500).json({ error: 'Failed to fetch portfolios' })
+  }
+}
+
+export async function createPortfolioForUser (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const parsed = parsePortfolioName(req.body as { name?: unknown } | undefined)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  try {
+    const portfolio = await createPortfolio(req.user.uid, parsed.name)
+    res.status(201).json({ portfolio })
+  } catch (error) {
+    if (isDuplicateNameError(error)) {
+      res.status(409).json({ error: 'A portfolio with this name already exists' })
+      return
+    }
+    console.error('Error creating portfolio:', error)
+    res.status(500).json({ error: 'Failed to create portfolio' })
+  }
+}
+
+export async function updatePortfolio (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const id = req.params.id
+  if (!id) {
+    res.status(400).json({ error: 'id is required' })
+    return
+  }
+
+  const parsed = parsePortfolioName(req.body as { name?: unknown } | undefined)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  try {
+    const portfolio = await renamePortfolio(req.user.uid, id, parsed.name)
+    if (!portfolio) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    res.json({ portfolio })
+  } catch (error) {
+    if (isDuplicateNameError(error)) {
+      res.status(409).json({ error: 'A portfolio with this name already exists' })
+      return
+    }
+    console.error('Error updating portfolio:', error)
+    res.status(500).json({ error: 'Failed to update portfolio' })
+  }
+}
+
+export async function deletePortfolioById (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const id = req.params.id
+  if (!id) {
+    res.status(400).json({ error: 'id is required' })
+    return
+  }
+
+  const uid = req.user.uid
+
+  try {
+    const portfolio = await getPortfolio(uid, id)
+    if (!portfolio) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
+    // New lots and transactions without a portfolio id land in the default one
+    if (portfolio.isDefault) {
+      res.status(400).json({ error: 'The default portfolio cannot be deleted' })
+      return
+    }
+
+    await deletePortfolio(uid, id)
+
+    // The portfolio's own resumes cascade; the aggregate no longer matches
+    await deleteResumesForUserFromDate(uid, null)
+
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting portfolio:', error)
+    res.status(500).json({ error: 'Failed to delete portfolio' })
+  }
+}
@@ -1,43 +1,21 @@
 import type { Response } from 'express'
 import type { AuthenticatedRequest } from '../middleware/auth.js'
 import sql from '../config/database.js'
-import UserStock from '../models/userStocks.js'
-
-function mapRowToUserStock (row: any): UserStock {
-  return {
-    id: row.id,
-    uid: row.uid,
-    symbol: row.symbol,
-    quantity: row.quantity,
-    purchasePrice: row.purchase_price ?? null,
-    purchaseDate: row.purchase_date ?? null,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at
-  }
-}
-
-let isUserStocksTableInitialized = false
-
-async function ensureUserStocksTable () {
-  if (isUserStocksTableInitialized) return
-
-  await sql`CREATE EXTENSION IF NOT EXISTS pgcrypto`
-
-  await sql`
-    CREATE TABLE IF NOT EXISTS user_stocks (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      uid TEXT NOT NULL REFERENCES user_profiles(uid) ON DELETE CASCADE,
-      symbol TEXT NOT NULL,
-      quantity INTEGER NOT NULL CHECK (quantity >= 0),
-      purchase_price NUMERIC(10, 2),
-      purchase_date DATE,
-      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
-    )
-  `
-
-  isUserStocksTableInitialized = true
-}
+import { transaction } from '../utils/db.js'
+import { deleteResumesForUserFromDate } from '../repositories/userDailyStockResumeRepository.js'
+import { mapRowToUserStock } from '../repositories/userStocksRepository.js'
+import { getPortfolio, resolvePortfolioId } from '../repositories/portfolioRepository.js'
+import { getSymbols } from '../repositories/symbolRepository.js'
+import { checkSymbols } from '../services/symbolService.js'
+import { findRemovalShortfall } from '../services/ledgerService.js'
+import type { SymbolInfo } from '../models/symbol.js'
+import {
+  MAX_DECIMAL_VALUE,
+  QUANTITY_DECIMALS,
+  hasMaxDecimals,
+  isUuid,
+  isValidDateString
+} from '../utils/validation.js'
 
 export async function getUserStocks (req: AuthenticatedRequest, res: Response): Promise<void> {
   if (!req.user?.uid) {
@@ -45,66 +23,160 @@ export async function getUserStocks (req: AuthenticatedRequest, res: Response):
     return
   }
 
-  await ensureUserStocksTable()
+  // Without a portfolio id, lots of every portfolio are listed
+  const portfolioId = (req.query.portfolioId as string | undefined) || null
 
   try {
+    if (portfolioId && !(await getPortfolio(req.user.uid, portfolioId))) {
+      res.status(404).json({ error: 'Portfolio not found' })
+      return
+    }
+
     const rows = await sql`
       SELECT *
       FROM user_stocks
       WHERE uid = ${req.user.uid}
+        ${portfolioId ? sql`AND portfolio_id = ${portfolioId}` : sql``}
       ORDER BY created_at DESC
     `
 
-    res.json({ stocks: rows.map(mapRowToUserStock) })
+    const stocks = rows.map(mapRowToUserStock)
+    const symbols = await getSymbols([...new Set(stocks.map((s) => s.symbol))])
+
+    res.json({
+      stocks: stocks.map((stock) => ({
+        ...stock,
+        symbolInfo: toSymbolMetadata(symbols.get(stock.symbol))
+      }))
+    })
   } catch (error) {
     console.error('Error fetching user stocks:', error)
     res.status(500).json({ error: 'Failed to fetch user stocks' })
   }
 }
 
-export async function createUserStock (req: AuthenticatedRequest, res: Response): Promise<void> {
-  if (!req.user?.uid) {
-    res.status(401).json({ error: 'Unauthorized' })
-    return
+function toSymbolMetadata (info: SymbolInfo | undefined) {
+  if (!info) return null
+  return {
+    name: info.name,
+    exchange: info.exchange,
+    currency: info.currency,
+    quoteType: info.quoteType
   }
+}
 
-  await ensureUserStocksTable()
+interface UserStockInput {
+  portfolioId?: string
+  symbol?: string
+  quantity?: number
+  purchasePrice?: number | null
+  purchaseDate?: string | null
+}
+
+/**
+ * Validate a lot body. With `partial`, fields that are absent are left out of
+ * the result instead of being required; an explicit null clears purchasePrice
+ * or purchaseDate.
+ */
+function parseUserStockBody (body: UserStockInput | undefined, partial: boolean): { data: UserStockInput } | { error: string } {
+  const data: UserStockInput = {}
+
+  if (body?.portfolioId !== undefined && body.portfolioId !== null) {
+    if (typeof body.portfolioId !== 'string') return { error: 'portfolioId must be a string' }
+    data.portfolioId = body.portfolioId
+  }
 
-  const body = req.body as {
-    symbol?: string
-    quantity?: number
-    purchasePrice?: number | null
-    purchaseDate?: string | null
+  if (!partial || body?.symbol !== undefined) {
+    const symbol = body?.symbol?.trim()?.toUpperCase()
+    if (!symbol) return { error: 'symbol is required' }
+    data.symbol = symbol
   }
 
-  const symbol = body?.symbol?.trim()?.toUpperCase()
-  const quantity = body?.quantity
-  const purchasePrice = body?.purchasePrice ?? null
-  const purchaseDate = body?.purchaseDate ?? null
+  if (!partial || body?.quantity !== undefined) {
+    const quantity = body?.quantity
+    if (quantity === undefined || quantity === null || Number.isNaN(Number(quantity))) {
+      return { error: 'quantity is required' }
+    }
 
-  if (!symbol) {
-    res.status(400).json({ error: 'symbol is required' })
-    return
+    const safeQuantity = Number(quantity)
+    if (!Number.isFinite(safeQuantity) || safeQuantity < 0) {
+      return { error: 'quantity must be a non-negative number' }
+    }
+    if (safeQuantity >= MAX_DECIMAL_VALUE) {
+      return { error: `quantity must be less than ${MAX_DECIMAL_VALUE}` }
+    }
+
+    if (!hasMaxDecimals(safeQuantity, QUANTITY_DECIMALS)) {
+      return { error: `quantity supports at most ${QUANTITY_DECIMALS} decimal places` }
+    }
+    data.quantity = safeQuantity
+  }
+
+  if (!partial || body?.purchasePrice !== undefined) {
+    const purchasePrice = body?.purchasePrice ?? null
+    const safePurchasePrice = purchasePrice != null ? Number(purchasePrice) : null
+    if (safePurchasePrice != null && (!Number.isFinite(safePurchasePrice) || safePurchasePrice < 0)) {
+      return { error: 'purchasePrice must be a non-negative number' }
+    }
+    if (safePurchasePrice != null && safePurchasePrice >= MAX_DECIMAL_VALUE) {
+      return { error: `purchasePrice must be less than ${MAX_DECIMAL_VALUE}` }
+    }
+
+    if (safePurchasePrice != null && !hasMaxDecimals(safePurchasePrice, QUANTITY_DECIMALS)) {
+      return { error: `purchasePrice supports at most ${QUANTITY_DECIMALS} decimal places` }
+    }
+    data.purchasePrice = safePurchasePrice
+  }
+
+  if (!partial || body?.purchaseDate !== undefined) {
+    const purchaseDate = body?.purchaseDate ?? null
+    if (purchaseDate != null && !isValidDateString(purchaseDate)) {
+      return { error: 'purchaseDate must be a date in YYYY-MM-DD format' }
+    }
+    data.purchaseDate = purchaseDate
   }
 
-  if (quantity === undefined || quantity === null || Number.isNaN(Number(quantity))) {
-    res.status(400).json({ error: 'quantity is required' })
+  return { data }
+}
+
+function toDateString (value: Date | string | null): string | null {
+  if (value == null) return null
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value)
+}
+
+export async function createUserStock (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
     return
   }
 
-  const safeQuantity = Number(quantity)
-  if (!Number.isFinite(safeQuantity) || safeQuantity < 0) {
-    res.status(400).json({ error: 'quantity must be a number over 1' })
+  const parsed = parseUserStockBody(req.body as UserStockInput | undefined, false)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
     return
   }
 
+  const { symbol, quantity, purchasePrice, purchaseDate } = parsed.data
+
   try {
+    const resolved = await resolvePortfolioId(req.user.uid, parsed.data.portfolioId)
+    if ('error' in resolved) {
+      res.status(404).json({ error: resolved.error })
+      return
+    }
+    const { portfolioId } = resolved
+
+    if (!(await checkSymbols([symbol!], res))) return
+
     const rows = await sql`
-      INSERT INTO user_stocks (uid, symbol, quantity, purchase_price, purchase_date)
-      VALUES (${req.user.uid}, ${symbol}, ${safeQuantity}, ${purchasePrice}, ${purchaseDate})
+      INSERT INTO user_stocks (uid, portfolio_id, symbol, quantity, purchase_price, purchase_date)
+      VALUES (${req.user.uid}, ${portfolioId}, ${symbol!}, ${quantity!}, ${purchasePrice ?? null}, ${purchaseDate ?? null})
       RETURNING *
     `
 
+    // A back-dated lot changes history from its purchase date; an undated one every date
+    await deleteResumesForUserFromDate(req.user.uid, purchaseDate ?? null)
+
     res.status(201).json({ stock: mapRowToUserStock(rows[0]) })
   } catch (error) {
     console.error('Error creating user stock:', error)
@@ -112,31 +184,140 @@ export async function createUserStock (req: AuthenticatedRequest, res: Response)
   }
 }
 
-export async function deleteUserStock (req: AuthenticatedRequest, res: Response): Promise<void> {
+export async function updateUserStock (req: AuthenticatedRequest, res: Response): Promise<void> {
   if (!req.user?.uid) {
     res.status(401).json({ error: 'Unauthorized' })
     return
   }
 
-  await ensureUserStocksTable()
+  const id = req.params.id
+  if (!id) {
+    res.status(400).json({ error: 'id is required' })
+    return
+  }
+  if (!isUuid(id)) {
+    res.status(404).json({ error: 'Stock not found' })
+    return
+  }
+
+  const parsed = parseUserStockBody(req.body as UserStockInput | undefined, true)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  const updates: Record<string, string | number | null> = {}
+  if (parsed.data.symbol !== undefined) updates.symbol = parsed.data.symbol
+  if (parsed.data.quantity !== undefined) updates.quantity = parsed.data.quantity
+  if (parsed.data.purchasePrice !== undefined) updates.purchase_price = parsed.data.purchasePrice
+  if (parsed.data.purchaseDate !== undefined) updates.purchase_date = parsed.data.purchaseDate
+
+  const uid = req.user.uid
+
+  try {
+    // Moving a lot to another portfolio: the target must belong to the user
+    if (parsed.data.portfolioId !== undefined) {
+      if (!(await getPortfolio(uid, parsed.data.portfolioId))) {
+        res.status(404).json({ error: 'Portfolio not found' })
+        return
+      }
+      updates.portfolio_id = parsed.data.portfolioId
+    }
+
+    if (Object.keys(updates).length === 0) {
+      res.status(400).json({ error: 'No fields to update' })
+      return
+    }
+
+    if (parsed.data.symbol !== undefined && !(await checkSymbols([parsed.data.symbol], res))) return
+
+    const result = await transaction(async (txSql) => {
+      const existing = await txSql`
+        SELECT purchase_date
+        FROM user_stocks
+        WHERE id = ${id} AND uid = ${uid}
+        FOR UPDATE
+      `
+      if (existing.length === 0) return null
+
+      const rows = await txSql`
+        UPDATE user_stocks
+        SET ${txSql(updates)}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${id} AND uid = ${uid}
+        RETURNING *
+      `
+      return { previousPurchaseDate: toDateString(existing[0].purchase_date), row: rows[0] }
+    })
+
+    if (!result) {
+      res.status(404).json({ error: 'Stock not found' })
+      return
+    }
+
+    // History from the earlier of the old and new purchase date is stale;
+    // an undated lot counts on every date, so everything is
+    const newPurchaseDate = toDateString(result.row.purchase_date)
+    const invalidateFrom = result.previousPurchaseDate == null || newPurchaseDate == null
+      ? null
+      : (result.previousPurchaseDate < newPurchaseDate ? result.previousPurchaseDate : newPurchaseDate)
+    await deleteResumesForUserFromDate(uid, invalidateFrom)
+
+    res.json({ stock: mapRowToUserStock(result.row) })
+  } catch (error) {
+    console.error('Error updating user stock:', error)
+    res.status(500).json({ error: 'Failed to update user stock' })
+  }
+}
+
+export async function deleteUserStock (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
 
   const id = req.params.id
   if (!id) {
     res.status(400).json({ error: 'id is required' })
     return
   }
+  if (!isUuid(id)) {
+    res.status(404).json({ error: 'Stock not found' })
+    return
+  }
 
   try {
-    const result = await sql`
+    const existing = await sql`
+      SELECT portfolio_id
+      FROM user_stocks
+      WHERE id = ${id} AND uid = ${req.user.uid}
+    `
+    if (existing.length === 0) {
+      res.status(404).json({ error: 'Stock not found' })
+      return
+    }
+
+    // A lot is a buy in the ledger: later sells may depend on it
+    const shortfall = await findRemovalShortfall(req.user.uid, existing[0].portfolio_id as string | null, id)
+    if (shortfall) {
+      res.status(409).json({
+        error: `Cannot delete the lot: the sale of ${shortfall.entry.quantity} ${shortfall.entry.symbol} on ${shortfall.entry.tradeDate} would then exceed the ${shortfall.held} held`
+      })
+      return
+    }
+
+    const rows = await sql`
       DELETE FROM user_stocks
       WHERE id = ${id} AND uid = ${req.user.uid}
+      RETURNING purchase_date
     `
 
-    if (result.count === 0) {
+    if (rows.length === 0) {
       res.status(404).json({ error: 'Stock not found' })
       return
     }
 
+    await deleteResumesForUserFromDate(req.user.uid, toDateString(rows[0].purchase_date))
+
     res.status(204).send()
   } catch (error) {
     console.error('Error deleting user stock:', error)
@@ -1,36 +1,29 @@
 import type { Response } from 'express'
 import type { AuthenticatedRequest } from '../middleware/auth.js'
 import sql from '../config/database.js'
-import { UserProfile } from '../models/user.js'
-
-
-function mapRowToUserProfile (row: any): UserProfile {
-  return {
-    uid: row.uid,
-    email: row.email,
-    displayName: row?.display_name,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at
+import { MAX_BENCHMARK_SYMBOLS, UserProfile } from '../models/user.js'
+import {
+  isCostBasisMethod,
+  mapRowToUserProfile
+} from '../repositories/userProfileRepository.js'
+import { deleteResumesForUserFromDate } from '../repositories/userDailyStockResumeRepository.js'
+import { isCurrencyCode } from '../services/fxService.js'
+import { resolveSymbols } from '../services/symbolService.js'
+import { deleteAccount, exportAccount } from '../services/accountService.js'
+import { getTodayDateString } from '../services/portfolioResumeService.js'
+
+/** Uppercased, de-duplicated benchmark symbols, or an error message */
+function parseBenchmarkSymbols (value: unknown): { symbols: string[] } | { error: string } {
+  if (!Array.isArray(value) || value.some((s) => typeof s !== 'string' || s.trim() === '')) {
+    return { error: 'benchmarkSymbols must be an array of symbols' }
+  }
+  const symbols = [...new Set(value.map((s: string) => s.trim().toUpperCase()))]
+  if (symbols.length > MAX_BENCHMARK_SYMBOLS) {
+    return { error: `benchmarkSymbols supports at most ${MAX_BENCHMARK_SYMBOLS} symbols` }
   }
+  return { symbols }
 }
 
-let isUserTableInitialized = false
-
-async function ensureUserProfilesTable () {
-  if (isUserTableInitialized) return
-
-  await sql`
-    CREATE TABLE IF NOT EXISTS user_profiles (
-      uid TEXT PRIMARY KEY,
-      email TEXT,
-      display_name TEXT,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    )
-  `
-
-  isUserTableInitialized = true
-}
 
 export async function getCurrentUser (
   req: AuthenticatedRequest,
@@ -41,8 +34,6 @@ export async function getCurrentUser (
     return
   }
 
-  await ensureUserProfilesTable()
-
   try {
     const rows = await sql`
       SELECT *
@@ -71,8 +62,6 @@ export async function createUser (
     return
   }
 
-  await ensureUserProfilesTable()
-
   // All data comes from Firebase token
   const email = req.user.email ?? null
   const displayName = req.user.displayName ?? null
@@ -109,23 +98,61 @@ export async function updateUser (
     return
   }
 
-  await ensureUserProfilesTable()
-
-  const { name, email } = req.body as { name?: string, email?: string }
+  const { name, email, costBasisMethod, baseCurrency, benchmarkSymbols } = req.body as {
+    name?: string
+    email?: string
+    costBasisMethod?: string
+    baseCurrency?: string
+    benchmarkSymbols?: unknown
+  }
   const safeEmail = email ?? null
   const safeName = name ?? null
+  const safeCostBasisMethod = costBasisMethod?.trim().toUpperCase() ?? null
+  const safeBaseCurrency = baseCurrency?.trim().toUpperCase() ?? null
 
-  if (!name && !email) {
+  if (!name && !email && !costBasisMethod && !baseCurrency && benchmarkSymbols === undefined) {
     res.status(400).json({ error: 'No fields to update' })
     return
   }
 
+  if (safeCostBasisMethod != null && !isCostBasisMethod(safeCostBasisMethod)) {
+    res.status(400).json({ error: 'costBasisMethod must be one of FIFO, LIFO, AVERAGE' })
+    return
+  }
+
+  if (safeBaseCurrency != null && !isCurrencyCode(safeBaseCurrency)) {
+    res.status(400).json({ error: 'baseCurrency must be a 3-letter ISO currency code' })
+    return
+  }
+
+  let safeBenchmarkSymbols: string[] | null = null
+  if (benchmarkSymbols !== undefined) {
+    const parsed = parseBenchmarkSymbols(benchmarkSymbols)
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error })
+      return
+    }
+    safeBenchmarkSymbols = parsed.symbols
+  }
+
   try {
+    if (safeBenchmarkSymbols != null && safeBenchmarkSymbols.length > 0) {
+      const known = await resolveSymbols(safeBenchmarkSymbols)
+      const unknown = safeBenchmarkSymbols.filter((s) => !known.has(s))
+      if (unknown.length > 0) {
+        res.status(400).json({ error: `Unknown symbol: ${unknown.join(', ')}` })
+        return
+      }
+    }
+
     const rows = await sql`
       UPDATE user_profiles
       SET
         email = COALESCE(${safeEmail}, email),
         display_name = COALESCE(${safeName}, display_name),
+        cost_basis_method = COALESCE(${safeCostBasisMethod}, cost_basis_method),
+        base_currency = COALESCE(${safeBaseCurrency}, base_currency),
+        benchmark_symbols = COALESCE(${safeBenchmarkSymbols}::text[], benchmark_symbols),
         updated_at = CURRENT_TIMESTAMP
       WHERE uid = ${req.user.uid}
       RETURNING *
@@ -136,6 +163,11 @@ export async function updateUser (
       return
     }
 
+    // Every stored day depends on the lot matching method and the base currency
+    if (safeCostBasisMethod != null || safeBaseCurrency != null) {
+      await deleteResumesForUserFromDate(req.user.uid, null)
+    }
+
     res.json(mapRowToUserProfile(rows[0]))
   } catch (error) {
     console.error('Error updating user profile:', error)
@@ -143,6 +175,41 @@ export async function updateUser (
   }
 }
 
+/**
+ * Download everything stored about the user (profile and preferences,
+ * portfolios, lots, transactions, resumes, watchlists, alerts and
+ * notifications) as one JSON archive.
+ */
+export async function getCurrentUserExport (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  try {
+    const archive = await exportAccount(req.user.uid)
+    if (!archive) {
+      res.status(404).json({ error: 'User not found' })
+      return
+    }
+
+    res.setHeader('Content-Disposition', `attachment; filename="account-export-${getTodayDateString()}.json"`)
+    res.setHeader('Cache-Control', 'no-store')
+    res.json(archive)
+  } catch (error) {
+    console.error('Error exporting user data:', error)
+    res.status(500).json({ error: 'Failed to export user data' })
+  }
+}
+
+/**
+ * Erase the user's data, and with `?deleteAuthUser=true` the Firebase
+ * account too. Responds with the audit record of the deletion, whose status
+ * is PARTIAL when the Firebase deletion failed after the data erasure.
+ */
 export async function deleteUser (
   req: AuthenticatedRequest,
   res: Response
@@ -152,24 +219,18 @@ export async function deleteUser (
     return
   }
 
-  await ensureUserProfilesTable()
+  const deleteAuthUser = req.query.deleteAuthUser === 'true'
 
   try {
-    const result = await sql`
-      DELETE FROM user_profiles
-      WHERE uid = ${req.user.uid}
-    `
-
-    if (result.count === 0) {
+    const deletion = await deleteAccount(req.user.uid, { deleteAuthUser })
+    if (!deletion) {
       res.status(404).json({ error: 'User not found' })
       return
     }
 
-    res.status(204).send()
+    res.json({ deletion })
   } catch (error) {
     console.error('Error deleting user profile:', error)
     res.status(500).json({ error: 'Failed to delete user profile' })
   }
 }
-
-
@@ -0,0 +1,383 @@
+import type { Response } from 'express'
+import type { AuthenticatedRequest } from '../middleware/auth.js'
+import {
+  addWatchlistItem,
+  createWatchlist,
+  deleteWatchlist,
+  getWatchlist,
+  listWatchlists,
+  removeWatchlistItem,
+  renameWatchlist,
+  reorderWatchlistItems,
+  updateWatchlistItem
+} from '../repositories/watchlistRepository.js'
+import { getLatestQuotes } from '../services/quoteService.js'
+import { checkSymbols } from '../services/symbolService.js'
+import { MAX_DECIMAL_VALUE } from '../utils/validation.js'
+
+const MAX_WATCHLIST_NAME_LENGTH = 100
+const MAX_WATCHLISTS_PER_USER = 20
+const MAX_ITEMS_PER_WATCHLIST = 100
+
+/** Postgres unique_violation: duplicate watchlist name or symbol already on the list */
+function isUniqueViolation (error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505'
+}
+
+function parseWatchlistName (value: unknown): { name: string } | { error: string } {
+  const name = typeof value === 'string' ? value.trim() : ''
+  if (!name) return { error: 'name is required' }
+  if (name.length > MAX_WATCHLIST_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_WATCHLIST_NAME_LENGTH} characters` }
+  }
+  return { name }
+}
+
+function parseSymbol (value: unknown): string {
+  return typeof value === 'string' ? value.trim().toUpperCase() : ''
+}
+
+/** undefined when absent, null to clear, an error string when invalid */
+function parseTargetPrice (value: unknown): number | null | undefined | { error: string } {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  const price = Number(value)
+  if (!Number.isFinite(price) || price <= 0 || price >= MAX_DECIMAL_VALUE) {
+    return { error: 'targetPrice must be a positive number' }
+  }
+  return price
+}
+
+function parseNote (value: unknown): string | null {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null
+}
+
+export async function getWatchlists (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  try {
+    const watchlists = await listWatchlists(req.user.uid)
+    res.json({ watchlists })
+  } catch (error) {
+    console.error('Error fetching watchlists:', error)
+    res.status(500).json({ error: 'Failed to fetch watchlists' })
+  }
+}
+
+export async function getWatchlistById (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  try {
+    const watchlist = await getWatchlist(req.user.uid, req.params.id)
+    if (!watchlist) {
+      res.status(404).json({ error: 'Watchlist not found' })
+      return
+    }
+
+    res.json({ watchlist })
+  } catch (error) {
+    console.error('Error fetching watchlist:', error)
+    res.status(500).json({ error: 'Failed to fetch watchlist' })
+  }
+}
+
+/** Create a watchlist; an optional `symbols` array seeds it in that order */
+export async function createWatchlistForUser (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const body = req.body as { name?: unknown; symbols?: unknown } | undefined
+  const parsed = parseWatchlistName(body?.name)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  if (body?.symbols !== undefined && !Array.isArray(body.symbols)) {
+    res.status(400).json({ error: 'symbols must be an array' })
+    return
+  }
+  const symbols = [...new Set(((body?.symbols ?? []) as unknown[]).map(parseSymbol).filter((s) => s !== ''))]
+  if (symbols.length > MAX_ITEMS_PER_WATCHLIST) {
+    res.status(400).json({ error: `A watchlist can hold at most ${MAX_ITEMS_PER_WATCHLIST} symbols` })
+    return
+  }
+
+  const uid = req.user.uid
+
+  try {
+    if ((await listWatchlists(uid)).length >= MAX_WATCHLISTS_PER_USER) {
+      res.status(400).json({ error: `At most ${MAX_WATCHLISTS_PER_USER} watchlists are allowed` })
+      return
+    }
+
+    if (!(await checkSymbols(symbols, res))) return
+
+    const watchlist = await createWatchlist(uid, parsed.name, symbols)
+    res.status(201).json({ watchlist })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: 'A watchlist with this name already exists' })
+      return
+    }
+    console.error('Error creating watchlist:', error)
+    res.status(500).json({ error: 'Failed to create watchlist' })
+  }
+}
+
+export async function updateWatchlist (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const parsed = parseWatchlistName((req.body as { name?: unknown } | undefined)?.name)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  try {
+    const watchlist = await renameWatchlist(req.user.uid, req.params.id, parsed.name)
+    if (!watchlist) {
+      res.status(404).json({ error: 'Watchlist not found' })
+      return
+    }
+
+    res.json({ watchlist })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: 'A watchlist with this name already exists' })
+      return
+    }
+    console.error('Error updating watchlist:', error)
+    res.status(500).json({ error: 'Failed to update watchlist' })
+  }
+}
+
+export async function deleteWatchlistById (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  try {
+    if (!(await deleteWatchlist(req.user.uid, req.params.id))) {
+      res.status(404).json({ error: 'Watchlist not found' })
+      return
+    }
+
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting watchlist:', error)
+    res.status(500).json({ error: 'Failed to delete watchlist' })
+  }
+}
+
+/** Append a symbol to the end of the watchlist */
+export async function addWatchlistEntry (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const body = req.body as Record<string, unknown> | undefined
+  const symbol = parseSymbol(body?.symbol)
+  if (!symbol) {
+    res.status(400).json({ error: 'symbol is required' })
+    return
+  }
+
+  const targetPrice = parseTargetPrice(body?.targetPrice)
+  if (targetPrice != null && typeof targetPrice === 'object') {
+    res.status(400).json({ error: targetPrice.error })
+    return
+  }
+
+  try {
+    const watchlist = await getWatchlist(req.user.uid, req.params.id)
+    if (!watchlist) {
+      res.status(404).json({ error: 'Watchlist not found' })
+      return
+    }
+
+    if (watchlist.items.length >= MAX_ITEMS_PER_WATCHLIST) {
+      res.status(400).json({ error: `A watchlist can hold at most ${MAX_ITEMS_PER_WATCHLIST} symbols` })
+      return
+    }
+
+    if (!(await checkSymbols([symbol], res))) return
+
+    const item = await addWatchlistItem(watchlist.id, {
+      symbol,
+      targetPrice: targetPrice ?? null,
+      note: parseNote(body?.note)
+    })
+    res.status(201).json({ item })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      res.status(409).json({ error: `${symbol} is already on this watchlist` })
+      return
+    }
+    console.error('Error adding watchlist item:', error)
+    res.status(500).json({ error: 'Failed to add watchlist item' })
+  }
+}
+
+/** Change an entry's target price or note; null clears either */
+export async function updateWatchlistEntry (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const body = req.body as Record<string, unknown> | undefined
+  const updates: Partial<{ target_price: number | null; note: string | null }> = {}
+
+  const targetPrice = parseTargetPrice(body?.targetPrice)
+  if (targetPrice != null && typeof targetPrice === 'object') {
+    res.status(400).json({ error: targetPrice.error })
+    return
+  }
+  if (targetPrice !== undefined) updates.target_price = targetPrice
+
+  if (body?.note !== undefined) updates.note = parseNote(body.note)
+
+  if (Object.keys(updates).length === 0) {
+    res.status(400).json({ error: 'No fields to update' })
+    return
+  }
+
+  try {
+    const watchlist = await getWatchlist(req.user.uid, req.params.id)
+    if (!watchlist) {
+      res.status(404).json({ error: 'Watchlist not found' })
+      return
+    }
+
+    const item = await updateWatchlistItem(watchlist.id, req.params.itemId, updates)
+    if (!item) {
+      res.status(404).json({ error: 'Watchlist item not found' })
+      return
+    }
+
+    res.json({ item })
+  } catch (error) {
+    console.error('Error updating watchlist item:', error)
+    res.status(500).json({ error: 'Failed to update watchlist item' })
+  }
+}
+
+export async function deleteWatchlistEntry (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  try {
+    const watchlist = await getWatchlist(req.user.uid, req.params.id)
+    if (!watchlist) {
+      res.status(404).json({ error: 'Watchlist not found' })
+      return
+    }
+
+    if (!(await removeWatchlistItem(watchlist.id, req.params.itemId))) {
+      res.status(404).json({ error: 'Watchlist item not found' })
+      return
+    }
+
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting watchlist item:', error)
+    res.status(500).json({ error: 'Failed to delete watchlist item' })
+  }
+}
+
+/** Body: { itemIds: string[] } listing every item of the watchlist in the new order */
+export async function reorderWatchlist (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  const itemIds = (req.body as { itemIds?: unknown } | undefined)?.itemIds
+  if (!Array.isArray(itemIds) || itemIds.some((id) => typeof id !== 'string')) {
+    res.status(400).json({ error: 'itemIds must be an array of item ids' })
+    return
+  }
+
+  try {
+    const watchlist = await getWatchlist(req.user.uid, req.params.id)
+    if (!watchlist) {
+      res.status(404).json({ error: 'Watchlist not found' })
+      return
+    }
+
+    if (!(await reorderWatchlistItems(watchlist.id, itemIds as string[]))) {
+      res.status(400).json({ error: 'itemIds must list every item of the watchlist exactly once' })
+      return
+    }
+
+    res.json({ watchlist: await getWatchlist(req.user.uid, watchlist.id) })
+  } catch (error) {
+    console.error('Error reordering watchlist:', error)
+    res.status(500).json({ error: 'Failed to reorder watchlist' })
+  }
+}
+
+/**
+ * Live quotes for every entry, fetched in a single batch through the shared
+ * quote cache. `distanceToTargetPercent` is how far the price must move to
+ * reach the entry's target price.
+ */
+export async function getWatchlistQuotes (req: AuthenticatedRequest, res: Response): Promise<void> {
+  if (!req.user?.uid) {
+    res.status(401).json({ error: 'Unauthorized' })
+    return
+  }
+
+  try {
+    const watchlist = await getWatchlist(req.user.uid, req.params.id)
+    if (!watchlist) {
+      res.status(404).json({ error: 'Watchlist not found' })
+      return
+    }
+
+    const quotes = await getLatestQuotes(watchlist.items.map((item) => item.symbol))
+    const quoteBySymbol = new Map(quotes.map((q) => [q.symbol, q]))
+
+    const items = watchlist.items.map((item) => {
+      const quote = quoteBySymbol.get(item.symbol)
+      const price = quote?.regularMarketPrice
+      const distanceToTargetPercent = item.targetPrice != null && typeof price === 'number' && price > 0
+        ? ((item.targetPrice - price) / price) * 100
+        : null
+
+      return {
+        ...item,
+        quote: quote
+          ? {
+              currency: quote.currency ?? null,
+              regularMarketPrice: quote.regularMarketPrice ?? null,
+              regularMarketChange: quote.regularMarketChange ?? null,
+              regularMarketChangePercent: quote.regularMarketChangePercent ?? null
+            }
+          : null,
+        distanceToTargetPercent
+      }
+    })
+
+    res.json({ watchlistId: watchlist.id, name: watchlist.name, items })
+  } catch (error) {
+    console.error('Error fetching watchlist quotes:', error)
+    res.status(500).json({ error: 'Failed to fetch watchlist quotes' })
+  }
+}
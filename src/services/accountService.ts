@@ -0,0 +1,127 @@
+import { getAuth } from '../config/firebase.js'
+import type { AccountDeletion } from '../models/accountDeletion.js'
+import type { Notification } from '../models/notification.js'
+import type { Portfolio } from '../models/portfolio.js'
+import type { PortfolioTransaction } from '../models/portfolioTransaction.js'
+import type { PriceAlert } from '../models/priceAlert.js'
+import type { UserProfile } from '../models/user.js'
+import type { UserDailyStockResume } from '../models/userDailyStockResume.js'
+import type UserStock from '../models/userStocks.js'
+import type { WatchlistWithItems } from '../models/watchlist.js'
+import {
+  eraseUserRows,
+  finishAccountDeletion,
+  startAccountDeletion
+} from '../repositories/accountDeletionRepository.js'
+import { listNotificationsForUser } from '../repositories/notificationRepository.js'
+import { listPortfolios } from '../repositories/portfolioRepository.js'
+import { listTransactionsForUser } from '../repositories/portfolioTransactionRepository.js'
+import { listAlertsForUser } from '../repositories/priceAlertRepository.js'
+import { listResumesForUser } from '../repositories/userDailyStockResumeRepository.js'
+import { getUserProfile } from '../repositories/userProfileRepository.js'
+import { streamLots } from '../repositories/userStocksRepository.js'
+import { listWatchlists } from '../repositories/watchlistRepository.js'
+
+/** Bumped whenever the archive layout changes */
+const ACCOUNT_ARCHIVE_VERSION = 1
+
+/**
+ * Everything stored about a user. Preferences (cost basis method, base
+ * currency, benchmarks) are part of the profile.
+ */
+export interface AccountArchive {
+  version: number
+  exportedAt: string
+  profile: UserProfile
+  portfolios: Portfolio[]
+  lots: UserStock[]
+  transactions: PortfolioTransaction[]
+  resumes: UserDailyStockResume[]
+  watchlists: WatchlistWithItems[]
+  alerts: PriceAlert[]
+  notifications: Notification[]
+}
+
+/** Archive of the user's data, or null when the user has no profile */
+export async function exportAccount (uid: string): Promise<AccountArchive | null> {
+  const profile = await getUserProfile(uid)
+  if (!profile) return null
+
+  const lots: UserStock[] = []
+  for await (const batch of streamLots(uid, null)) lots.push(...batch)
+
+  return {
+    version: ACCOUNT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    portfolios: await listPortfolios(uid),
+    lots,
+    transactions: await listTransactionsForUser(uid),
+    resumes: await listResumesForUser(uid),
+    watchlists: await listWatchlists(uid),
+    alerts: await listAlertsForUser(uid),
+    notifications: await listNotificationsForUser(uid, { limit: null })
+  }
+}
+
+function getErrorMessage (err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+/** True once the Firebase user is gone, including when it already was */
+async function deleteAuthUser (uid: string): Promise<boolean> {
+  try {
+    await getAuth().deleteUser(uid)
+    return true
+  } catch (err) {
+    if ((err as { code?: string }).code === 'auth/user-not-found') return true
+    throw err
+  }
+}
+
+/**
+ * Erase the user's rows and, with `deleteAuthUser`, their Firebase account.
+ * Redis only holds shared market data (quotes, charts, search) and locks, no
+ * per-user keys, so there is no cache to purge. Every step is recorded in
+ * account_deletions. A failed row erasure rolls back, is recorded as FAILED
+ * and rethrown; a failed Firebase deletion leaves the deletion PARTIAL, as
+ * the data is already gone. Returns null when the user has no profile.
+ */
+export async function deleteAccount (
+  uid: string,
+  options: { deleteAuthUser: boolean }
+): Promise<AccountDeletion | null> {
+  if (!(await getUserProfile(uid))) return null
+
+  const deletion = await startAccountDeletion(uid, options.deleteAuthUser)
+
+  let erasedRows: Record<string, number>
+  try {
+    erasedRows = await eraseUserRows(uid)
+  } catch (err) {
+    await finishAccountDeletion(deletion.id, 'FAILED', {
+      erasedRows: null,
+      authUserDeleted: false,
+      error: getErrorMessage(err)
+    })
+    throw err
+  }
+
+  const errors: string[] = []
+
+  let authUserDeleted = false
+  if (options.deleteAuthUser) {
+    try {
+      authUserDeleted = await deleteAuthUser(uid)
+    } catch (err) {
+      console.error(`Failed to delete Firebase user ${uid}:`, err)
+      errors.push(`Firebase user deletion failed: ${getErrorMessage(err)}`)
+    }
+  }
+
+  return await finishAccountDeletion(deletion.id, errors.length > 0 ? 'PARTIAL' : 'COMPLETED', {
+    erasedRows,
+    authUserDeleted,
+    error: errors.length > 0 ? errors.join('; ') : null
+  })
+}
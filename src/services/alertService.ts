@@ -0,0 +1,230 @@
+import redisClient from '../config/redis.js'
+import {
+  isSymbolAlertCondition,
+  type PriceAlert
+} from '../models/priceAlert.js'
+import { DEFAULT_BASE_CURRENCY } from '../models/user.js'
+import { listActiveAlerts } from '../repositories/priceAlertRepository.js'
+import { recordAlertTrigger } from '../repositories/notificationRepository.js'
+import { getPortfolioSettings } from '../repositories/userProfileRepository.js'
+import {
+  computePositionsAsOf,
+  filterEntriesByPortfolio,
+  loadLedgerEntries,
+  type LedgerEntry
+} from './ledgerService.js'
+import { getLatestQuotes, type LatestQuote } from './quoteService.js'
+import { getFxRate, loadFxRates, normalizeCurrency } from './fxService.js'
+import { dispatchPendingNotifications } from './notificationService.js'
+import { formatDate } from '../utils/timezone.js'
+import { round4 } from '../utils/number.js'
+
+const DEFAULT_EVALUATION_INTERVAL_SECONDS = 300
+const EVALUATOR_LOCK_KEY = 'alerts:evaluator_lock'
+
+/** Symbols per quote request */
+const QUOTE_BATCH_SIZE = 50
+
+let evaluatorTimer: NodeJS.Timeout | null = null
+
+function getEvaluationIntervalSeconds (): number {
+  const fromEnv = parseInt(process.env.ALERT_EVALUATION_INTERVAL_SECONDS || '', 10)
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_EVALUATION_INTERVAL_SECONDS
+}
+
+/** Held for slightly less than an interval so only one replica evaluates per cycle */
+async function acquireEvaluatorLock (ttlSeconds: number): Promise<boolean> {
+  try {
+    const result = await redisClient.set(EVALUATOR_LOCK_KEY, '1', { NX: true, EX: ttlSeconds })
+    return result === 'OK'
+  } catch (error) {
+    console.warn('Failed to acquire alert evaluator lock:', error)
+    return false
+  }
+}
+
+async function loadQuotes (symbols: string[]): Promise<Map<string, LatestQuote>> {
+  const quotes = new Map<string, LatestQuote>()
+  const sorted = [...new Set(symbols)].sort()
+  for (let i = 0; i < sorted.length; i += QUOTE_BATCH_SIZE) {
+    const batch = sorted.slice(i, i + QUOTE_BATCH_SIZE)
+    try {
+      for (const q of await getLatestQuotes(batch)) quotes.set(q.symbol, q)
+    } catch (err) {
+      console.warn(`Could not fetch quotes for alerts (${batch.join(',')}):`, err)
+    }
+  }
+  return quotes
+}
+
+/**
+ * Day change of a portfolio (or the user's aggregate) in percent, from the
+ * open positions' current price and change since the previous close,
+ * converted into the user's base currency. Positions without an FX rate are
+ * left out. Null without priced positions.
+ */
+async function computePortfolioDayChanges (
+  alerts: PriceAlert[],
+  entriesByUid: Map<string, LedgerEntry[]>,
+  quotes: Map<string, LatestQuote>
+): Promise<Map<string, number | null>> {
+  const changes = new Map<string, number | null>()
+  if (alerts.length === 0) return changes
+
+  const uids = [...new Set(alerts.map((a) => a.uid))]
+  const settings = await getPortfolioSettings(uids)
+  const todayStr = formatDate(new Date())
+
+  const pairs: Array<{ from: string; to: string }> = []
+  for (const q of quotes.values()) {
+    const { currency } = normalizeCurrency(q.currency)
+    for (const uid of uids) {
+      const baseCurrency = settings.get(uid)?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+      if (currency !== baseCurrency) pairs.push({ from: currency, to: baseCurrency })
+    }
+  }
+  const fxRates = await loadFxRates(pairs, todayStr, todayStr)
+
+  for (const alert of alerts) {
+    const key = `${alert.uid}|${alert.portfolioId ?? ''}`
+    if (changes.has(key)) continue
+
+    const entries = filterEntriesByPortfolio(entriesByUid.get(alert.uid) ?? [], alert.portfolioId)
+    const baseCurrency = settings.get(alert.uid)?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+    const positions = computePositionsAsOf(entries, todayStr, settings.get(alert.uid)?.costBasisMethod)
+
+    let value = 0
+    let previousValue = 0
+    for (const p of positions) {
+      const q = quotes.get(p.symbol)
+      if (p.quantity <= 0 || q?.regularMarketPrice == null) continue
+
+      const { currency, factor } = normalizeCurrency(q.currency)
+      const rate = getFxRate(fxRates, currency, baseCurrency, todayStr)
+      if (rate == null) continue
+      value += p.quantity * q.regularMarketPrice * factor * rate
+      previousValue += p.quantity * (q.regularMarketPrice - (q.regularMarketChange ?? 0)) * factor * rate
+    }
+
+    changes.set(key, previousValue > 0 ? ((value - previousValue) / previousValue) * 100 : null)
+  }
+
+  return changes
+}
+
+/** Observed value the alert compares against its threshold; null when unknown */
+function getObservedValue (
+  alert: PriceAlert,
+  quotes: Map<string, LatestQuote>,
+  portfolioChanges: Map<string, number | null>
+): number | null {
+  switch (alert.condition) {
+    case 'PRICE_ABOVE':
+    case 'PRICE_BELOW':
+      return quotes.get(alert.symbol!)?.regularMarketPrice ?? null
+    case 'DAY_CHANGE_PERCENT_ABOVE':
+    case 'DAY_CHANGE_PERCENT_BELOW':
+      return quotes.get(alert.symbol!)?.regularMarketChangePercent ?? null
+    case 'PORTFOLIO_DAY_CHANGE_PERCENT_ABOVE':
+    case 'PORTFOLIO_DAY_CHANGE_PERCENT_BELOW':
+      return portfolioChanges.get(`${alert.uid}|${alert.portfolioId ?? ''}`) ?? null
+  }
+}
+
+function isTriggered (alert: PriceAlert, observed: number): boolean {
+  return alert.condition.endsWith('_ABOVE') ? observed >= alert.threshold : observed <= alert.threshold
+}
+
+function describeAlert (alert: PriceAlert, observed: number): { title: string; message: string } {
+  const subject = alert.symbol ?? (alert.portfolioId ? 'Your portfolio' : 'Your portfolios')
+  const direction = alert.condition.endsWith('_ABOVE') ? 'above' : 'below'
+  const isPercent = alert.condition.includes('PERCENT')
+  const format = (v: number): string => (isPercent ? `${round4(v)}%` : String(round4(v)))
+  const what = isPercent ? 'day change' : 'price'
+
+  return {
+    title: `${subject} ${what} ${direction} ${format(alert.threshold)}`,
+    message: `${subject} ${what} is ${format(observed)} (alert: ${direction} ${format(alert.threshold)})`
+  }
+}
+
+/**
+ * Check every active alert against the latest quotes (one batched pass
+ * through the quote cache), record triggered ones in the notification outbox
+ * and push pending notifications through the registered channels.
+ */
+export async function evaluateAlerts (): Promise<{ evaluated: number; triggered: number }> {
+  const alerts = await listActiveAlerts()
+  if (alerts.length === 0) {
+    await dispatchPendingNotifications()
+    return { evaluated: 0, triggered: 0 }
+  }
+
+  const symbolAlerts = alerts.filter((a) => isSymbolAlertCondition(a.condition))
+  const portfolioAlerts = alerts.filter((a) => !isSymbolAlertCondition(a.condition))
+
+  // Portfolio alerts need quotes for the holdings as well
+  const symbols = new Set(symbolAlerts.map((a) => a.symbol!))
+  const entriesByUid = await loadLedgerEntries([...new Set(portfolioAlerts.map((a) => a.uid))])
+  for (const entries of entriesByUid.values()) {
+    for (const e of entries) if (e.symbol) symbols.add(e.symbol)
+  }
+
+  const quotes = await loadQuotes([...symbols])
+  const portfolioChanges = await computePortfolioDayChanges(portfolioAlerts, entriesByUid, quotes)
+
+  let triggered = 0
+  for (const alert of alerts) {
+    const observed = getObservedValue(alert, quotes, portfolioChanges)
+    if (observed == null || !isTriggered(alert, observed)) continue
+
+    const { title, message } = describeAlert(alert, observed)
+    try {
+      const notification = await recordAlertTrigger(alert.uid, alert.id, {
+        type: 'PRICE_ALERT',
+        alertId: alert.id,
+        title,
+        message,
+        payload: {
+          symbol: alert.symbol,
+          portfolioId: alert.portfolioId,
+          condition: alert.condition,
+          threshold: alert.threshold,
+          observed: round4(observed)
+        }
+      })
+      if (notification) triggered++
+    } catch (err) {
+      console.error(`Failed to record trigger for alert ${alert.id}:`, err)
+    }
+  }
+
+  await dispatchPendingNotifications()
+
+  return { evaluated: alerts.length, triggered }
+}
+
+/** Evaluate alerts on a fixed interval (ALERT_EVALUATION_INTERVAL_SECONDS, default 5 minutes) */
+export function startAlertEvaluator (): void {
+  if (evaluatorTimer) return
+
+  const intervalSeconds = getEvaluationIntervalSeconds()
+  evaluatorTimer = setInterval(async () => {
+    if (!(await acquireEvaluatorLock(Math.max(intervalSeconds - 5, 1)))) return
+    try {
+      const { evaluated, triggered } = await evaluateAlerts()
+      if (triggered > 0) console.log(`🔔 Alerts evaluated: ${evaluated}, triggered: ${triggered}`)
+    } catch (err) {
+      console.error('Alert evaluation failed:', err)
+    }
+  }, intervalSeconds * 1000)
+
+  console.log(`🔔 Alert evaluator running every ${intervalSeconds}s`)
+}
+
+export function stopAlertEvaluator (): void {
+  if (evaluatorTimer) {
+    clearInterval(evaluatorTimer)
+    evaluatorTimer = null
+  }
+}
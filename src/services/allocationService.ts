@@ -0,0 +1,116 @@
+import { loadCurrentPositions } from './ledgerService.js'
+import { getMarketPrices } from './quoteService.js'
+import { getFxRate, loadFxRates, normalizeCurrency } from './fxService.js'
+import { getSymbols } from '../repositories/symbolRepository.js'
+import { getPortfolioSettings } from '../repositories/userProfileRepository.js'
+import { DEFAULT_BASE_CURRENCY } from '../models/user.js'
+import type { SymbolInfo } from '../models/symbol.js'
+import { formatDate } from '../utils/timezone.js'
+import { round4 } from '../utils/number.js'
+
+export const ALLOCATION_DIMENSIONS = ['sector', 'industry', 'country', 'assetType'] as const
+
+export type AllocationDimension = typeof ALLOCATION_DIMENSIONS[number]
+
+/** Bucket for positions whose profile hasn't been fetched or has no value for a dimension */
+const UNKNOWN_BUCKET = 'Unknown'
+
+export interface AllocationBucket {
+  key: string
+  value: number
+  weight: number
+  symbols: string[]
+}
+
+export interface Allocation {
+  currency: string
+  totalValue: number
+  breakdown: Record<AllocationDimension, AllocationBucket[]>
+  /** Symbols without a cached profile yet; the daily pre-warm job fetches them */
+  pendingProfiles: string[]
+  /** Open positions without an FX rate into `currency`; left out of every total */
+  unconverted: string[]
+}
+
+function getDimensionValue (info: SymbolInfo | undefined, dimension: AllocationDimension): string {
+  switch (dimension) {
+    case 'sector':
+      return info?.sector ?? UNKNOWN_BUCKET
+    case 'industry':
+      return info?.industry ?? UNKNOWN_BUCKET
+    case 'country':
+      return info?.country ?? UNKNOWN_BUCKET
+    case 'assetType':
+      return info?.quoteType ?? UNKNOWN_BUCKET
+  }
+}
+
+/**
+ * Current open positions valued at the latest quotes in the user's base
+ * currency, grouped by sector, industry, country and asset type. Positions
+ * that cannot be converted are listed in `unconverted` instead.
+ * Profiles come from the `symbols` cache, which the daily pre-warm job keeps
+ * fresh; symbols without one count as Unknown until it has run.
+ */
+export async function computeAllocation (uid: string, portfolioId: string | null): Promise<Allocation> {
+  const { positions } = await loadCurrentPositions(uid, portfolioId)
+  const open = positions.filter((p) => p.quantity > 0)
+  const symbols = open.map((p) => p.symbol)
+
+  const baseCurrency = (await getPortfolioSettings([uid])).get(uid)?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+  const prices = await getMarketPrices(symbols)
+  const profiles = await getSymbols(symbols)
+
+  const todayStr = formatDate(new Date())
+  const pairs = [...prices.values()]
+    .map((p) => normalizeCurrency(p.currency).currency)
+    .filter((currency) => currency !== baseCurrency)
+    .map((currency) => ({ from: currency, to: baseCurrency }))
+  const fxRates = await loadFxRates(pairs, todayStr, todayStr)
+
+  const values = new Map<string, number>()
+  const unconverted: string[] = []
+  for (const position of open) {
+    const market = prices.get(position.symbol)
+    if (!market) continue
+
+    const { currency, factor } = normalizeCurrency(market.currency)
+    const rate = getFxRate(fxRates, currency, baseCurrency, todayStr)
+    if (rate == null) {
+      console.warn(`No FX rate ${currency}->${baseCurrency} for ${todayStr}, leaving ${position.symbol} out`)
+      unconverted.push(position.symbol)
+      continue
+    }
+    values.set(position.symbol, position.quantity * market.price * factor * rate)
+  }
+
+  const totalValue = [...values.values()].reduce((sum, v) => sum + v, 0)
+
+  const breakdown = {} as Record<AllocationDimension, AllocationBucket[]>
+  for (const dimension of ALLOCATION_DIMENSIONS) {
+    const buckets = new Map<string, { value: number; symbols: string[] }>()
+    for (const [symbol, value] of values) {
+      const key = getDimensionValue(profiles.get(symbol), dimension)
+      const bucket = buckets.get(key) ?? { value: 0, symbols: [] }
+      bucket.value += value
+      bucket.symbols.push(symbol)
+      buckets.set(key, bucket)
+    }
+    breakdown[dimension] = [...buckets]
+      .map(([key, bucket]) => ({
+        key,
+        value: round4(bucket.value),
+        weight: totalValue > 0 ? round4((bucket.value / totalValue) * 100) : 0,
+        symbols: bucket.symbols
+      }))
+      .sort((a, b) => b.value - a.value)
+  }
+
+  return {
+    currency: baseCurrency,
+    totalValue: round4(totalValue),
+    breakdown,
+    pendingProfiles: symbols.filter((s) => profiles.get(s)?.profileUpdatedAt == null),
+    unconverted
+  }
+}
@@ -0,0 +1,129 @@
+import { getChartDataAsQuotes } from './chartDataService.js'
+import { computeTwrSeries } from './performanceService.js'
+import { loadResumeSeries } from './portfolioResumeService.js'
+import { formatDate } from '../utils/timezone.js'
+import { round4 } from '../utils/number.js'
+
+/** Days fetched before `from` so the first date has a close to carry forward */
+const BENCHMARK_LOOKBACK_DAYS = 7
+
+export interface BenchmarkComparisonPoint {
+  date: string
+  /** Cumulative time-weighted return of the portfolio in percent */
+  portfolio: number
+  /** Cumulative return per benchmark symbol in percent; null before its first close */
+  benchmarks: Record<string, number | null>
+  /** Portfolio minus benchmark return per symbol, in percentage points */
+  relative: Record<string, number | null>
+}
+
+export interface BenchmarkSummary {
+  symbol: string
+  currency: string | null
+  return: number | null
+  /** Excess return of the portfolio over the benchmark for the window, in percentage points */
+  alpha: number | null
+}
+
+export interface BenchmarkComparison {
+  from: string
+  to: string
+  portfolioReturn: number | null
+  benchmarks: BenchmarkSummary[]
+  series: BenchmarkComparisonPoint[]
+}
+
+/** Daily (adjusted) closes of a symbol keyed by date */
+async function loadDailyCloses (
+  symbol: string,
+  fromDate: string,
+  toDate: string
+): Promise<{ closes: Map<string, number>; currency: string | null }> {
+  const period1 = new Date(`${fromDate}T00:00:00Z`)
+  period1.setUTCDate(period1.getUTCDate() - BENCHMARK_LOOKBACK_DAYS)
+  const period2 = new Date(`${toDate}T00:00:00Z`)
+  period2.setUTCDate(period2.getUTCDate() + 1)
+
+  const { quotes, currency } = await getChartDataAsQuotes(symbol, '1d', period1, period2)
+  const closes = new Map<string, number>()
+  for (const q of quotes) {
+    const close = q.adjclose ?? q.close
+    if (q.date && close != null && Number.isFinite(close)) {
+      closes.set(formatDate(new Date(q.date)), close)
+    }
+  }
+  return { closes, currency }
+}
+
+/**
+ * Benchmark close on or before every date (holidays carry the last close
+ * forward), as cumulative percent returns from the first of them.
+ */
+function normalizeCloses (dates: string[], closes: Map<string, number>): Array<number | null> {
+  const sortedDates = [...closes.keys()].sort()
+  let cursor = 0
+  let lastClose: number | null = null
+  let baseClose: number | null = null
+
+  return dates.map((date) => {
+    while (cursor < sortedDates.length && sortedDates[cursor] <= date) {
+      lastClose = closes.get(sortedDates[cursor])!
+      cursor++
+    }
+    if (lastClose == null) return null
+    if (baseClose == null) baseClose = lastClose
+    return (lastClose / baseClose - 1) * 100
+  })
+}
+
+/**
+ * Portfolio time-weighted return next to each benchmark's price return over
+ * [from, to], both starting at 0%. Benchmarks stay in their own currency.
+ */
+export async function computeBenchmarkComparison (
+  uid: string,
+  portfolioId: string | null,
+  fromDate: string,
+  toDate: string,
+  symbols: string[]
+): Promise<BenchmarkComparison> {
+  const resumes = await loadResumeSeries(uid, fromDate, toDate, portfolioId)
+  const twrSeries = computeTwrSeries(resumes)
+  const dates = twrSeries.map((p) => p.date)
+
+  const normalized = new Map<string, Array<number | null>>()
+  const summaries: BenchmarkSummary[] = []
+  const portfolioReturn = twrSeries.length > 0 ? round4(twrSeries[twrSeries.length - 1].twr) : null
+
+  for (const symbol of symbols) {
+    try {
+      const { closes, currency } = await loadDailyCloses(symbol, fromDate, toDate)
+      const values = normalizeCloses(dates, closes)
+      normalized.set(symbol, values)
+
+      const last = values.length > 0 ? values[values.length - 1] : null
+      summaries.push({
+        symbol,
+        currency,
+        return: last != null ? round4(last) : null,
+        alpha: last != null && portfolioReturn != null ? round4(portfolioReturn - last) : null
+      })
+    } catch (err) {
+      console.warn(`Could not fetch benchmark ${symbol}:`, err)
+      summaries.push({ symbol, currency: null, return: null, alpha: null })
+    }
+  }
+
+  const series = twrSeries.map((point, i) => {
+    const benchmarks: Record<string, number | null> = {}
+    const relative: Record<string, number | null> = {}
+    for (const symbol of symbols) {
+      const value = normalized.get(symbol)?.[i] ?? null
+      benchmarks[symbol] = value != null ? round4(value) : null
+      relative[symbol] = value != null ? round4(point.twr - value) : null
+    }
+    return { date: point.date, portfolio: round4(point.twr), benchmarks, relative }
+  })
+
+  return { from: fromDate, to: toDate, portfolioReturn, benchmarks: summaries, series }
+}
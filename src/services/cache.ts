@@ -26,7 +26,12 @@ export async function setCache<T> (key: string, value: T): Promise<void> {
 
 
 export function getChartCacheKey (symbol: string, interval: string, range: string): string {
-  return `yahoo:chart:${symbol}:${interval}:${range}`
+  // v2: payload carries OHLCV arrays, don't serve close-only entries
+  return `yahoo:chart:v2:${symbol}:${interval}:${range}`
+}
+
+export function getSearchCacheKey (query: string): string {
+  return `yahoo:search:${query.trim().toLowerCase()}`
 }
 
 export function getQuoteCacheKey (symbols: string[]): string {
@@ -1,19 +1,71 @@
-import { getChart as fetchChartFromYahoo } from '../utils/yahooRetry.js'
+import { getChart as fetchChartFromYahoo, type ChartInterval, type ChartQuote } from '../utils/yahooRetry.js'
 import {
-  ensureYahooChartTables,
   getStoredRange,
   getPoints,
   insertPoints,
   updateRange,
-  initializeSeriesRange
+  initializeSeriesRange,
+  isIntradayInterval,
+  getStoredIntradayRange,
+  getIntradayPoints,
+  insertIntradayPoints,
+  updateIntradayRange,
+  pruneIntradayPoints,
+  setSeriesCurrency,
+  getSeriesCurrency
 } from '../repositories/yahooChartRepository.js'
 import redisClient from '../config/redis.js'
+import { getExchangeForSymbol, isTradingDay } from '../utils/tradingCalendar.js'
+import { formatDate } from '../utils/timezone.js'
 
 const BACKFILL_LOCK_TTL_SECONDS = 300 // 5 minutes
 const NO_OLDER_DATA_TTL_SECONDS = 86400 // 24 hours
 
-function formatDate (date: Date): string {
-  return date.toISOString().slice(0, 10)
+const INTRADAY_INTERVAL_MS: Record<string, number> = {
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '60m': 60 * 60 * 1000,
+  '1h': 60 * 60 * 1000
+}
+
+/**
+ * Days of intraday bars kept in Postgres. Yahoo itself only serves ~60 days of
+ * 5m-30m bars and ~730 days of hourly bars. Override per interval with e.g.
+ * INTRADAY_RETENTION_DAYS_5M=14.
+ */
+const DEFAULT_INTRADAY_RETENTION_DAYS: Record<string, number> = {
+  '5m': 30,
+  '15m': 60,
+  '30m': 60,
+  '60m': 365,
+  '1h': 365
+}
+
+/**
+ * Chart payload served to clients. `timestamp` + `closes` is the original
+ * shape; the OHLCV arrays are index-aligned with `timestamp`.
+ */
+export interface ChartSeriesData {
+  timestamp: number[]
+  closes: (number | null)[]
+  opens: (number | null)[]
+  highs: (number | null)[]
+  lows: (number | null)[]
+  volumes: (number | null)[]
+  adjCloses: (number | null)[]
+}
+
+function toChartSeriesData (points: ChartQuote[]): ChartSeriesData {
+  return {
+    timestamp: points.map((p) => Math.floor(p.date.getTime() / 1000)),
+    closes: points.map((p) => p.close ?? null),
+    opens: points.map((p) => p.open ?? null),
+    highs: points.map((p) => p.high ?? null),
+    lows: points.map((p) => p.low ?? null),
+    volumes: points.map((p) => p.volume ?? null),
+    adjCloses: points.map((p) => p.adjclose ?? null)
+  }
 }
 
 function addDays (date: Date, days: number): Date {
@@ -26,17 +78,55 @@ function getDateOnly (date: Date): Date {
   return new Date(date.getFullYear(), date.getMonth(), date.getDate())
 }
 
+/**
+ * Whether the symbol's exchange has a session on any day in [start, end].
+ * Symbols without a known exchange (FX, futures) trade on every weekday.
+ * Used to skip Yahoo backfills for ranges that only span weekends/holidays.
+ */
+function hasTradingDay (symbol: string, start: Date, end: Date): boolean {
+  const exchange = getExchangeForSymbol(symbol)
+  for (let d = new Date(start); d <= end; d = addDays(d, 1)) {
+    const dateStr = formatDate(d)
+    if (exchange ? isTradingDay(exchange, dateStr) : d.getUTCDay() !== 0 && d.getUTCDay() !== 6) return true
+  }
+  return false
+}
+
 /** Normalize quote date to Date; filter out invalid entries */
-function sanitizeQuotes (quotes: Array<{ date: Date; close: number | null }>): Array<{ date: Date; close: number | null }> {
+function sanitizeQuotes (quotes: ChartQuote[]): ChartQuote[] {
   return quotes
     .filter((q) => q != null && q.date != null)
     .map((q) => {
       const date = q.date instanceof Date ? q.date : new Date(q.date as unknown as string | number)
       const time = date.getTime()
       if (Number.isNaN(time)) return null
-      return { date: new Date(time), close: q.close ?? null }
+      return {
+        date: new Date(time),
+        open: q.open ?? null,
+        high: q.high ?? null,
+        low: q.low ?? null,
+        close: q.close ?? null,
+        volume: q.volume ?? null,
+        adjclose: q.adjclose ?? null
+      }
     })
-    .filter((q): q is { date: Date; close: number | null } => q != null)
+    .filter((q): q is ChartQuote => q != null)
+}
+
+/** Yahoo chart fetch that also records the listing currency of the series */
+async function fetchChart (
+  symbol: string,
+  options: { interval: ChartInterval; period1: Date; period2: Date }
+): Promise<{ quotes: ChartQuote[]; currency: string | null }> {
+  const result = await fetchChartFromYahoo(symbol, options)
+  if (result?.currency && result.quotes.length > 0) {
+    try {
+      await setSeriesCurrency(symbol, options.interval, result.currency)
+    } catch (err) {
+      console.warn(`Failed to record currency for ${symbol}:${options.interval}:`, err)
+    }
+  }
+  return result
 }
 
 async function acquireBackfillLock (symbol: string, interval: string): Promise<boolean> {
@@ -82,11 +172,110 @@ async function setNoOlderData (symbol: string, interval: string): Promise<void>
   }
 }
 
+export function getIntradayRetentionDays (interval: string): number {
+  const override = parseInt(process.env[`INTRADAY_RETENTION_DAYS_${interval.toUpperCase()}`] || '', 10)
+  if (Number.isFinite(override) && override > 0) return override
+  return DEFAULT_INTRADAY_RETENTION_DAYS[interval] ?? 30
+}
+
+function getIntradayRetentionCutoff (interval: string): Date {
+  return new Date(Date.now() - getIntradayRetentionDays(interval) * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Intraday series are keyed by bar timestamp and their stored range is the
+ * window already fetched from Yahoo, so gaps are detected in minutes and
+ * closed-market stretches don't trigger refetches.
+ */
+async function getIntradayChartQuotes (
+  symbol: string,
+  interval: ChartInterval,
+  period1: Date,
+  period2: Date
+): Promise<ChartQuote[]> {
+  const stepMs = INTRADAY_INTERVAL_MS[interval]
+  const cutoff = getIntradayRetentionCutoff(interval)
+  // Never fetch bars the retention policy would delete straight away
+  const start = period1 < cutoff ? cutoff : period1
+  const end = period2
+
+  if (start >= end) return []
+
+  const storedRange = await getStoredIntradayRange(symbol, interval)
+  const oldestAt = storedRange?.oldestAt ?? null
+  const newestAt = storedRange?.newestAt ?? null
+
+  const fetchWindow = async (from: Date, to: Date, label: string): Promise<boolean> => {
+    const lockAcquired = await acquireBackfillLock(symbol, interval)
+    if (!lockAcquired) {
+      console.log(`Backfill lock already held for ${symbol}:${interval}, skipping ${label} fetch`)
+      return false
+    }
+    try {
+      console.log(`Fetching ${label} intraday data for ${symbol}:${interval} from ${from.toISOString()} to ${to.toISOString()}`)
+      const result = await fetchChart(symbol, { interval, period1: from, period2: to })
+      const quotes = sanitizeQuotes(result?.quotes ?? [])
+      await insertIntradayPoints(symbol, interval, quotes)
+      await updateIntradayRange(symbol, interval, from, to)
+      return true
+    } catch (err) {
+      console.warn(`Yahoo ${label} intraday fetch failed for ${symbol}:${interval}, using DB data only:`, err)
+      return false
+    } finally {
+      await releaseBackfillLock(symbol, interval)
+    }
+  }
+
+  let fetched = false
+
+  if (oldestAt == null || newestAt == null || oldestAt >= newestAt) {
+    console.log(`First request for ${symbol}:${interval}, fetching full intraday range`)
+    fetched = await fetchWindow(start, end, 'initial')
+  } else {
+    if (start < oldestAt) {
+      fetched = await fetchWindow(start, oldestAt, 'older') || fetched
+    }
+    if (end.getTime() - newestAt.getTime() > stepMs) {
+      // Refetch from the last stored bar: it may have been partial or delayed
+      const latestBarAt = storedRange?.latestBarAt ?? null
+      const from = latestBarAt != null && latestBarAt < newestAt ? latestBarAt : newestAt
+      fetched = await fetchWindow(from, end, 'newer') || fetched
+    }
+  }
+
+  if (fetched) {
+    try {
+      const pruned = await pruneIntradayPoints(interval, cutoff, symbol)
+      if (pruned > 0) {
+        console.log(`🧹 Pruned ${pruned} expired ${interval} bars for ${symbol}`)
+      }
+    } catch (err) {
+      console.warn(`Failed to prune intraday bars for ${symbol}:${interval}:`, err)
+    }
+  }
+
+  const points = await getIntradayPoints(symbol, interval, start, end)
+  console.log(`📊 ${symbol}:${interval} - Returning ${points.length} intraday points`)
+  return points
+}
+
+/**
+ * Apply the intraday retention policy to every stored series.
+ * Returns the number of deleted bars per interval.
+ */
+export async function pruneExpiredIntradayData (): Promise<Record<string, number>> {
+  const result: Record<string, number> = {}
+  for (const interval of Object.keys(INTRADAY_INTERVAL_MS)) {
+    result[interval] = await pruneIntradayPoints(interval, getIntradayRetentionCutoff(interval))
+  }
+  return result
+}
+
 function mergePoints (
-  existing: Array<{ date: Date; close: number | null }>,
-  newPoints: Array<{ date: Date; close: number | null }>
-): Array<{ date: Date; close: number | null }> {
-  const map = new Map<string, { date: Date; close: number | null }>()
+  existing: ChartQuote[],
+  newPoints: ChartQuote[]
+): ChartQuote[] {
+  const map = new Map<string, ChartQuote>()
 
   // Add existing points
   for (const point of existing) {
@@ -106,12 +295,13 @@ function mergePoints (
 
 export async function getChartData (
   symbol: string,
-  interval: '1d' | '5m' | '1h' | '15m' | '30m' | '60m' | '1wk' | '1mo',
+  interval: ChartInterval,
   period1: Date,
   period2: Date
-): Promise<{ timestamp: number[]; closes: (number | null)[] }> {
-  // Ensure tables are initialized first
-  await ensureYahooChartTables()
+): Promise<ChartSeriesData> {
+  if (isIntradayInterval(interval)) {
+    return toChartSeriesData(await getIntradayChartQuotes(symbol, interval, period1, period2))
+  }
 
   const normalizedPeriod1 = getDateOnly(period1)
   const normalizedPeriod2 = getDateOnly(period2)
@@ -122,9 +312,9 @@ export async function getChartData (
   if (!storedRange) {
     // First request for this symbol+interval - fetch everything
     console.log(`First request for ${symbol}:${interval}, fetching full range`)
-    let chartData: { quotes: Array<{ date: Date; close: number | null }> }
+    let chartData: { quotes: ChartQuote[] }
     try {
-      chartData = await fetchChartFromYahoo(symbol, {
+      chartData = await fetchChart(symbol, {
         interval,
         period1: normalizedPeriod1,
         period2: normalizedPeriod2
@@ -138,7 +328,7 @@ export async function getChartData (
 
     if (quotes.length === 0) {
       // No data available - return empty (don't throw)
-      return { timestamp: [], closes: [] }
+      return toChartSeriesData([])
     }
 
     // Insert all points
@@ -151,10 +341,7 @@ export async function getChartData (
     await initializeSeriesRange(symbol, interval, minDate, maxDate)
 
     // Return formatted data
-    return {
-      timestamp: quotes.map((q) => Math.floor(q.date.getTime() / 1000)),
-      closes: quotes.map((q) => q.close ?? null)
-    }
+    return toChartSeriesData(quotes)
   }
 
   // We have stored data - check what we need
@@ -173,10 +360,7 @@ export async function getChartData (
   if (hasCompleteCoverage) {
     // We have all data in DB, no Yahoo call needed
     console.log(`✅ Serving ${symbol}:${interval} from DB (${dbPoints.length} points)`)
-    return {
-      timestamp: dbPoints.map((p) => Math.floor(p.date.getTime() / 1000)),
-      closes: dbPoints.map((p) => p.close ?? null)
-    }
+    return toChartSeriesData(dbPoints)
   }
   
   // We need to fetch missing data from Yahoo
@@ -185,7 +369,7 @@ export async function getChartData (
   
   console.log(`⚠️  ${symbol}:${interval} - DB range: [${oldestDate?.toISOString() || 'null'}, ${newestDate?.toISOString() || 'null'}], requested: [${normalizedPeriod1.toISOString()}, ${normalizedPeriod2.toISOString()}], needOlder: ${needOlder}, needNewer: ${needNewer}`)
 
-  let pointsToMerge: Array<{ date: Date; close: number | null }> = []
+  let pointsToMerge: ChartQuote[] = []
 
   // Fetch older data if needed
   if (needOlder && oldestDate != null) {
@@ -196,12 +380,12 @@ export async function getChartData (
       const backfillStart = normalizedPeriod1
       const backfillEnd = addDays(oldestDate, -1)
 
-      if (backfillStart <= backfillEnd) {
+      if (backfillStart <= backfillEnd && hasTradingDay(symbol, backfillStart, backfillEnd)) {
         const lockAcquired = await acquireBackfillLock(symbol, interval)
         if (lockAcquired) {
           try {
             console.log(`Fetching older data for ${symbol}:${interval} from ${formatDate(backfillStart)} to ${formatDate(backfillEnd)}`)
-            const olderResult = await fetchChartFromYahoo(symbol, {
+            const olderResult = await fetchChart(symbol, {
               interval,
               period1: backfillStart,
               period2: backfillEnd
@@ -234,12 +418,12 @@ export async function getChartData (
     const backfillStart = addDays(newestDate, 1)
     const backfillEnd = normalizedPeriod2
 
-    if (backfillStart <= backfillEnd) {
+    if (backfillStart <= backfillEnd && hasTradingDay(symbol, backfillStart, backfillEnd)) {
       const lockAcquired = await acquireBackfillLock(symbol, interval)
       if (lockAcquired) {
         try {
           console.log(`Fetching newer data for ${symbol}:${interval} from ${formatDate(backfillStart)} to ${formatDate(backfillEnd)}`)
-          const newerResult = await fetchChartFromYahoo(symbol, {
+          const newerResult = await fetchChart(symbol, {
             interval,
             period1: backfillStart,
             period2: backfillEnd
@@ -270,7 +454,7 @@ export async function getChartData (
     if (lockAcquired) {
       try {
         console.log(`Fetching initial older data for ${symbol}:${interval}`)
-        const olderResult = await fetchChartFromYahoo(symbol, {
+        const olderResult = await fetchChart(symbol, {
           interval,
           period1: normalizedPeriod1,
           period2: normalizedPeriod2 < newestDate! ? normalizedPeriod2 : addDays(newestDate!, -1)
@@ -297,7 +481,7 @@ export async function getChartData (
     if (lockAcquired) {
       try {
         console.log(`Fetching initial newer data for ${symbol}:${interval}`)
-        const newerResult = await fetchChartFromYahoo(symbol, {
+        const newerResult = await fetchChart(symbol, {
           interval,
           period1: normalizedPeriod1 > oldestDate! ? normalizedPeriod1 : addDays(oldestDate!, 1),
           period2: normalizedPeriod2
@@ -332,24 +516,24 @@ export async function getChartData (
 
   console.log(`📊 ${symbol}:${interval} - Returning ${filteredPoints.length} points (${refreshedDbPoints.length} from DB, ${pointsToMerge.length} newly fetched)`)
 
-  return {
-    timestamp: filteredPoints.map((p) => Math.floor(p.date.getTime() / 1000)),
-    closes: filteredPoints.map((p) => p.close ?? null)
-  }
+  return toChartSeriesData(filteredPoints)
 }
 
 /**
  * Get chart data in quotes format (for internal use, e.g., portfolioResumeService)
- * Returns the same format as yahooRetry.getChart for compatibility
+ * Returns the same format as yahooRetry.getChart for compatibility, including
+ * the listing currency when known
  */
 export async function getChartDataAsQuotes (
   symbol: string,
-  interval: '1d' | '5m' | '1h' | '15m' | '30m' | '60m' | '1wk' | '1mo',
+  interval: ChartInterval,
   period1: Date,
   period2: Date
-): Promise<{ quotes: Array<{ date: Date; close: number | null }> }> {
-  // Ensure tables are initialized first
-  await ensureYahooChartTables()
+): Promise<{ quotes: ChartQuote[]; currency: string | null }> {
+  if (isIntradayInterval(interval)) {
+    const quotes = await getIntradayChartQuotes(symbol, interval, period1, period2)
+    return { quotes, currency: await getSeriesCurrency(symbol) }
+  }
 
   const normalizedPeriod1 = getDateOnly(period1)
   const normalizedPeriod2 = getDateOnly(period2)
@@ -360,9 +544,9 @@ export async function getChartDataAsQuotes (
   if (!storedRange) {
     // First request for this symbol+interval - fetch everything
     console.log(`First request for ${symbol}:${interval}, fetching full range`)
-    let chartData: { quotes: Array<{ date: Date; close: number | null }> }
+    let chartData: { quotes: ChartQuote[]; currency: string | null }
     try {
-      chartData = await fetchChartFromYahoo(symbol, {
+      chartData = await fetchChart(symbol, {
         interval,
         period1: normalizedPeriod1,
         period2: normalizedPeriod2
@@ -374,7 +558,7 @@ export async function getChartDataAsQuotes (
     const quotes = Array.isArray(chartData?.quotes) ? sanitizeQuotes(chartData.quotes) : []
 
     if (quotes.length === 0) {
-      return { quotes: [] }
+      return { quotes: [], currency: chartData?.currency ?? null }
     }
 
     // Insert all points
@@ -386,7 +570,7 @@ export async function getChartDataAsQuotes (
     const maxDate = new Date(Math.max(...dates.map(d => d.getTime())))
     await initializeSeriesRange(symbol, interval, minDate, maxDate)
 
-    return { quotes }
+    return { quotes, currency: chartData?.currency ?? null }
   }
 
   // We have stored data - check what we need
@@ -394,7 +578,7 @@ export async function getChartDataAsQuotes (
   const needOlder = oldestDate == null || normalizedPeriod1 < oldestDate
   const needNewer = newestDate == null || normalizedPeriod2 > newestDate
 
-  let pointsToMerge: Array<{ date: Date; close: number | null }> = []
+  let pointsToMerge: ChartQuote[] = []
 
   // Fetch older data if needed
   if (needOlder && oldestDate != null) {
@@ -404,12 +588,12 @@ export async function getChartDataAsQuotes (
       const backfillStart = normalizedPeriod1
       const backfillEnd = addDays(oldestDate, -1)
 
-      if (backfillStart <= backfillEnd) {
+      if (backfillStart <= backfillEnd && hasTradingDay(symbol, backfillStart, backfillEnd)) {
         const lockAcquired = await acquireBackfillLock(symbol, interval)
         if (lockAcquired) {
           try {
             console.log(`Fetching older data for ${symbol}:${interval} from ${formatDate(backfillStart)} to ${formatDate(backfillEnd)}`)
-            const olderResult = await fetchChartFromYahoo(symbol, {
+            const olderResult = await fetchChart(symbol, {
               interval,
               period1: backfillStart,
               period2: backfillEnd
@@ -440,12 +624,12 @@ export async function getChartDataAsQuotes (
     const backfillStart = addDays(newestDate, 1)
     const backfillEnd = normalizedPeriod2
 
-    if (backfillStart <= backfillEnd) {
+    if (backfillStart <= backfillEnd && hasTradingDay(symbol, backfillStart, backfillEnd)) {
       const lockAcquired = await acquireBackfillLock(symbol, interval)
       if (lockAcquired) {
         try {
           console.log(`Fetching newer data for ${symbol}:${interval} from ${formatDate(backfillStart)} to ${formatDate(backfillEnd)}`)
-          const newerResult = await fetchChartFromYahoo(symbol, {
+          const newerResult = await fetchChart(symbol, {
             interval,
             period1: backfillStart,
             period2: backfillEnd
@@ -474,7 +658,7 @@ export async function getChartDataAsQuotes (
     if (lockAcquired) {
       try {
         console.log(`Fetching initial older data for ${symbol}:${interval}`)
-        const olderResult = await fetchChartFromYahoo(symbol, {
+        const olderResult = await fetchChart(symbol, {
           interval,
           period1: normalizedPeriod1,
           period2: normalizedPeriod2 < newestDate! ? normalizedPeriod2 : addDays(newestDate!, -1)
@@ -501,7 +685,7 @@ export async function getChartDataAsQuotes (
     if (lockAcquired) {
       try {
         console.log(`Fetching initial newer data for ${symbol}:${interval}`)
-        const newerResult = await fetchChartFromYahoo(symbol, {
+        const newerResult = await fetchChart(symbol, {
           interval,
           period1: normalizedPeriod1 > oldestDate! ? normalizedPeriod1 : addDays(oldestDate!, 1),
           period2: normalizedPeriod2
@@ -535,6 +719,7 @@ export async function getChartDataAsQuotes (
   ).sort((a, b) => a.date.getTime() - b.date.getTime())
 
   return {
-    quotes: filteredPoints
+    quotes: filteredPoints,
+    currency: await getSeriesCurrency(symbol)
   }
 }
@@ -0,0 +1,78 @@
+import { getChartEvents } from '../utils/yahooRetry.js'
+import {
+  listSymbolsDueForActionSync,
+  markCorporateActionsSynced,
+  upsertCorporateActions
+} from '../repositories/corporateActionRepository.js'
+import { deleteSymbolSeries } from '../repositories/yahooChartRepository.js'
+import { listUidsWithSymbol } from '../repositories/symbolRepository.js'
+import { deleteResumesForUserFromDate } from '../repositories/userDailyStockResumeRepository.js'
+import type { CorporateAction, CorporateActionInput } from '../models/corporateAction.js'
+
+/** Events of a symbol are refetched at most daily */
+const ACTION_SYNC_MS = 24 * 60 * 60 * 1000
+/** Start of the event history requested from Yahoo */
+const EVENTS_FROM = new Date('1980-01-01T00:00:00Z')
+
+export interface CorporateActionSyncResult {
+  symbols: number
+  actionsChanged: number
+  seriesReset: number
+  resumesDeleted: number
+  errors: number
+}
+
+/**
+ * A new or revised split makes the stored closes of the symbol a mix of
+ * pre- and post-split prices, so its chart store is dropped and refetched
+ * (split-adjusted) on next use. Resumes of every holder from the earliest
+ * changed ex-date are deleted; they are recomputed when next requested.
+ */
+async function applyActionChanges (symbol: string, changed: CorporateAction[]): Promise<{ seriesReset: boolean; resumesDeleted: number }> {
+  const seriesReset = changed.some((a) => a.type === 'SPLIT')
+  if (seriesReset) await deleteSymbolSeries(symbol)
+
+  const fromDate = changed.reduce((min, a) => (a.exDate < min ? a.exDate : min), changed[0].exDate)
+  let resumesDeleted = 0
+  for (const uid of await listUidsWithSymbol(symbol)) {
+    resumesDeleted += await deleteResumesForUserFromDate(uid, fromDate)
+  }
+  return { seriesReset, resumesDeleted }
+}
+
+/**
+ * Fetch Yahoo's split and dividend history for the symbols not synced in the
+ * last day and store it in corporate_actions. Each symbol costs one
+ * rate-limited Yahoo request; a failure is logged and counted.
+ */
+export async function syncCorporateActions (symbols: string[]): Promise<CorporateActionSyncResult> {
+  const due = await listSymbolsDueForActionSync([...new Set(symbols)], ACTION_SYNC_MS)
+  const result: CorporateActionSyncResult = { symbols: due.length, actionsChanged: 0, seriesReset: 0, resumesDeleted: 0, errors: 0 }
+
+  for (const symbol of due) {
+    try {
+      const { events, currency } = await getChartEvents(symbol, EVENTS_FROM)
+      // One row per type and ex-date; a single upsert can't touch a row twice
+      const actions = new Map<string, CorporateActionInput>()
+      for (const e of events) {
+        const exDate = e.date.toISOString().slice(0, 10)
+        actions.set(`${e.type}|${exDate}`, { type: e.type, exDate, splitRatio: e.splitRatio, amount: e.amount })
+      }
+      const changed = await upsertCorporateActions(symbol, currency, [...actions.values()])
+      await markCorporateActionsSynced(symbol)
+
+      if (changed.length > 0) {
+        console.log(`📅 ${symbol}: ${changed.length} new or revised corporate actions`)
+        const applied = await applyActionChanges(symbol, changed)
+        result.actionsChanged += changed.length
+        if (applied.seriesReset) result.seriesReset++
+        result.resumesDeleted += applied.resumesDeleted
+      }
+    } catch (err) {
+      console.warn(`Could not sync corporate actions for ${symbol}:`, err)
+      result.errors++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,134 @@
+import type { Response } from 'express'
+import { formatCsvRow, type CsvDelimiter } from '../utils/csv.js'
+
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const
+
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export const DEFAULT_EXPORT_LOCALE = 'en-US'
+
+/**
+ * Column of an export. `key` is the CSV header and the NDJSON property;
+ * `type` decides the locale formatting of CSV cells.
+ */
+export interface ExportColumn<T> {
+  key: string
+  type: 'text' | 'number' | 'date'
+  value: (row: T) => string | number | null
+}
+
+export interface ExportOptions<T> {
+  format: ExportFormat
+  /** BCP 47 tag; CSV numbers and dates are written the way it writes them */
+  locale: string
+  /** Without extension */
+  filename: string
+  columns: Array<ExportColumn<T>>
+}
+
+/** Canonical form of a supported BCP 47 locale tag; null when invalid or unsupported */
+export function resolveExportLocale (value: string | undefined): string | null {
+  if (!value) return DEFAULT_EXPORT_LOCALE
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([value])[0] ?? null
+  } catch {
+    return null
+  }
+}
+
+async function write (res: Response, chunk: string): Promise<void> {
+  if (res.write(chunk)) return
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = (): void => {
+      res.off('close', onClose)
+      resolve()
+    }
+    const onClose = (): void => {
+      res.off('drain', onDrain)
+      reject(new Error('Client closed the export stream'))
+    }
+    res.once('drain', onDrain)
+    res.once('close', onClose)
+  })
+}
+
+interface CellFormat {
+  delimiter: CsvDelimiter
+  formatNumber: (value: number) => string
+  formatDate: (value: string) => string
+}
+
+/** Numbers without grouping; a decimal-comma locale gets `;` as delimiter, as spreadsheets expect */
+function getCellFormat (locale: string): CellFormat {
+  const numberFormat = new Intl.NumberFormat(locale, { useGrouping: false, maximumFractionDigits: 8 })
+  const dateFormat = new Intl.DateTimeFormat(locale, { timeZone: 'UTC', year: 'numeric', month: '2-digit', day: '2-digit' })
+  const decimal = numberFormat.formatToParts(1.5).find((p) => p.type === 'decimal')?.value
+  return {
+    delimiter: decimal === ',' ? ';' : ',',
+    formatNumber: (value) => numberFormat.format(value),
+    formatDate: (value) => dateFormat.format(new Date(`${value.slice(0, 10)}T00:00:00Z`))
+  }
+}
+
+function toCsvLine<T> (row: T, columns: Array<ExportColumn<T>>, cell: CellFormat): string {
+  const values = columns.map((column) => {
+    const value = column.value(row)
+    return column.type === 'date' && typeof value === 'string' ? cell.formatDate(value) : value
+  })
+  return formatCsvRow(values, cell.delimiter, cell.formatNumber) + '\r\n'
+}
+
+function toJsonLine<T> (row: T, columns: Array<ExportColumn<T>>): string {
+  const record: Record<string, string | number | null> = {}
+  for (const column of columns) record[column.key] = column.value(row)
+  return JSON.stringify(record) + '\n'
+}
+
+/**
+ * Stream `batches` to the response as a CSV or NDJSON download. CSV starts
+ * with a UTF-8 BOM and follows the locale; NDJSON keeps JSON numbers and ISO
+ * dates whatever the locale. An error while streaming aborts the response,
+ * as the status line is already sent.
+ */
+export async function streamExport<T> (
+  res: Response,
+  options: ExportOptions<T>,
+  batches: AsyncIterable<T[]> | Iterable<T[]>
+): Promise<void> {
+  const { format, filename, columns } = options
+  const cell = getCellFormat(options.locale)
+
+  res.status(200)
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8')
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`)
+  res.setHeader('Cache-Control', 'no-store')
+
+  try {
+    if (format === 'csv') {
+      await write(res, '\uFEFF' + formatCsvRow(columns.map((c) => c.key), cell.delimiter) + '\r\n')
+    }
+    for await (const rows of batches) {
+      if (rows.length === 0) continue
+      await write(res, rows.map((row) => (format === 'csv' ? toCsvLine(row, columns, cell) : toJsonLine(row, columns))).join(''))
+    }
+    res.end()
+  } catch (err) {
+    console.error(`Export ${filename} aborted:`, err)
+    res.destroy(err instanceof Error ? err : new Error(String(err)))
+  }
+}
+
+/** `format` and `locale` query parameters shared by the export endpoints */
+export function parseExportQuery (query: Record<string, unknown>): { format: ExportFormat; locale: string } | { error: string } {
+  const format = (typeof query.format === 'string' ? query.format.trim().toLowerCase() : 'csv') || 'csv'
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return { error: `format must be one of ${EXPORT_FORMATS.join(', ')}` }
+  }
+
+  const locale = resolveExportLocale(typeof query.locale === 'string' ? query.locale.trim() : undefined)
+  if (!locale) {
+    return { error: 'locale must be a supported BCP 47 language tag, e.g. en-US or de-DE' }
+  }
+
+  return { format: format as ExportFormat, locale }
+}
@@ -0,0 +1,113 @@
+import { getChartDataAsQuotes } from './chartDataService.js'
+import { getLatestQuotes } from './quoteService.js'
+import { DEFAULT_BASE_CURRENCY } from '../models/user.js'
+import { formatDate } from '../utils/timezone.js'
+
+/**
+ * Yahoo quotes some listings in minor units (LSE in pence as GBp/GBX,
+ * Johannesburg in cents, Tel Aviv in agorot). Map them to the major currency.
+ */
+const MINOR_UNIT_CURRENCIES: Record<string, { currency: string; factor: number }> = {
+  GBp: { currency: 'GBP', factor: 0.01 },
+  GBX: { currency: 'GBP', factor: 0.01 },
+  ZAc: { currency: 'ZAR', factor: 0.01 },
+  ILA: { currency: 'ILS', factor: 0.01 }
+}
+
+/** How many days back a missing FX fixing may be taken from (weekends, holidays) */
+const FX_LOOKBACK_DAYS = 7
+
+/** Sorted daily rates per currency pair key (e.g. "EURUSD") */
+export type FxRates = Map<string, Array<{ date: string; rate: number }>>
+
+function addDays (dateStr: string, days: number): Date {
+  const d = new Date(dateStr)
+  d.setDate(d.getDate() + days)
+  return d
+}
+
+export function isCurrencyCode (value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Z]{3}$/.test(value)
+}
+
+/** Major currency and the factor converting a quoted amount into it */
+export function normalizeCurrency (code: string | null | undefined): { currency: string; factor: number } {
+  if (!code) return { currency: DEFAULT_BASE_CURRENCY, factor: 1 }
+  return MINOR_UNIT_CURRENCIES[code] ?? { currency: code.toUpperCase(), factor: 1 }
+}
+
+export function getFxSymbol (from: string, to: string): string {
+  return `${from}${to}=X`
+}
+
+/**
+ * Load daily FX rates for the given pairs between two dates through the chart
+ * storage (yahoo_chart_points), plus today's live rate when the range reaches today.
+ */
+export async function loadFxRates (
+  pairs: Array<{ from: string; to: string }>,
+  fromDate: string,
+  toDate: string
+): Promise<FxRates> {
+  const rates: FxRates = new Map()
+  const todayStr = formatDate(new Date())
+  const seen = new Set<string>()
+
+  for (const { from, to } of pairs) {
+    const key = `${from}${to}`
+    if (from === to || seen.has(key)) continue
+    seen.add(key)
+
+    const byDate = new Map<string, number>()
+
+    try {
+      const chart = await getChartDataAsQuotes(getFxSymbol(from, to), '1d', addDays(fromDate, -FX_LOOKBACK_DAYS), addDays(toDate, 1))
+      for (const q of chart.quotes) {
+        if (q.date && q.close != null && Number.isFinite(q.close) && q.close > 0) {
+          byDate.set(formatDate(q.date), q.close)
+        }
+      }
+    } catch (err) {
+      console.warn(`Could not fetch FX history for ${key}:`, err)
+    }
+
+    if (toDate >= todayStr) {
+      try {
+        const [quote] = await getLatestQuotes([getFxSymbol(from, to)])
+        if (typeof quote?.regularMarketPrice === 'number' && quote.regularMarketPrice > 0) {
+          byDate.set(todayStr, quote.regularMarketPrice)
+        }
+      } catch (err) {
+        console.warn(`Could not fetch live FX rate for ${key}:`, err)
+      }
+    }
+
+    rates.set(key, [...byDate.entries()]
+      .map(([date, rate]) => ({ date, rate }))
+      .sort((a, b) => a.date.localeCompare(b.date)))
+  }
+
+  return rates
+}
+
+/**
+ * Rate converting one unit of `from` into `to` on `date`: the last fixing on or
+ * before the date within the lookback, else the earliest one after it.
+ * Returns null when the pair has no data at all.
+ */
+export function getFxRate (rates: FxRates, from: string, to: string, date: string): number | null {
+  if (from === to) return 1
+
+  const series = rates.get(`${from}${to}`)
+  if (!series || series.length === 0) return null
+
+  const earliestAllowed = formatDate(addDays(date, -FX_LOOKBACK_DAYS))
+  let candidate: number | null = null
+  for (const point of series) {
+    if (point.date > date) break
+    if (point.date >= earliestAllowed) candidate = point.rate
+  }
+  if (candidate != null) return candidate
+
+  return series.find((point) => point.date > date)?.rate ?? series[series.length - 1].rate
+}
@@ -0,0 +1,166 @@
+import { randomUUID } from 'node:crypto'
+import type { JobRun } from '../models/jobRun.js'
+import {
+  claimQueuedJobRun,
+  enqueueJobRun,
+  finishJobRun,
+  updateJobRunProgress
+} from '../repositories/jobRunRepository.js'
+import { listUserIds } from '../repositories/userProfileRepository.js'
+import { generateDailyResumes } from './portfolioResumeService.js'
+
+export const RESUME_BACKFILL_JOB = 'daily-resume-backfill'
+
+const DEFAULT_POLL_SECONDS = 10
+/** Users per computeResumesBatch call; progress is saved after each batch */
+const BACKFILL_USER_BATCH_SIZE = 20
+const MAX_RECORDED_ERRORS = 20
+
+/** Identifies this process on the job runs it claims */
+const INSTANCE_ID = randomUUID()
+
+/**
+ * Checkpoint of a resume backfill. Dates are processed oldest first; a
+ * resumed job skips `completedDates` and redoes the date it stopped in
+ * (upserts make that safe).
+ */
+export interface ResumeBackfillProgress {
+  datesTotal: number
+  datesDone: number
+  usersTotal: number
+  /** Users processed for the date currently in progress */
+  usersDone: number
+  processed: number
+  errors: number
+  completedDates: string[]
+  recentErrors: string[]
+}
+
+type JobOutcome =
+  | { status: 'SUCCEEDED'; result: Record<string, unknown> }
+  | { status: 'CANCELLED'; result: Record<string, unknown> }
+
+let workerTimer: NodeJS.Timeout | null = null
+let isProcessing = false
+
+function parseBackfillProgress (run: JobRun, datesTotal: number): ResumeBackfillProgress {
+  const saved = (run.progress ?? {}) as Partial<ResumeBackfillProgress>
+  return {
+    datesTotal,
+    datesDone: saved.completedDates?.length ?? 0,
+    usersTotal: 0,
+    usersDone: 0,
+    processed: saved.processed ?? 0,
+    errors: saved.errors ?? 0,
+    completedDates: saved.completedDates ?? [],
+    recentErrors: saved.recentErrors ?? []
+  }
+}
+
+async function runResumeBackfill (run: JobRun): Promise<JobOutcome> {
+  const dates = [...((run.params?.dates as string[] | undefined) ?? [])].sort()
+  const progress = parseBackfillProgress(run, dates.length)
+
+  const uids = (run.params?.uids as string[] | undefined) ?? await listUserIds()
+  progress.usersTotal = uids.length
+
+  for (const date of dates) {
+    if (progress.completedDates.includes(date)) continue
+    progress.usersDone = 0
+
+    for (let i = 0; i < uids.length; i += BACKFILL_USER_BATCH_SIZE) {
+      const batch = uids.slice(i, i + BACKFILL_USER_BATCH_SIZE)
+      try {
+        const result = await generateDailyResumes([date], batch)
+        progress.processed += result.totalProcessed
+        progress.errors += result.totalErrors
+      } catch (err) {
+        console.error(`Resume backfill ${run.id} failed for ${date} (users ${i + 1}-${i + batch.length}):`, err)
+        progress.errors += batch.length
+        progress.recentErrors = [
+          ...progress.recentErrors,
+          `${date}: ${err instanceof Error ? err.message : String(err)}`
+        ].slice(-MAX_RECORDED_ERRORS)
+      }
+      progress.usersDone += batch.length
+
+      if (await updateJobRunProgress(run.id, { ...progress })) {
+        return { status: 'CANCELLED', result: { ...progress } }
+      }
+    }
+
+    progress.completedDates.push(date)
+    progress.datesDone = progress.completedDates.length
+    if (await updateJobRunProgress(run.id, { ...progress })) {
+      return { status: 'CANCELLED', result: { ...progress } }
+    }
+  }
+
+  return { status: 'SUCCEEDED', result: { ...progress } }
+}
+
+const JOB_HANDLERS: Record<string, (run: JobRun) => Promise<JobOutcome>> = {
+  [RESUME_BACKFILL_JOB]: runResumeBackfill
+}
+
+/**
+ * Queue resume generation for the given dates, for every user or only
+ * `uids`; the worker picks it up
+ */
+export async function enqueueResumeBackfill (dates: string[], uids?: string[]): Promise<JobRun> {
+  const run = await enqueueJobRun(RESUME_BACKFILL_JOB, uids ? { dates, uids } : { dates })
+  void processQueuedJobs()
+  return run
+}
+
+/** Run queued jobs one after another until none is left */
+export async function processQueuedJobs (): Promise<void> {
+  if (isProcessing) return
+  isProcessing = true
+
+  try {
+    let run: JobRun | null
+    while ((run = await claimQueuedJobRun(INSTANCE_ID)) != null) {
+      const handler = JOB_HANDLERS[run.jobName]
+      if (!handler) {
+        await finishJobRun(run.id, 'FAILED', null, `No handler for job ${run.jobName}`)
+        continue
+      }
+
+      console.log(`🧵 Running queued job ${run.jobName} (${run.id})`)
+      try {
+        const outcome = await handler(run)
+        await finishJobRun(run.id, outcome.status, outcome.result, null)
+        console.log(`🧵 Job ${run.id} ${outcome.status.toLowerCase()}`)
+      } catch (err) {
+        console.error(`Queued job ${run.id} failed:`, err)
+        await finishJobRun(run.id, 'FAILED', null, err instanceof Error ? err.message : String(err))
+      }
+    }
+  } catch (err) {
+    console.error('Job worker failed to claim jobs:', err)
+  } finally {
+    isProcessing = false
+  }
+}
+
+function getPollSeconds (): number {
+  const fromEnv = parseInt(process.env.JOB_WORKER_POLL_SECONDS || '', 10)
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_POLL_SECONDS
+}
+
+/** Poll for queued jobs, including ones queued or resumed on another replica */
+export function startJobWorker (): void {
+  if (workerTimer) return
+
+  const pollSeconds = getPollSeconds()
+  workerTimer = setInterval(() => { void processQueuedJobs() }, pollSeconds * 1000)
+  console.log(`🧵 Job worker polling every ${pollSeconds}s`)
+}
+
+export function stopJobWorker (): void {
+  if (workerTimer) {
+    clearInterval(workerTimer)
+    workerTimer = null
+  }
+}
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import type { LedgerEntry } from './ledgerService.js'
+
+// config/database.ts requires these at import time; postgres only connects on the first query
+process.env.DB_HOST ??= 'localhost'
+process.env.DB_NAME ??= 'test'
+process.env.DB_USER ??= 'test'
+process.env.DB_PASSWORD ??= 'test'
+const { computePositionsAsOf, findSellShortfall } = await import('./ledgerService.js')
+
+function entry (fields: Partial<LedgerEntry> & Pick<LedgerEntry, 'type' | 'tradeDate'>): LedgerEntry {
+  return {
+    id: null,
+    uid: 'user-1',
+    portfolioId: 'p1',
+    symbol: 'AAPL',
+    quantity: 0,
+    price: 0,
+    amount: 0,
+    fee: 0,
+    splitRatio: null,
+    dividendPerShare: null,
+    marketSplit: false,
+    ...fields
+  }
+}
+
+test('computePositionsAsOf applies splits to the lots held on the ex-date', () => {
+  const entries = [
+    entry({ type: 'BUY', tradeDate: '2024-01-02', quantity: 10, price: 100, fee: 10 }),
+    entry({ type: 'SPLIT', tradeDate: '2024-06-10', splitRatio: 4 }),
+    entry({ type: 'SELL', tradeDate: '2024-07-01', quantity: 8, price: 30 })
+  ]
+
+  const [beforeSplit] = computePositionsAsOf(entries, '2024-06-07')
+  assert.equal(beforeSplit.quantity, 10)
+  assert.equal(beforeSplit.costBasis, 1010)
+
+  const [afterSell] = computePositionsAsOf(entries, '2024-07-01')
+  assert.equal(afterSell.quantity, 32)
+  assert.equal(afterSell.lots[0].unitCost, 25.25)
+  assert.equal(afterSell.realizedPnl, 8 * 30 - 8 * 25.25)
+})
+
+test('computePositionsAsOf scales adjustedQuantity by later market splits only', () => {
+  const entries = [
+    entry({ type: 'BUY', tradeDate: '2024-01-02', quantity: 10, price: 100 }),
+    entry({ type: 'SPLIT', tradeDate: '2024-06-10', splitRatio: 2, marketSplit: true }),
+    entry({ type: 'SPLIT', tradeDate: '2024-08-01', splitRatio: 3 })
+  ]
+
+  const [position] = computePositionsAsOf(entries, '2024-03-01')
+  assert.equal(position.quantity, 10)
+  assert.equal(position.adjustedQuantity, 20)
+})
+
+test('computePositionsAsOf matches sells by the cost basis method', () => {
+  const entries = [
+    entry({ type: 'BUY', tradeDate: '2024-01-02', quantity: 10, price: 100 }),
+    entry({ type: 'BUY', tradeDate: '2024-02-01', quantity: 10, price: 200 }),
+    entry({ type: 'SELL', tradeDate: '2024-03-01', quantity: 10, price: 250 })
+  ]
+
+  assert.equal(computePositionsAsOf(entries, '2024-12-31', 'FIFO')[0].realizedPnl, 1500)
+  assert.equal(computePositionsAsOf(entries, '2024-12-31', 'LIFO')[0].realizedPnl, 500)
+  assert.equal(computePositionsAsOf(entries, '2024-12-31', 'AVERAGE')[0].realizedPnl, 1000)
+})
+
+test('computePositionsAsOf never matches a sell against another portfolio', () => {
+  const entries = [
+    entry({ type: 'BUY', tradeDate: '2024-01-02', quantity: 10, price: 100, portfolioId: 'p1' }),
+    entry({ type: 'BUY', tradeDate: '2024-01-03', quantity: 5, price: 120, portfolioId: 'p2' }),
+    entry({ type: 'SELL', tradeDate: '2024-02-01', quantity: 8, price: 150, portfolioId: 'p2' })
+  ]
+
+  const [position] = computePositionsAsOf(entries, '2024-12-31')
+  assert.equal(position.quantity, 10)
+  assert.equal(position.costBasis, 1000)
+  assert.equal(position.realizedPnl, 5 * 150 - 5 * 120)
+})
+
+test('findSellShortfall reports a new sell exceeding the shares held', () => {
+  const buy = entry({ id: 'buy', type: 'BUY', tradeDate: '2024-01-02', quantity: 10 })
+  const sell = entry({ type: 'SELL', tradeDate: '2024-02-01', quantity: 12 })
+
+  assert.deepEqual(findSellShortfall([buy], [buy, sell]), { entry: sell, held: 10 })
+  assert.equal(findSellShortfall([buy], [buy, { ...sell, quantity: 10 }]), null)
+})
+
+test('findSellShortfall counts splits before the sell', () => {
+  const buy = entry({ id: 'buy', type: 'BUY', tradeDate: '2024-01-02', quantity: 10 })
+  const split = entry({ type: 'SPLIT', tradeDate: '2024-01-15', splitRatio: 2 })
+  const sell = entry({ type: 'SELL', tradeDate: '2024-02-01', quantity: 20 })
+
+  assert.equal(findSellShortfall([buy, split], [buy, split, sell]), null)
+})
+
+test('findSellShortfall blames a removal for the stored sells it leaves short', () => {
+  const first = entry({ id: 'buy-1', type: 'BUY', tradeDate: '2024-01-02', quantity: 10 })
+  const second = entry({ id: 'buy-2', type: 'BUY', tradeDate: '2024-01-03', quantity: 5 })
+  const sell = entry({ id: 'sell', type: 'SELL', tradeDate: '2024-02-01', quantity: 12 })
+  // A reload yields new objects for the same stored rows
+  const reloaded = [{ ...first }, { ...sell }]
+
+  const shortfall = findSellShortfall([first, second, sell], reloaded)
+  assert.equal(shortfall?.entry.id, 'sell')
+  assert.equal(shortfall?.held, 10)
+})
+
+test('findSellShortfall ignores sells that were short already', () => {
+  const buy = entry({ id: 'buy', type: 'BUY', tradeDate: '2024-01-02', quantity: 5 })
+  const sell = entry({ id: 'sell', type: 'SELL', tradeDate: '2024-02-01', quantity: 8 })
+  const fee = entry({ id: 'fee', type: 'FEE', tradeDate: '2024-03-01', amount: 2 })
+
+  assert.equal(findSellShortfall([buy, sell, fee], [buy, sell]), null)
+})
@@ -0,0 +1,504 @@
+import sql from '../config/database.js'
+import { listTransactionsForUsers } from '../repositories/portfolioTransactionRepository.js'
+import { listCorporateActions } from '../repositories/corporateActionRepository.js'
+import type { PortfolioTransactionType } from '../models/portfolioTransaction.js'
+import { getPortfolioSettings } from '../repositories/userProfileRepository.js'
+import type { CostBasisMethod } from '../models/user.js'
+import type { CorporateAction } from '../models/corporateAction.js'
+import { formatDate } from '../utils/timezone.js'
+import { round4 } from '../utils/number.js'
+import type { MarketPrice } from './quoteService.js'
+
+/**
+ * Normalized ledger entry. Explicit portfolio_transactions rows, the lots in
+ * user_stocks (replayed as BUYs) and the corporate actions of held symbols end
+ * up in the same stream.
+ */
+export interface LedgerEntry {
+  /** user_stocks or portfolio_transactions row; null for corporate actions and entries not stored yet */
+  id: string | null
+  uid: string
+  portfolioId: string | null
+  symbol: string | null
+  type: PortfolioTransactionType
+  /** null for lots without a purchase date: treated as held on every date */
+  tradeDate: string | null
+  quantity: number
+  price: number
+  amount: number
+  fee: number
+  splitRatio: number | null
+  /** Corporate-action dividends: cash per share, paid on the quantity held before the ex-date */
+  dividendPerShare: number | null
+  /**
+   * SPLIT reported by Yahoo (injected, or a recorded SPLIT matched to it).
+   * Stored closes are adjusted for these, so they also scale the quantity the
+   * holding is valued at before the ex-date.
+   */
+  marketSplit: boolean
+}
+
+/** Open tax lot; unitCost includes the capitalised BUY fee */
+export interface Lot {
+  tradeDate: string | null
+  quantity: number
+  unitCost: number
+}
+
+export interface Position {
+  symbol: string
+  quantity: number
+  /** Cost of the lots still held */
+  costBasis: number
+  /** Sale proceeds net of fees minus the cost of the matched lots */
+  realizedPnl: number
+  dividends: number
+  fees: number
+  lots: Lot[]
+  /**
+   * Quantity in the units of split-adjusted closes: the held quantity times
+   * the ratios of the market splits the holding receives after the as-of date
+   */
+  adjustedQuantity: number
+}
+
+/** Same-day ordering: a split applies before that day's trades */
+const TYPE_ORDER: Record<PortfolioTransactionType, number> = {
+  SPLIT: 0,
+  BUY: 1,
+  SELL: 2,
+  DIVIDEND: 3,
+  FEE: 4
+}
+
+function roundQuantity (value: number): number {
+  return Math.round(value * 1e8) / 1e8
+}
+
+/** Days a recorded SPLIT may be off Yahoo's ex-date and still be the same split */
+const SPLIT_MATCH_DAYS = 10
+
+function isSameSplit (entry: LedgerEntry, action: CorporateAction): boolean {
+  if (entry.tradeDate == null || entry.splitRatio == null || action.splitRatio == null) return false
+  const days = Math.abs(Date.parse(entry.tradeDate) - Date.parse(action.exDate)) / 86_400_000
+  return days <= SPLIT_MATCH_DAYS && Math.abs(entry.splitRatio / action.splitRatio - 1) < 1e-6
+}
+
+/** Corporate-action dividends go to the holders before the ex-date, so ahead of that day's trades */
+function getEntryOrder (entry: LedgerEntry): number {
+  return entry.dividendPerShare != null ? 0.5 : TYPE_ORDER[entry.type]
+}
+
+function compareEntries (a: LedgerEntry, b: LedgerEntry): number {
+  if (a.tradeDate !== b.tradeDate) {
+    if (a.tradeDate == null) return -1
+    if (b.tradeDate == null) return 1
+    return a.tradeDate < b.tradeDate ? -1 : 1
+  }
+  return getEntryOrder(a) - getEntryOrder(b)
+}
+
+/**
+ * Ledger entries for the splits and dividends of the symbols in `entries`,
+ * per portfolio. Actions on or before the first trade of a holding are left
+ * out (nothing was held). A split is skipped when the holding has a lot
+ * without a purchase date (it may already count post-split shares); a SPLIT
+ * transaction with the same ratio within SPLIT_MATCH_DAYS of the ex-date
+ * stands for it and is flagged as the market split. Dividends are skipped for
+ * holdings whose dividends are recorded as DIVIDEND transactions; Yahoo
+ * reports them split-adjusted, so the amount is scaled back by the later
+ * splits the holding receives.
+ */
+async function getCorporateActionEntries (entries: LedgerEntry[]): Promise<LedgerEntry[]> {
+  const holdings = new Map<string, LedgerEntry[]>()
+  for (const entry of entries) {
+    if (!entry.symbol) continue
+    const key = `${entry.uid}|${entry.portfolioId ?? ''}|${entry.symbol}`
+    if (!holdings.has(key)) holdings.set(key, [])
+    holdings.get(key)!.push(entry)
+  }
+
+  const actionsBySymbol = await listCorporateActions([...new Set(entries.flatMap((e) => (e.symbol ? [e.symbol] : [])))])
+  if (actionsBySymbol.size === 0) return []
+
+  const result: LedgerEntry[] = []
+  for (const holding of holdings.values()) {
+    const { uid, portfolioId, symbol } = holding[0]
+    const actions = actionsBySymbol.get(symbol!) ?? []
+    if (actions.length === 0 || !holding.some((e) => e.type === 'BUY')) continue
+
+    const hasUndatedLot = holding.some((e) => e.type === 'BUY' && e.tradeDate == null)
+    const recordedSplits = holding.filter((e) => e.type === 'SPLIT')
+    const hasDividendTransactions = holding.some((e) => e.type === 'DIVIDEND')
+    const firstTradeDate = holding.reduce<string | null>(
+      (min, e) => (e.tradeDate != null && (min == null || e.tradeDate < min) ? e.tradeDate : min),
+      null
+    )
+    if (firstTradeDate == null) continue
+
+    const base = { id: null, uid, portfolioId, symbol, quantity: 0, price: 0, amount: 0, fee: 0 }
+    const receivedSplits: CorporateAction[] = []
+    for (const action of actions) {
+      if (action.type !== 'SPLIT' || action.splitRatio == null || action.exDate <= firstTradeDate) continue
+      const recorded = recordedSplits.find((e) => isSameSplit(e, action))
+      if (recorded) {
+        recorded.marketSplit = true
+        receivedSplits.push(action)
+      } else if (!hasUndatedLot) {
+        result.push({ ...base, type: 'SPLIT', tradeDate: action.exDate, splitRatio: action.splitRatio, dividendPerShare: null, marketSplit: true })
+        receivedSplits.push(action)
+      }
+    }
+
+    if (hasDividendTransactions) continue
+    for (const action of actions) {
+      if (action.type !== 'DIVIDEND' || action.amount == null || action.exDate <= firstTradeDate) continue
+      const laterRatio = receivedSplits.reduce((f, split) => (split.exDate > action.exDate ? f * split.splitRatio! : f), 1)
+      result.push({
+        ...base,
+        type: 'DIVIDEND',
+        tradeDate: action.exDate,
+        splitRatio: null,
+        dividendPerShare: action.amount * laterRatio,
+        marketSplit: false
+      })
+    }
+  }
+  return result
+}
+
+/** Date order used by the replay; sorts in place */
+export function sortLedgerEntries (entries: LedgerEntry[]): LedgerEntry[] {
+  return entries.sort(compareEntries)
+}
+
+/**
+ * Load the merged, date-ordered ledger for each of the given users.
+ * `extraEntries` (not yet stored, e.g. trades being imported) are merged in
+ * and the stored rows in `excludeIds` (e.g. one about to be deleted) left
+ * out before the corporate actions are applied.
+ */
+export async function loadLedgerEntries (
+  uids: string[],
+  extraEntries: LedgerEntry[] = [],
+  excludeIds: string[] = []
+): Promise<Map<string, LedgerEntry[]>> {
+  const byUid = new Map<string, LedgerEntry[]>()
+  for (const uid of uids) byUid.set(uid, [])
+  if (uids.length === 0) return byUid
+
+  const lots = await sql`
+    SELECT id, uid, portfolio_id, symbol, quantity, purchase_price, purchase_date
+    FROM user_stocks
+    WHERE uid = ANY(${uids})
+  ` as unknown as Array<{
+    id: string
+    uid: string
+    portfolio_id: string | null
+    symbol: string
+    quantity: unknown
+    purchase_price: unknown
+    purchase_date: Date | null
+  }>
+
+  for (const lot of lots) {
+    if (excludeIds.includes(lot.id)) continue
+    byUid.get(lot.uid)?.push({
+      id: lot.id,
+      uid: lot.uid,
+      portfolioId: lot.portfolio_id,
+      symbol: lot.symbol,
+      type: 'BUY',
+      tradeDate: lot.purchase_date ? formatDate(lot.purchase_date) : null,
+      quantity: Number(lot.quantity) || 0,
+      price: Number(lot.purchase_price ?? 0) || 0,
+      amount: 0,
+      fee: 0,
+      splitRatio: null,
+      dividendPerShare: null,
+      marketSplit: false
+    })
+  }
+
+  const transactions = await listTransactionsForUsers(uids)
+  for (const tx of transactions) {
+    if (excludeIds.includes(tx.id)) continue
+    byUid.get(tx.uid)?.push({
+      id: tx.id,
+      uid: tx.uid,
+      portfolioId: tx.portfolioId,
+      symbol: tx.symbol,
+      type: tx.type,
+      tradeDate: tx.tradeDate,
+      quantity: tx.quantity ?? 0,
+      price: tx.price ?? 0,
+      amount: tx.amount ?? 0,
+      fee: tx.fee,
+      splitRatio: tx.splitRatio,
+      dividendPerShare: null,
+      marketSplit: false
+    })
+  }
+
+  for (const entry of extraEntries) {
+    byUid.get(entry.uid)?.push(entry)
+  }
+
+  for (const entry of await getCorporateActionEntries([...byUid.values()].flat())) {
+    byUid.get(entry.uid)?.push(entry)
+  }
+
+  for (const entries of byUid.values()) {
+    sortLedgerEntries(entries)
+  }
+
+  return byUid
+}
+
+/** Entries of one portfolio; null keeps all of them (aggregate across portfolios) */
+export function filterEntriesByPortfolio (entries: LedgerEntry[], portfolioId: string | null): LedgerEntry[] {
+  if (portfolioId == null) return entries
+  return entries.filter((entry) => entry.portfolioId === portfolioId)
+}
+
+/**
+ * Take `quantity` out of the open lots using the given matching method and
+ * return the cost of what was removed.
+ */
+function consumeLots (lots: Lot[], quantity: number, method: CostBasisMethod): number {
+  if (method === 'AVERAGE') {
+    const held = lots.reduce((sum, lot) => sum + lot.quantity, 0)
+    if (held <= 0) return 0
+    const unitCost = lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0) / held
+    const remaining = roundQuantity(held - quantity)
+    lots.splice(0, lots.length)
+    if (remaining > 0) lots.push({ tradeDate: null, quantity: remaining, unitCost })
+    return Math.min(quantity, held) * unitCost
+  }
+
+  let toMatch = quantity
+  let matchedCost = 0
+
+  while (toMatch > 0 && lots.length > 0) {
+    const lot = method === 'LIFO' ? lots[lots.length - 1] : lots[0]
+    const used = Math.min(lot.quantity, toMatch)
+    matchedCost += used * lot.unitCost
+    lot.quantity = roundQuantity(lot.quantity - used)
+    toMatch = roundQuantity(toMatch - used)
+    if (lot.quantity <= 0) {
+      if (method === 'LIFO') lots.pop()
+      else lots.shift()
+    }
+  }
+
+  return matchedCost
+}
+
+/**
+ * Replay the ledger up to and including `asOfDate`, matching sells against
+ * open lots with the given method (FIFO by default).
+ * BUY fees are capitalised into the lot, SELL fees reduce realized P&L,
+ * FEE entries are tracked separately.
+ * Lots are matched within their portfolio: a SELL never consumes a lot bought
+ * in another portfolio, so replaying several portfolios at once (the
+ * aggregate) gives the sum of the per-portfolio positions.
+ */
+export function computePositionsAsOf (
+  entries: LedgerEntry[],
+  asOfDate: string,
+  method: CostBasisMethod = 'FIFO'
+): Position[] {
+  const positions = new Map<string, Position>()
+
+  const getPosition = (portfolioId: string | null, symbol: string): Position => {
+    const key = `${portfolioId ?? ''}|${symbol}`
+    let position = positions.get(key)
+    if (!position) {
+      position = { symbol, quantity: 0, costBasis: 0, realizedPnl: 0, dividends: 0, fees: 0, lots: [], adjustedQuantity: 0 }
+      positions.set(key, position)
+    }
+    return position
+  }
+
+  // Per portfolio and symbol: product of the market split ratios after asOfDate
+  const laterSplitFactors = new Map<string, number>()
+
+  for (const entry of entries) {
+    if (!entry.symbol) continue
+
+    if (entry.tradeDate != null && entry.tradeDate > asOfDate) {
+      if (entry.type === 'SPLIT' && entry.marketSplit && entry.splitRatio != null && entry.splitRatio > 0) {
+        const key = `${entry.portfolioId ?? ''}|${entry.symbol}`
+        laterSplitFactors.set(key, (laterSplitFactors.get(key) ?? 1) * entry.splitRatio)
+      }
+      continue
+    }
+
+    const position = getPosition(entry.portfolioId, entry.symbol)
+
+    switch (entry.type) {
+      case 'BUY':
+        if (entry.quantity > 0) {
+          position.lots.push({
+            tradeDate: entry.tradeDate,
+            quantity: entry.quantity,
+            unitCost: (entry.quantity * entry.price + entry.fee) / entry.quantity
+          })
+        }
+        break
+      case 'SELL': {
+        const held = position.lots.reduce((sum, lot) => sum + lot.quantity, 0)
+        const sold = Math.min(entry.quantity, held)
+        if (sold <= 0) break
+        const matchedCost = consumeLots(position.lots, sold, method)
+        const feeShare = entry.quantity > 0 ? entry.fee * (sold / entry.quantity) : entry.fee
+        position.realizedPnl += sold * entry.price - feeShare - matchedCost
+        break
+      }
+      case 'SPLIT':
+        if (entry.splitRatio != null && entry.splitRatio > 0) {
+          for (const lot of position.lots) {
+            lot.quantity = roundQuantity(lot.quantity * entry.splitRatio)
+            lot.unitCost = lot.unitCost / entry.splitRatio
+          }
+        }
+        break
+      case 'DIVIDEND':
+        position.dividends += entry.dividendPerShare != null
+          ? entry.dividendPerShare * position.lots.reduce((sum, lot) => sum + lot.quantity, 0)
+          : entry.amount
+        break
+      case 'FEE':
+        position.fees += entry.amount
+        break
+    }
+  }
+
+  const bySymbol = new Map<string, Position>()
+  for (const [key, position] of positions) {
+    const held = position.lots.reduce((sum, lot) => sum + lot.quantity, 0)
+    position.adjustedQuantity = roundQuantity(held * (laterSplitFactors.get(key) ?? 1))
+
+    const merged = bySymbol.get(position.symbol)
+    if (!merged) {
+      bySymbol.set(position.symbol, position)
+      continue
+    }
+    merged.realizedPnl += position.realizedPnl
+    merged.dividends += position.dividends
+    merged.fees += position.fees
+    merged.lots.push(...position.lots)
+    merged.adjustedQuantity += position.adjustedQuantity
+  }
+
+  for (const position of bySymbol.values()) {
+    position.quantity = roundQuantity(position.lots.reduce((sum, lot) => sum + lot.quantity, 0))
+    position.costBasis = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0)
+  }
+
+  return [...bySymbol.values()]
+}
+
+/**
+ * Quantity held just before each SELL that takes more than that, replaying
+ * the whole (sorted) ledger per portfolio and symbol as computePositionsAsOf
+ * does.
+ */
+function findOversoldSells (entries: LedgerEntry[]): Map<LedgerEntry, number> {
+  const heldByKey = new Map<string, number>()
+  const oversold = new Map<LedgerEntry, number>()
+
+  for (const entry of entries) {
+    if (!entry.symbol) continue
+    const key = `${entry.portfolioId ?? ''}|${entry.symbol}`
+    const held = heldByKey.get(key) ?? 0
+
+    switch (entry.type) {
+      case 'BUY':
+        if (entry.quantity > 0) heldByKey.set(key, roundQuantity(held + entry.quantity))
+        break
+      case 'SELL':
+        if (roundQuantity(entry.quantity - held) > 0) oversold.set(entry, held)
+        heldByKey.set(key, roundQuantity(Math.max(held - entry.quantity, 0)))
+        break
+      case 'SPLIT':
+        if (entry.splitRatio != null && entry.splitRatio > 0) heldByKey.set(key, roundQuantity(held * entry.splitRatio))
+        break
+    }
+  }
+
+  return oversold
+}
+
+/**
+ * First SELL short in the `after` ledger that had enough shares in `before`
+ * (or is new there): the change from one to the other leaves it short. Sells
+ * short already are not blamed on the change. Entries are matched by stored
+ * id, or by identity when not stored yet.
+ */
+export function findSellShortfall (
+  before: LedgerEntry[],
+  after: LedgerEntry[]
+): { entry: LedgerEntry; held: number } | null {
+  const shortBefore = new Set([...findOversoldSells(before).keys()].map((entry) => entry.id ?? entry))
+  for (const [entry, held] of findOversoldSells(after)) {
+    if (!shortBefore.has(entry.id ?? entry)) return { entry, held }
+  }
+  return null
+}
+
+/**
+ * First SELL of the portfolio that removing the stored lot or transaction
+ * `id` would leave short; null when it can be deleted
+ */
+export async function findRemovalShortfall (
+  uid: string,
+  portfolioId: string | null,
+  id: string
+): Promise<{ entry: LedgerEntry; held: number } | null> {
+  const before = filterEntriesByPortfolio((await loadLedgerEntries([uid])).get(uid) ?? [], portfolioId)
+  const after = filterEntriesByPortfolio((await loadLedgerEntries([uid], [], [id])).get(uid) ?? [], portfolioId)
+  return findSellShortfall(before, after)
+}
+
+/** Amounts are in the symbol's listing currency */
+export function summarizePosition (position: Position, market: MarketPrice | null) {
+  const marketPrice = market?.price ?? null
+  const marketValue = marketPrice != null ? position.quantity * marketPrice : null
+  return {
+    symbol: position.symbol,
+    currency: market?.currency ?? null,
+    quantity: position.quantity,
+    isOpen: position.quantity > 0,
+    costBasis: round4(position.costBasis),
+    averageCost: position.quantity > 0 ? round4(position.costBasis / position.quantity) : null,
+    marketPrice,
+    marketValue: marketValue != null ? round4(marketValue) : null,
+    realizedPnl: round4(position.realizedPnl),
+    unrealizedPnl: marketValue != null ? round4(marketValue - position.costBasis) : null,
+    dividends: round4(position.dividends),
+    fees: round4(position.fees)
+  }
+}
+
+/** Positions still held as of `asOfDate` */
+export function getOpenPositions (
+  entries: LedgerEntry[],
+  asOfDate: string,
+  method: CostBasisMethod = 'FIFO'
+): Position[] {
+  return computePositionsAsOf(entries, asOfDate, method).filter((p) => p.quantity > 0)
+}
+
+/**
+ * Ledger positions as of today, using the user's lot matching method.
+ * A null portfolio id aggregates all of the user's portfolios.
+ */
+export async function loadCurrentPositions (
+  uid: string,
+  portfolioId: string | null
+): Promise<{ method: CostBasisMethod; positions: Position[] }> {
+  const entries = filterEntriesByPortfolio((await loadLedgerEntries([uid])).get(uid) ?? [], portfolioId)
+  const method = (await getPortfolioSettings([uid])).get(uid)?.costBasisMethod ?? 'FIFO'
+  return { method, positions: computePositionsAsOf(entries, formatDate(new Date()), method) }
+}
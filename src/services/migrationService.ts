@@ -0,0 +1,136 @@
+import { MIGRATIONS, type Migration, type MigrationSql } from '../migrations/index.js'
+import { transaction } from '../utils/db.js'
+
+/** Key of the transaction-level advisory lock every runner takes; arbitrary but fixed */
+const MIGRATION_LOCK_KEY = 7_310_250_001
+
+export interface MigrationStatus {
+  version: number
+  name: string
+  appliedAt: Date | null
+  /** False for a version recorded in the database but missing from this build */
+  known: boolean
+}
+
+interface AppliedMigration {
+  name: string
+  appliedAt: Date
+}
+
+function assertMigrationOrder (): void {
+  MIGRATIONS.forEach((m, i) => {
+    if (!Number.isInteger(m.version) || (i > 0 && m.version <= MIGRATIONS[i - 1].version)) {
+      throw new Error(`Migration versions must be increasing integers; check ${m.version} ${m.name}`)
+    }
+  })
+}
+
+/**
+ * Wait for the migration lock (released when the transaction ends), then
+ * read what has been applied. Creating schema_migrations under the lock keeps
+ * two replicas starting on an empty database from racing on it.
+ */
+async function lockAndReadApplied (txSql: MigrationSql): Promise<Map<number, AppliedMigration>> {
+  await txSql`SELECT pg_advisory_xact_lock(${MIGRATION_LOCK_KEY}::bigint)`
+
+  await txSql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `
+
+  const rows = await txSql`
+    SELECT version, name, applied_at
+    FROM schema_migrations
+    ORDER BY version ASC
+  ` as unknown as Array<{ version: number; name: string; applied_at: Date }>
+
+  return new Map(rows.map((r) => [r.version, { name: r.name, appliedAt: r.applied_at }]))
+}
+
+/**
+ * Apply pending migrations up to `targetVersion` (all by default), each in
+ * its own transaction together with its schema_migrations row. Replicas
+ * running this at once take turns on the advisory lock and re-read what the
+ * other applied, so every migration runs exactly once. Returns the
+ * migrations this call applied.
+ */
+export async function migrateUp (targetVersion = Number.POSITIVE_INFINITY): Promise<Migration[]> {
+  assertMigrationOrder()
+
+  const applied: Migration[] = []
+  for (;;) {
+    const migration = await transaction(async (txSql) => {
+      const done = await lockAndReadApplied(txSql)
+      if (applied.length === 0) {
+        const unknown = [...done.keys()].filter((v) => !MIGRATIONS.some((m) => m.version === v))
+        if (unknown.length > 0) {
+          console.warn(`⚠️  Database has migration(s) ${unknown.join(', ')} that this build does not know`)
+        }
+      }
+
+      const next = MIGRATIONS.find((m) => m.version <= targetVersion && !done.has(m.version))
+      if (!next) return null
+
+      await next.up(txSql)
+      await txSql`
+        INSERT INTO schema_migrations (version, name)
+        VALUES (${next.version}, ${next.name})
+      `
+      return next
+    })
+
+    if (!migration) return applied
+    console.log(`✅ Applied migration ${migration.version} ${migration.name}`)
+    applied.push(migration)
+  }
+}
+
+/** Revert the `steps` most recently applied migrations, newest first; returns the reverted ones */
+export async function migrateDown (steps = 1): Promise<Migration[]> {
+  assertMigrationOrder()
+
+  const reverted: Migration[] = []
+  while (reverted.length < steps) {
+    const migration = await transaction(async (txSql) => {
+      const done = await lockAndReadApplied(txSql)
+      const latest = Math.max(...done.keys())
+      if (!Number.isFinite(latest)) return null
+
+      const previous = MIGRATIONS.find((m) => m.version === latest)
+      if (!previous) {
+        throw new Error(`Migration ${latest} (${done.get(latest)!.name}) is applied but not part of this build`)
+      }
+
+      await previous.down(txSql)
+      await txSql`DELETE FROM schema_migrations WHERE version = ${previous.version}`
+      return previous
+    })
+
+    if (!migration) break
+    console.log(`✅ Reverted migration ${migration.version} ${migration.name}`)
+    reverted.push(migration)
+  }
+  return reverted
+}
+
+/** Every known migration plus any unknown applied version, in version order */
+export async function getMigrationStatus (): Promise<MigrationStatus[]> {
+  const done = await transaction(lockAndReadApplied)
+
+  const statuses: MigrationStatus[] = MIGRATIONS.map((m) => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: done.get(m.version)?.appliedAt ?? null,
+    known: true
+  }))
+  for (const [version, row] of done) {
+    if (!MIGRATIONS.some((m) => m.version === version)) {
+      statuses.push({ version, name: row.name, appliedAt: row.appliedAt, known: false })
+    }
+  }
+
+  return statuses.sort((a, b) => a.version - b.version)
+}
@@ -0,0 +1,104 @@
+import { createHmac } from 'crypto'
+import type { Notification } from '../models/notification.js'
+import {
+  listUndeliveredNotifications,
+  markNotificationDelivery
+} from '../repositories/notificationRepository.js'
+
+const MAX_DELIVERY_ATTEMPTS = 5
+const DELIVERY_BATCH_SIZE = 100
+const WEBHOOK_TIMEOUT_MS = 10000
+
+/**
+ * Pushes outbox notifications somewhere outside the app. deliver() throws on
+ * failure; the notification stays in the outbox and is retried next cycle.
+ */
+export interface NotificationChannel {
+  name: string
+  deliver (notification: Notification): Promise<void>
+}
+
+/**
+ * POSTs each notification as JSON. With a secret, the body is signed with
+ * HMAC-SHA256 in the x-signature header so receivers can verify it.
+ */
+export function createWebhookChannel (url: string, secret?: string): NotificationChannel {
+  return {
+    name: 'webhook',
+    async deliver (notification: Notification): Promise<void> {
+      const body = JSON.stringify({
+        id: notification.id,
+        uid: notification.uid,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        payload: notification.payload,
+        createdAt: notification.createdAt
+      })
+
+      const headers: Record<string, string> = { 'content-type': 'application/json' }
+      if (secret) {
+        headers['x-signature'] = createHmac('sha256', secret).update(body).digest('hex')
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      })
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`)
+      }
+    }
+  }
+}
+
+const channels: NotificationChannel[] = []
+
+export function registerNotificationChannel (channel: NotificationChannel): void {
+  channels.push(channel)
+}
+
+/** Channels configured through the environment (NOTIFICATION_WEBHOOK_URL / _SECRET) */
+export function registerConfiguredNotificationChannels (): void {
+  const webhookUrl = process.env.NOTIFICATION_WEBHOOK_URL
+  if (webhookUrl) {
+    registerNotificationChannel(createWebhookChannel(webhookUrl, process.env.NOTIFICATION_WEBHOOK_SECRET))
+    console.log('🔔 Notification webhook channel registered')
+  }
+}
+
+/**
+ * Push undelivered notifications through every registered channel. A
+ * notification counts as delivered only when all channels accepted it.
+ * Without channels the outbox is only read through the API.
+ */
+export async function dispatchPendingNotifications (): Promise<{ delivered: number; failed: number }> {
+  if (channels.length === 0) return { delivered: 0, failed: 0 }
+
+  const pending = await listUndeliveredNotifications(MAX_DELIVERY_ATTEMPTS, DELIVERY_BATCH_SIZE)
+  let delivered = 0
+  let failed = 0
+
+  for (const notification of pending) {
+    const errors: string[] = []
+    for (const channel of channels) {
+      try {
+        await channel.deliver(notification)
+      } catch (err) {
+        errors.push(`${channel.name}: ${err instanceof Error ? err.message : String(err)}`)
+      }
+    }
+
+    if (errors.length > 0) {
+      console.warn(`Could not deliver notification ${notification.id}:`, errors.join('; '))
+      failed++
+    } else {
+      delivered++
+    }
+    await markNotificationDelivery(notification.id, errors.length > 0 ? errors.join('; ') : null)
+  }
+
+  return { delivered, failed }
+}
@@ -0,0 +1,282 @@
+import type { UserDailyStockResume } from '../models/userDailyStockResume.js'
+import { findActiveJobRun } from '../repositories/jobRunRepository.js'
+import { getResumesForUserInRange } from '../repositories/userDailyStockResumeRepository.js'
+import { addDays } from '../utils/timezone.js'
+import { getTradingDaysInRange } from '../utils/tradingCalendar.js'
+import { filterEntriesByPortfolio, loadLedgerEntries } from './ledgerService.js'
+import { RESUME_BACKFILL_JOB, enqueueResumeBackfill } from './jobQueueService.js'
+import { ON_DEMAND_RESUME_DAYS, getTodayDateString, loadResumeSeries } from './portfolioResumeService.js'
+import { round4 } from '../utils/number.js'
+
+export const PERFORMANCE_PERIODS = ['1M', 'YTD', '1Y', 'INCEPTION'] as const
+
+export type PerformancePeriod = typeof PERFORMANCE_PERIODS[number] | 'CUSTOM'
+
+export interface PeriodPerformance {
+  period: PerformancePeriod
+  from: string
+  to: string
+  startValue: number
+  endValue: number
+  /** Money put in (buys) minus money taken out (sale proceeds) over the period */
+  netCashFlow: number
+  /** Time-weighted return in percent; independent of when money was added */
+  twr: number | null
+  /** Money-weighted annualized return (XIRR) in percent */
+  xirr: number | null
+}
+
+/** Resumes missing from before the on-demand window, and the job computing them */
+export interface PerformanceBackfill {
+  missingDays: number
+  jobId: string
+}
+
+interface CashFlow {
+  date: string
+  amount: number
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const XIRR_MAX_ITERATIONS = 100
+const XIRR_TOLERANCE = 1e-7
+
+function shiftDate (date: string, { months = 0, years = 0 }: { months?: number; years?: number }): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCFullYear(d.getUTCFullYear() + years, d.getUTCMonth() + months)
+  return d.toISOString().slice(0, 10)
+}
+
+/** First trade date in the ledger; null when the user has no dated entries */
+export async function getInceptionDate (uid: string, portfolioId: string | null): Promise<string | null> {
+  const entries = filterEntriesByPortfolio((await loadLedgerEntries([uid])).get(uid) ?? [], portfolioId)
+  const first = entries.find((e) => e.tradeDate != null)
+  return first?.tradeDate ?? null
+}
+
+/**
+ * Start date of a standard period ending at `toDate`. Inception falls back to
+ * one year when the ledger has no dated lots.
+ */
+export function getPerformancePeriodStart (period: typeof PERFORMANCE_PERIODS[number], toDate: string, inceptionDate: string | null): string {
+  switch (period) {
+    case '1M':
+      return shiftDate(toDate, { months: -1 })
+    case 'YTD':
+      return `${toDate.slice(0, 4)}-01-01`
+    case '1Y':
+      return shiftDate(toDate, { years: -1 })
+    case 'INCEPTION':
+      return inceptionDate ?? shiftDate(toDate, { years: -1 })
+  }
+}
+
+/**
+ * External cash flow into the holdings between two consecutive resumes.
+ * A buy raises invested by its cost; a sale lowers invested by the matched
+ * cost and adds the gain to realized P&L, so the proceeds that left are
+ * -Δinvested + Δrealized.
+ */
+function getCashFlow (previous: UserDailyStockResume, current: UserDailyStockResume): number {
+  const investedDelta = current.totalInvested - previous.totalInvested
+  const realizedDelta = current.totalRealizedPnl - previous.totalRealizedPnl
+  return investedDelta - realizedDelta
+}
+
+/**
+ * Flow-adjusted daily returns (fractions) between consecutive resumes; days
+ * that start with nothing held are left out.
+ */
+export function computeDailyReturns (resumes: UserDailyStockResume[]): Array<{ startDate: string; date: string; value: number }> {
+  const returns: Array<{ startDate: string; date: string; value: number }> = []
+  for (let i = 1; i < resumes.length; i++) {
+    const previousValue = resumes[i - 1].totalValue
+    if (previousValue <= 0) continue
+    const flow = getCashFlow(resumes[i - 1], resumes[i])
+    returns.push({ startDate: resumes[i - 1].resumeDate, date: resumes[i].resumeDate, value: (resumes[i].totalValue - flow) / previousValue - 1 })
+  }
+  return returns
+}
+
+/**
+ * Cumulative time-weighted return (percent) at every resume date, chaining
+ * daily returns. Flows are assumed to happen at the close, so a day's return
+ * is (value - flow) / previous value. Days before the first holding stay at 0.
+ */
+export function computeTwrSeries (resumes: UserDailyStockResume[]): Array<{ date: string; twr: number }> {
+  if (resumes.length === 0) return []
+
+  let growth = 1
+  const series = [{ date: resumes[0].resumeDate, twr: 0 }]
+
+  for (let i = 1; i < resumes.length; i++) {
+    const previousValue = resumes[i - 1].totalValue
+    if (previousValue > 0) {
+      const flow = getCashFlow(resumes[i - 1], resumes[i])
+      growth *= (resumes[i].totalValue - flow) / previousValue
+    }
+    series.push({ date: resumes[i].resumeDate, twr: (growth - 1) * 100 })
+  }
+
+  return series
+}
+
+/** Time-weighted return over the whole series; null when nothing was held */
+export function computeTwr (resumes: UserDailyStockResume[]): number | null {
+  if (!resumes.slice(0, -1).some((r) => r.totalValue > 0)) return null
+  const series = computeTwrSeries(resumes)
+  return series[series.length - 1].twr
+}
+
+function npv (rate: number, flows: CashFlow[]): number {
+  const t0 = new Date(flows[0].date).getTime()
+  return flows.reduce((sum, f) => {
+    const years = (new Date(f.date).getTime() - t0) / MS_PER_DAY / 365
+    return sum + f.amount / Math.pow(1 + rate, years)
+  }, 0)
+}
+
+/**
+ * Annualized internal rate of return of dated flows (investor's view:
+ * negative = paid in). Newton's method, falling back to bisection.
+ */
+export function computeXirr (flows: CashFlow[]): number | null {
+  if (flows.length < 2) return null
+  if (!flows.some((f) => f.amount > 0) || !flows.some((f) => f.amount < 0)) return null
+
+  let rate = 0.1
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = npv(rate, flows)
+    const derivative = (npv(rate + 1e-6, flows) - value) / 1e-6
+    if (!Number.isFinite(derivative) || derivative === 0) break
+
+    const next = rate - value / derivative
+    if (!Number.isFinite(next) || next <= -1) break
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) return next
+    rate = next
+  }
+
+  let low = -0.9999
+  let high = 10
+  if (npv(low, flows) * npv(high, flows) > 0) return null
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    if (npv(low, flows) * npv(mid, flows) <= 0) high = mid
+    else low = mid
+    if (high - low < XIRR_TOLERANCE) break
+  }
+  return (low + high) / 2
+}
+
+/** Flows for XIRR: the starting value paid in, every cash flow, the end value taken out */
+function toXirrFlows (resumes: UserDailyStockResume[]): CashFlow[] {
+  const first = resumes[0]
+  const last = resumes[resumes.length - 1]
+  const flows: CashFlow[] = []
+
+  if (first.totalValue > 0) flows.push({ date: first.resumeDate, amount: -first.totalValue })
+  for (let i = 1; i < resumes.length; i++) {
+    const flow = getCashFlow(resumes[i - 1], resumes[i])
+    if (Math.abs(flow) > 1e-8) flows.push({ date: resumes[i].resumeDate, amount: -flow })
+  }
+  flows.push({ date: last.resumeDate, amount: last.totalValue })
+
+  return flows
+}
+
+export function computePeriodPerformance (
+  period: PerformancePeriod,
+  from: string,
+  to: string,
+  resumes: UserDailyStockResume[]
+): PeriodPerformance {
+  const inRange = resumes.filter((r) => r.resumeDate >= from && r.resumeDate <= to)
+  if (inRange.length === 0) {
+    return { period, from, to, startValue: 0, endValue: 0, netCashFlow: 0, twr: null, xirr: null }
+  }
+
+  let netCashFlow = 0
+  for (let i = 1; i < inRange.length; i++) {
+    netCashFlow += getCashFlow(inRange[i - 1], inRange[i])
+  }
+
+  const twr = computeTwr(inRange)
+  const xirr = computeXirr(toXirrFlows(inRange))
+
+  return {
+    period,
+    from: inRange[0].resumeDate,
+    to: inRange[inRange.length - 1].resumeDate,
+    startValue: inRange[0].totalValue,
+    endValue: inRange[inRange.length - 1].totalValue,
+    netCashFlow: round4(netCashFlow),
+    twr: twr != null ? round4(twr) : null,
+    xirr: xirr != null ? round4(xirr * 100) : null
+  }
+}
+
+/**
+ * Resume series over [from, to] without computing years of history in the
+ * request: days within ON_DEMAND_RESUME_DAYS of today are filled on demand,
+ * older ones are read as stored. Market days missing from the older part are
+ * queued as a backfill for the user (unless one is already queued or
+ * running), so a later request sees the complete series.
+ */
+async function loadPerformanceSeries (
+  uid: string,
+  fromDate: string,
+  toDate: string,
+  portfolioId: string | null
+): Promise<{ resumes: UserDailyStockResume[]; backfill: PerformanceBackfill | null }> {
+  const onDemandFrom = addDays(getTodayDateString(), -ON_DEMAND_RESUME_DAYS)
+  if (fromDate >= onDemandFrom) {
+    return { resumes: await loadResumeSeries(uid, fromDate, toDate, portfolioId), backfill: null }
+  }
+
+  const storedTo = toDate < onDemandFrom ? toDate : addDays(onDemandFrom, -1)
+  const stored = await getResumesForUserInRange(uid, fromDate, storedTo, portfolioId)
+  const recent = toDate >= onDemandFrom ? await loadResumeSeries(uid, onDemandFrom, toDate, portfolioId) : []
+
+  const storedDates = new Set(stored.map((r) => r.resumeDate))
+  const missingDates = getTradingDaysInRange(null, fromDate, storedTo).filter((d) => !storedDates.has(d))
+  if (missingDates.length === 0) return { resumes: [...stored, ...recent], backfill: null }
+
+  const job = await findActiveJobRun(RESUME_BACKFILL_JOB, { uids: [uid] }) ??
+    await enqueueResumeBackfill(missingDates, [uid])
+  return {
+    resumes: [...stored, ...recent],
+    backfill: { missingDays: missingDates.length, jobId: job.id }
+  }
+}
+
+/**
+ * TWR and XIRR of a portfolio (or the user's aggregate) for the standard
+ * periods ending today, plus an optional custom range. `backfill` is set when
+ * older resumes were missing; periods reaching back that far are computed
+ * from the stored days only until the job has run.
+ */
+export async function computePerformance (
+  uid: string,
+  portfolioId: string | null,
+  custom: { from: string; to: string } | null = null
+): Promise<{ currency: string | null; periods: PeriodPerformance[]; backfill: PerformanceBackfill | null }> {
+  const todayStr = getTodayDateString()
+  const inceptionDate = await getInceptionDate(uid, portfolioId)
+
+  const ranges: Array<{ period: PerformancePeriod; from: string; to: string }> = PERFORMANCE_PERIODS.map((period) => ({
+    period,
+    from: getPerformancePeriodStart(period, todayStr, inceptionDate),
+    to: todayStr
+  }))
+  if (custom) ranges.push({ period: 'CUSTOM', ...custom })
+
+  const from = ranges.reduce((min, r) => (r.from < min ? r.from : min), todayStr)
+  const to = ranges.reduce((max, r) => (r.to > max ? r.to : max), todayStr)
+  const { resumes, backfill } = await loadPerformanceSeries(uid, from, to, portfolioId)
+
+  return {
+    currency: resumes.length > 0 ? resumes[resumes.length - 1].currency : null,
+    periods: ranges.map((r) => computePeriodPerformance(r.period, r.from, r.to, resumes)),
+    backfill
+  }
+}
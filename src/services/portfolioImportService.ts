@@ -0,0 +1,548 @@
+import { parseCsv } from '../utils/csv.js'
+import { MAX_DECIMAL_VALUE, QUANTITY_DECIMALS, isValidDateString } from '../utils/validation.js'
+import { insertImportedHoldings, listLots, type ImportedLot } from '../repositories/userStocksRepository.js'
+import { deleteResumesForUserFromDate } from '../repositories/userDailyStockResumeRepository.js'
+import type { PortfolioTransactionPayload } from '../models/portfolioTransaction.js'
+import {
+  filterEntriesByPortfolio,
+  findSellShortfall,
+  loadLedgerEntries,
+  sortLedgerEntries,
+  type LedgerEntry
+} from './ledgerService.js'
+import { resolveSymbols, searchSymbols } from './symbolService.js'
+
+export const IMPORT_FORMATS = ['IBKR', 'DEGIRO', 'TRADING212', 'GENERIC'] as const
+
+export type ImportFormat = typeof IMPORT_FORMATS[number]
+
+export const IMPORT_FIELDS = ['symbol', 'isin', 'side', 'quantity', 'price', 'fee', 'date'] as const
+
+export type ImportField = typeof IMPORT_FIELDS[number]
+
+/** Order of day, month and year in dates that are neither ISO nor YYYYMMDD */
+export type DateOrder = 'DMY' | 'MDY' | 'YMD'
+
+/**
+ * Column-mapping profile of a broker export. Each field lists the header
+ * names it may appear under (case-insensitive, first match wins).
+ */
+export interface ImportProfile {
+  format: ImportFormat
+  description: string
+  columns: Record<ImportField, string[]>
+  dateOrder: DateOrder
+  decimalSeparator: '.' | ','
+}
+
+export const IMPORT_PROFILES: Record<ImportFormat, ImportProfile> = {
+  IBKR: {
+    format: 'IBKR',
+    description: 'Interactive Brokers activity statement (Trades section) or Flex Query trades',
+    columns: {
+      symbol: ['symbol'],
+      isin: ['isin'],
+      side: ['buy/sell'],
+      quantity: ['quantity'],
+      price: ['t. price', 'tradeprice'],
+      fee: ['comm/fee', 'ibcommission'],
+      date: ['date/time', 'tradedate']
+    },
+    dateOrder: 'YMD',
+    decimalSeparator: '.'
+  },
+  DEGIRO: {
+    format: 'DEGIRO',
+    description: 'Degiro Transactions.csv (symbols are resolved from the ISIN)',
+    columns: {
+      symbol: [],
+      isin: ['isin'],
+      side: [],
+      quantity: ['quantity'],
+      price: ['price'],
+      fee: ['transaction and/or third party fees', 'transaction and/or third', 'transaction costs'],
+      date: ['date']
+    },
+    dateOrder: 'DMY',
+    decimalSeparator: ','
+  },
+  TRADING212: {
+    format: 'TRADING212',
+    description: 'Trading 212 history export; rows other than buys and sells are skipped',
+    columns: {
+      symbol: ['ticker'],
+      isin: ['isin'],
+      side: ['action'],
+      quantity: ['no. of shares'],
+      price: ['price / share'],
+      fee: ['transaction fee'],
+      date: ['time']
+    },
+    dateOrder: 'YMD',
+    decimalSeparator: '.'
+  },
+  GENERIC: {
+    format: 'GENERIC',
+    description: 'One trade per row: symbol, quantity, price, date, optional side and fee',
+    columns: {
+      symbol: ['symbol', 'ticker'],
+      isin: ['isin'],
+      side: ['side', 'type', 'action'],
+      quantity: ['quantity', 'qty', 'shares'],
+      price: ['price', 'purchase price', 'unit price'],
+      fee: ['fee', 'fees', 'commission'],
+      date: ['date', 'trade date', 'purchase date']
+    },
+    dateOrder: 'YMD',
+    decimalSeparator: '.'
+  }
+}
+
+/** Keeps a request (and the transaction) bounded; larger histories can be split */
+export const MAX_IMPORT_ROWS = 2000
+/** ISIN searches go through the Yahoo rate limiter; the rest need a symbolMap entry */
+const MAX_ISIN_LOOKUPS = 10
+
+export interface ImportOptions {
+  format: ImportFormat
+  /** Header name per field, replacing the profile's candidates */
+  columns?: Partial<Record<ImportField, string>>
+  dateOrder?: DateOrder
+  decimalSeparator?: '.' | ','
+  /** Yahoo symbol per broker ticker or ISIN, e.g. { "IE00B4L5Y983": "IWDA.AS" } */
+  symbolMap?: Record<string, string>
+}
+
+export type ImportRowStatus = 'VALID' | 'DUPLICATE' | 'SKIPPED' | 'ERROR'
+
+export interface ImportRow {
+  /** 1-based position among the data rows */
+  row: number
+  status: ImportRowStatus
+  side: 'BUY' | 'SELL' | null
+  symbol: string | null
+  isin: string | null
+  quantity: number | null
+  price: number | null
+  fee: number
+  tradeDate: string | null
+  errors: string[]
+  /** Existing lot with the same symbol, date and quantity */
+  duplicateOfLotId: string | null
+}
+
+export interface ImportPreview {
+  format: ImportFormat
+  /** Header used for each field; null when the file has no such column */
+  columns: Record<ImportField, string | null>
+  rows: ImportRow[]
+  summary: {
+    rows: number
+    valid: number
+    duplicates: number
+    skipped: number
+    errors: number
+  }
+  /** ISINs resolved through Yahoo search; pass them back as symbolMap to skip the lookups */
+  resolvedSymbols: Record<string, string>
+}
+
+interface DataRow {
+  row: number
+  values: Map<string, string>
+}
+
+function round8 (value: number): number {
+  const factor = Math.pow(10, QUANTITY_DECIMALS)
+  return Math.round(value * factor) / factor
+}
+
+function toRecord (header: string[], values: string[]): Map<string, string> {
+  const record = new Map<string, string>()
+  header.forEach((name, i) => {
+    const key = name.trim().toLowerCase()
+    if (key !== '' && !record.has(key)) record.set(key, (values[i] ?? '').trim())
+  })
+  return record
+}
+
+/**
+ * Data rows keyed by lower-cased header. IBKR activity statements hold many
+ * sections; only stock orders of the Trades section are kept.
+ */
+function extractRows (format: ImportFormat, records: string[][]): { headers: Set<string>; rows: DataRow[] } {
+  const headers = new Set<string>()
+  const rows: DataRow[] = []
+
+  if (format === 'IBKR' && records.some((r) => r[0] === 'Trades' && r[1] === 'Header')) {
+    let header: string[] = []
+    for (const record of records) {
+      if (record[0] !== 'Trades') continue
+      if (record[1] === 'Header') {
+        header = record
+        for (const name of header) headers.add(name.trim().toLowerCase())
+        continue
+      }
+      const values = toRecord(header, record)
+      if (record[1] === 'Data' && values.get('datadiscriminator') === 'Order' && values.get('asset category') === 'Stocks') {
+        rows.push({ row: rows.length + 1, values })
+      }
+    }
+    return { headers, rows }
+  }
+
+  const [header = [], ...data] = records
+  for (const name of header) headers.add(name.trim().toLowerCase())
+  for (const record of data) {
+    rows.push({ row: rows.length + 1, values: toRecord(header, record) })
+  }
+  return { headers, rows }
+}
+
+function parseDecimal (raw: string | undefined, separator: '.' | ','): number | null {
+  if (raw == null) return null
+  let value = raw.replace(/[^0-9.,+-]/g, '')
+  if (value === '') return null
+  value = separator === ',' ? value.replace(/\./g, '').replace(',', '.') : value.replace(/,/g, '')
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/** ISO and YYYYMMDD dates are always accepted; others follow `order` */
+function parseDate (raw: string | undefined, order: DateOrder): string | null {
+  const token = raw?.trim().split(/[ T,]/)[0] ?? ''
+  let year: string, month: string, day: string
+
+  if (/^\d{8}$/.test(token)) {
+    [year, month, day] = [token.slice(0, 4), token.slice(4, 6), token.slice(6, 8)]
+  } else {
+    const parts = token.split(/[-/.]/)
+    if (parts.length !== 3) return null
+    if (/^\d{4}$/.test(parts[0])) {
+      [year, month, day] = parts
+    } else if (order === 'DMY') {
+      [day, month, year] = parts
+    } else if (order === 'MDY') {
+      [month, day, year] = parts
+    } else {
+      [year, month, day] = parts
+    }
+  }
+
+  if (year.length === 2) year = `20${year}`
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+  return isValidDateString(date) ? date : null
+}
+
+function parseSide (raw: string | undefined): 'BUY' | 'SELL' | null {
+  const value = raw?.trim().toLowerCase() ?? ''
+  if (/\b(buy|bought|b)\b/.test(value)) return 'BUY'
+  if (/\b(sell|sold|s)\b/.test(value)) return 'SELL'
+  return null
+}
+
+function resolveColumns (
+  headers: Set<string>,
+  profile: ImportProfile,
+  overrides: Partial<Record<ImportField, string>>
+): Record<ImportField, string | null> {
+  const columns = {} as Record<ImportField, string | null>
+  for (const field of IMPORT_FIELDS) {
+    const override = overrides[field]?.trim().toLowerCase()
+    const candidates = override ? [override] : profile.columns[field]
+    columns[field] = candidates.find((name) => headers.has(name)) ?? null
+  }
+  return columns
+}
+
+/** Normalize one data row; a row whose side is not a trade is SKIPPED */
+function normalizeRow (
+  data: DataRow,
+  columns: Record<ImportField, string | null>,
+  dateOrder: DateOrder,
+  separator: '.' | ','
+): ImportRow {
+  const get = (field: ImportField): string | undefined => (columns[field] ? data.values.get(columns[field]!) : undefined)
+  const errors: string[] = []
+
+  const rawQuantity = parseDecimal(get('quantity'), separator)
+  const price = parseDecimal(get('price'), separator)
+  const fee = Math.abs(parseDecimal(get('fee'), separator) ?? 0)
+  const tradeDate = parseDate(get('date'), dateOrder)
+  const symbol = get('symbol')?.toUpperCase() || null
+  const isin = get('isin')?.toUpperCase() || null
+
+  let side: 'BUY' | 'SELL' | null
+  if (columns.side) {
+    side = parseSide(get('side'))
+  } else {
+    side = rawQuantity != null && rawQuantity < 0 ? 'SELL' : 'BUY'
+  }
+
+  const row: ImportRow = {
+    row: data.row,
+    status: 'VALID',
+    side,
+    symbol,
+    isin,
+    quantity: rawQuantity != null ? round8(Math.abs(rawQuantity)) : null,
+    price: price != null ? round8(price) : null,
+    fee: round8(fee),
+    tradeDate,
+    errors,
+    duplicateOfLotId: null
+  }
+
+  if (side == null) {
+    row.status = 'SKIPPED'
+    errors.push(`Not a buy or sell: ${get('side') ?? ''}`.trim())
+    return row
+  }
+
+  if (!symbol && !isin) errors.push('symbol or ISIN is required')
+  if (row.quantity == null || row.quantity <= 0) errors.push('quantity must be greater than 0')
+  else if (row.quantity >= MAX_DECIMAL_VALUE) errors.push(`quantity must be less than ${MAX_DECIMAL_VALUE}`)
+  if (row.price == null || row.price < 0) errors.push('price is required and must not be negative')
+  else if (row.price >= MAX_DECIMAL_VALUE) errors.push(`price must be less than ${MAX_DECIMAL_VALUE}`)
+  if (tradeDate == null) {
+    errors.push(`date is missing or not a ${dateOrder} date`)
+  } else if (tradeDate > new Date().toISOString().slice(0, 10)) {
+    errors.push('date is in the future')
+  }
+
+  if (errors.length > 0) row.status = 'ERROR'
+  return row
+}
+
+/**
+ * Yahoo symbol per row: a symbolMap entry (by ticker or ISIN) first, then the
+ * broker ticker for US listings, else an ISIN search. Unknown symbols turn
+ * the row into an error.
+ */
+async function assignSymbols (
+  rows: ImportRow[],
+  symbolMap: Record<string, string>
+): Promise<Record<string, string>> {
+  const mapped = new Map(Object.entries(symbolMap).map(([k, v]) => [k.trim().toUpperCase(), v.trim().toUpperCase()]))
+  const resolvedIsins: Record<string, string> = {}
+  const pending = rows.filter((r) => r.status === 'VALID')
+
+  const isinsToSearch = new Set<string>()
+  for (const row of pending) {
+    const fromMap = (row.isin ? mapped.get(row.isin) : undefined) ?? (row.symbol ? mapped.get(row.symbol) : undefined)
+    if (fromMap) {
+      row.symbol = fromMap
+    } else if (row.isin && (!row.symbol || !row.isin.startsWith('US'))) {
+      isinsToSearch.add(row.isin)
+    }
+  }
+
+  let lookups = 0
+  for (const isin of isinsToSearch) {
+    if (lookups >= MAX_ISIN_LOOKUPS) break
+    lookups++
+    try {
+      const match = (await searchSymbols(isin))[0]
+      if (match) resolvedIsins[isin] = match.symbol
+    } catch (err) {
+      console.warn(`ISIN lookup failed for ${isin}:`, err)
+    }
+  }
+
+  for (const row of pending) {
+    if (row.isin && isinsToSearch.has(row.isin)) {
+      const resolved = resolvedIsins[row.isin]
+      if (resolved) {
+        row.symbol = resolved
+      } else {
+        row.status = 'ERROR'
+        row.errors.push(`Could not resolve ISIN ${row.isin}; add it to symbolMap`)
+      }
+    }
+  }
+
+  const candidates = pending.filter((r) => r.status === 'VALID' && r.symbol)
+  let known: Set<string> | null = null
+  try {
+    known = new Set((await resolveSymbols(candidates.map((r) => r.symbol!))).keys())
+  } catch (err) {
+    console.error('Error validating import symbols:', err)
+  }
+
+  for (const row of candidates) {
+    if (known == null) {
+      row.status = 'ERROR'
+      row.errors.push('Symbol validation is temporarily unavailable')
+    } else if (!known.has(row.symbol!)) {
+      row.status = 'ERROR'
+      row.errors.push(`Unknown symbol: ${row.symbol}; map it with symbolMap`)
+    }
+  }
+
+  return resolvedIsins
+}
+
+/** Each existing lot can match one buy row with the same symbol, date and quantity */
+async function markDuplicates (uid: string, portfolioId: string, rows: ImportRow[]): Promise<void> {
+  const existing = new Map<string, string[]>()
+  for (const lot of await listLots(uid, portfolioId)) {
+    if (!lot.purchaseDate) continue
+    const date = lot.purchaseDate instanceof Date ? lot.purchaseDate.toISOString().slice(0, 10) : String(lot.purchaseDate)
+    const key = `${lot.symbol}|${date}|${lot.quantity}`
+    if (!existing.has(key)) existing.set(key, [])
+    existing.get(key)!.push(lot.id)
+  }
+
+  for (const row of rows) {
+    if (row.status !== 'VALID' || row.side !== 'BUY') continue
+    const lotId = existing.get(`${row.symbol}|${row.tradeDate}|${row.quantity}`)?.shift()
+    if (lotId) {
+      row.status = 'DUPLICATE'
+      row.duplicateOfLotId = lotId
+    }
+  }
+}
+
+function toLedgerEntry (uid: string, portfolioId: string, row: ImportRow): LedgerEntry {
+  return {
+    id: null,
+    uid,
+    portfolioId,
+    symbol: row.symbol,
+    type: row.side!,
+    tradeDate: row.tradeDate,
+    quantity: row.quantity!,
+    price: row.price!,
+    amount: 0,
+    fee: row.fee,
+    splitRatio: null,
+    dividendPerShare: null,
+    marketSplit: false
+  }
+}
+
+/**
+ * A sell may only take shares held on its date: the portfolio's ledger plus
+ * the imported buys and earlier imported sells. It must also not leave a
+ * later sell (stored or imported before it) short. Duplicate buys count when
+ * they are going to be imported anyway.
+ */
+async function checkSells (uid: string, portfolioId: string, rows: ImportRow[], includeDuplicates: boolean): Promise<void> {
+  const sells = rows.filter((r) => r.status === 'VALID' && r.side === 'SELL')
+  if (sells.length === 0) return
+
+  const buys = rows
+    .filter((r) => r.side === 'BUY' && (r.status === 'VALID' || (includeDuplicates && r.status === 'DUPLICATE')))
+    .map((r) => toLedgerEntry(uid, portfolioId, r))
+  // Imported buys go through the ledger load so later splits apply to them too
+  const ledger = filterEntriesByPortfolio((await loadLedgerEntries([uid], buys)).get(uid) ?? [], portfolioId)
+
+  const accepted: LedgerEntry[] = []
+  for (const sell of [...sells].sort((a, b) => a.tradeDate!.localeCompare(b.tradeDate!) || a.row - b.row)) {
+    const entry = toLedgerEntry(uid, portfolioId, sell)
+    const before = sortLedgerEntries([...ledger, ...accepted])
+    const shortfall = findSellShortfall(before, sortLedgerEntries([...before, entry]))
+    if (shortfall == null) {
+      accepted.push(entry)
+      continue
+    }
+    sell.status = 'ERROR'
+    sell.errors.push(shortfall.entry === entry
+      ? `Cannot sell ${sell.quantity} ${sell.symbol}: only ${shortfall.held} held on ${sell.tradeDate}`
+      : `Cannot sell ${sell.quantity} ${sell.symbol}: the sale of ${shortfall.entry.quantity} on ${shortfall.entry.tradeDate} would then exceed the ${shortfall.held} held`)
+  }
+}
+
+/**
+ * Parse and validate a broker export against a portfolio without writing
+ * anything. Returns an error message when the file itself can't be used.
+ */
+export async function previewImport (
+  uid: string,
+  portfolioId: string,
+  csv: string,
+  options: ImportOptions,
+  includeDuplicates = false
+): Promise<ImportPreview | { error: string }> {
+  const profile = IMPORT_PROFILES[options.format]
+  const { headers, rows: dataRows } = extractRows(options.format, parseCsv(csv))
+  if (dataRows.length === 0) return { error: 'The file has no data rows' }
+  if (dataRows.length > MAX_IMPORT_ROWS) return { error: `At most ${MAX_IMPORT_ROWS} rows can be imported at once` }
+
+  const columns = resolveColumns(headers, profile, options.columns ?? {})
+  const missing: string[] = (['quantity', 'price', 'date'] as const).filter((f) => columns[f] == null)
+  if (columns.symbol == null && columns.isin == null) missing.unshift('symbol')
+  if (missing.length > 0) {
+    return { error: `Missing column(s) for ${missing.join(', ')}; map them with columns` }
+  }
+
+  const dateOrder = options.dateOrder ?? profile.dateOrder
+  const separator = options.decimalSeparator ?? profile.decimalSeparator
+  const rows = dataRows.map((data) => normalizeRow(data, columns, dateOrder, separator))
+
+  const resolvedSymbols = await assignSymbols(rows, options.symbolMap ?? {})
+  await markDuplicates(uid, portfolioId, rows)
+  await checkSells(uid, portfolioId, rows, includeDuplicates)
+
+  return {
+    format: options.format,
+    columns,
+    rows,
+    summary: {
+      rows: rows.length,
+      valid: rows.filter((r) => r.status === 'VALID').length,
+      duplicates: rows.filter((r) => r.status === 'DUPLICATE').length,
+      skipped: rows.filter((r) => r.status === 'SKIPPED').length,
+      errors: rows.filter((r) => r.status === 'ERROR').length
+    },
+    resolvedSymbols
+  }
+}
+
+/**
+ * Write a preview without errors: buys become lots (a buy fee is folded into
+ * the purchase price, as the ledger capitalises BUY fees) and sells become
+ * SELL transactions. Duplicates are skipped unless `includeDuplicates`.
+ * Stored resumes from the earliest imported date are dropped.
+ */
+export async function commitImport (
+  uid: string,
+  portfolioId: string,
+  preview: ImportPreview,
+  includeDuplicates: boolean
+): Promise<{ lots: number; transactions: number }> {
+  const rows = preview.rows.filter((r) => r.status === 'VALID' || (includeDuplicates && r.status === 'DUPLICATE'))
+
+  const lots: ImportedLot[] = rows
+    .filter((r) => r.side === 'BUY')
+    .map((r) => ({
+      symbol: r.symbol!,
+      quantity: r.quantity!,
+      purchasePrice: round8(r.price! + r.fee / r.quantity!),
+      purchaseDate: r.tradeDate!
+    }))
+
+  const transactions: PortfolioTransactionPayload[] = rows
+    .filter((r) => r.side === 'SELL')
+    .map((r) => ({
+      portfolioId,
+      symbol: r.symbol,
+      type: 'SELL',
+      tradeDate: r.tradeDate!,
+      quantity: r.quantity,
+      price: r.price,
+      amount: null,
+      fee: r.fee,
+      splitRatio: null,
+      note: `Imported from ${preview.format} CSV`
+    }))
+
+  const result = await insertImportedHoldings(uid, portfolioId, lots, transactions)
+
+  if (rows.length > 0) {
+    const earliest = rows.reduce((min, r) => (r.tradeDate! < min ? r.tradeDate! : min), rows[0].tradeDate!)
+    await deleteResumesForUserFromDate(uid, earliest)
+  }
+
+  return result
+}
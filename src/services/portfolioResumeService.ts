@@ -1,59 +1,120 @@
-import sql from '../config/database.js'
 import { getQuotes } from '../utils/yahooRetry.js'
 import { getChartDataAsQuotes } from './chartDataService.js'
-import type { UserDailyStockResumePayload } from '../models/userDailyStockResume.js'
+import {
+  computePositionsAsOf,
+  filterEntriesByPortfolio,
+  loadLedgerEntries,
+  type Position
+} from './ledgerService.js'
+import { getFxRate, loadFxRates, normalizeCurrency, type FxRates } from './fxService.js'
+import { getPortfolioSettings, listUserIds } from '../repositories/userProfileRepository.js'
+import { ensureDefaultPortfolios, listPortfoliosForUsers } from '../repositories/portfolioRepository.js'
+import {
+  getResumesForUserInRange,
+  streamResumesForUserInRange,
+  upsertUserDailyStockResume
+} from '../repositories/userDailyStockResumeRepository.js'
+import type {
+  DividendIncome,
+  EstimatedHolding,
+  UserDailyStockResume,
+  UserDailyStockResumePayload
+} from '../models/userDailyStockResume.js'
+import { DEFAULT_BASE_CURRENCY } from '../models/user.js'
+import { getTradingDaysInRange, isMarketDay } from '../utils/tradingCalendar.js'
+import { addDays, formatDate } from '../utils/timezone.js'
 
-interface Holding {
-  symbol: string
-  quantity: number
-  purchasePrice: number | null
-}
-
-function formatDate (d: Date): string {
-  return d.toISOString().slice(0, 10)
-}
+/**
+ * Calendar days a close may be carried forward when a symbol has none on the
+ * target date (holiday on its exchange, missing bar). Override with
+ * PRICE_CARRY_FORWARD_DAYS.
+ */
+const DEFAULT_CARRY_FORWARD_DAYS = 7
 
-function isSameDate (d1: Date, d2: Date): boolean {
-  return formatDate(d1) === formatDate(d2)
-}
+/**
+ * Missing resumes are computed within a request only for this many days back
+ * from today; older gaps are left to a queued backfill.
+ */
+export const ON_DEMAND_RESUME_DAYS = 366
 
 /** Price cache: symbol -> dateStr -> price */
 type PriceCache = Map<string, Map<string, number>>
 
+/** Listing currency per symbol, as reported by Yahoo (may be a minor unit like GBp) */
+type CurrencyMap = Map<string, string | null>
+
+type ResumeData = Omit<UserDailyStockResumePayload, 'uid'>
+
+interface ValuationContext {
+  baseCurrency: string
+  currencies: CurrencyMap
+  fxRates: FxRates
+  carryForwardDays: number
+}
+
+function getCarryForwardDays (): number {
+  const fromEnv = parseInt(process.env.PRICE_CARRY_FORWARD_DAYS || '', 10)
+  return Number.isFinite(fromEnv) && fromEnv >= 0 ? fromEnv : DEFAULT_CARRY_FORWARD_DAYS
+}
+
+/**
+ * Closes per symbol for the target dates, plus the carry-forward window before
+ * them. Today's price comes from live quotes; symbols without one (or all of
+ * them when quotes fail) fall back to their daily chart. Stored daily closes
+ * are split-adjusted (a series is refetched when a new split is recorded), so
+ * they value a position's `adjustedQuantity`.
+ */
 async function buildPriceCache (
   symbols: string[],
-  targetDates: string[]
-): Promise<PriceCache> {
+  targetDates: string[],
+  carryForwardDays: number
+): Promise<{ prices: PriceCache; currencies: CurrencyMap }> {
   const cache: PriceCache = new Map()
+  const currencies: CurrencyMap = new Map()
   const todayStr = formatDate(new Date())
-  const pastDates = targetDates.filter((d) => d !== todayStr)
+  const chartDates = targetDates.filter((d) => d !== todayStr)
+  const chartSymbols = new Set(chartDates.length > 0 ? symbols : [])
 
-  if (symbols.length === 0) return cache
+  if (symbols.length === 0) return { prices: cache, currencies }
 
   if (targetDates.includes(todayStr)) {
-    const quotes = await getQuotes(symbols)
-    for (const q of quotes) {
-      if (q.symbol && typeof q.regularMarketPrice === 'number' && Number.isFinite(q.regularMarketPrice)) {
-        if (!cache.has(q.symbol)) cache.set(q.symbol, new Map())
-        cache.get(q.symbol)!.set(todayStr, q.regularMarketPrice)
+    try {
+      const quotes = await getQuotes(symbols)
+      for (const q of quotes) {
+        if (q.symbol && q.currency) currencies.set(q.symbol, q.currency)
+        if (q.symbol && typeof q.regularMarketPrice === 'number' && Number.isFinite(q.regularMarketPrice)) {
+          if (!cache.has(q.symbol)) cache.set(q.symbol, new Map())
+          cache.get(q.symbol)!.set(todayStr, q.regularMarketPrice)
+        }
       }
+    } catch (err) {
+      console.warn('Could not fetch live quotes, falling back to daily closes:', err)
+    }
+
+    const unpriced = symbols.filter((s) => !cache.get(s)?.has(todayStr))
+    if (unpriced.length > 0) {
+      chartDates.push(todayStr)
+      for (const s of unpriced) chartSymbols.add(s)
     }
   }
 
-  if (pastDates.length > 0) {
-    const minDate = new Date(Math.min(...pastDates.map((d) => new Date(d).getTime())))
-    const maxDate = new Date(Math.max(...pastDates.map((d) => new Date(d).getTime())))
-    minDate.setDate(minDate.getDate() - 1)
+  if (chartDates.length > 0) {
+    const minDate = new Date(Math.min(...chartDates.map((d) => new Date(d).getTime())))
+    const maxDate = new Date(Math.max(...chartDates.map((d) => new Date(d).getTime())))
+    minDate.setDate(minDate.getDate() - 1 - carryForwardDays)
     maxDate.setDate(maxDate.getDate() + 1)
 
-    for (const symbol of symbols) {
+    for (const symbol of chartSymbols) {
       try {
         const chart = await getChartDataAsQuotes(symbol, '1d', minDate, maxDate)
+        if (chart.currency && !currencies.get(symbol)) currencies.set(symbol, chart.currency)
         if (!cache.has(symbol)) cache.set(symbol, new Map())
         const symbolCache = cache.get(symbol)!
         for (const q of chart.quotes) {
-          if (q.date && q.close != null && Number.isFinite(q.close)) {
-            symbolCache.set(formatDate(q.date), q.close)
+          const dateStr = q.date ? formatDate(q.date) : null
+          // A live quote already set for today wins over today's (partial) daily bar
+          if (dateStr && q.close != null && Number.isFinite(q.close) && !symbolCache.has(dateStr)) {
+            symbolCache.set(dateStr, q.close)
           }
         }
       } catch (err) {
@@ -62,25 +123,91 @@ async function buildPriceCache (
     }
   }
 
-  return cache
+  return { prices: cache, currencies }
 }
 
+/** Close on the date, or else the latest close within the carry-forward window before it */
+function resolvePrice (
+  priceCache: PriceCache,
+  symbol: string,
+  targetDate: string,
+  carryForwardDays: number
+): { price: number; priceDate: string } | null {
+  const symbolPrices = priceCache.get(symbol)
+  if (!symbolPrices) return null
+  for (let i = 0; i <= carryForwardDays; i++) {
+    const priceDate = addDays(targetDate, -i)
+    const price = symbolPrices.get(priceDate)
+    if (price != null && Number.isFinite(price)) return { price, priceDate }
+  }
+  return null
+}
+
+/** FX rate into the base currency; null (with a warning) when no rate is known */
+function getConversionRate (context: ValuationContext, currency: string, date: string): number | null {
+  const rate = getFxRate(context.fxRates, currency, context.baseCurrency, date)
+  if (rate == null) {
+    console.warn(`No FX rate ${currency}->${context.baseCurrency} for ${date}`)
+  }
+  return rate
+}
+
+/**
+ * `positions` includes closed ones: they still carry realized P&L.
+ * Amounts are converted into the user's base currency: lot costs at the rate of
+ * their trade date, values and realized P&L at the rate of the target date.
+ * Holdings without a close on the day are valued at their last close within
+ * the carry-forward window and listed in `pricingQuality`. Dividends, like
+ * realized P&L, are cumulative and converted at the target date's rate.
+ * A holding lacking any of the FX rates it needs is left out of the totals
+ * (rather than summed in its own currency) and listed as UNCONVERTED.
+ */
 function computeResumeFromCache (
-  holdings: Holding[],
+  positions: Position[],
   targetDate: string,
-  priceCache: PriceCache
-): Omit<UserDailyStockResumePayload, 'uid'> {
+  priceCache: PriceCache,
+  context: ValuationContext
+): ResumeData {
   let totalInvested = 0
   let totalValue = 0
+  let totalRealizedPnl = 0
+  let totalDividends = 0
+  const estimated: EstimatedHolding[] = []
+  const dividendIncome: DividendIncome[] = []
+
+  for (const h of positions) {
+    const { currency, factor } = normalizeCurrency(context.currencies.get(h.symbol))
+    const rate = getConversionRate(context, currency, targetDate)
+    const lotRates = h.quantity > 0
+      ? h.lots.map((lot) => (lot.tradeDate != null ? getConversionRate(context, currency, lot.tradeDate) : rate))
+      : []
+    if (rate == null || lotRates.some((r) => r == null)) {
+      if (h.quantity > 0 || h.realizedPnl !== 0 || h.dividends !== 0) {
+        estimated.push({ symbol: h.symbol, quality: 'UNCONVERTED', priceDate: null })
+      }
+      continue
+    }
 
-  for (const h of holdings) {
-    const purchasePrice = h.purchasePrice ?? 0
-    const price = priceCache.get(h.symbol)?.get(targetDate)
-    const quantity = Number(h.quantity) || 0
+    totalRealizedPnl += h.realizedPnl * factor * rate
+    if (h.dividends !== 0) {
+      const amount = h.dividends * factor * rate
+      totalDividends += amount
+      dividendIncome.push({ symbol: h.symbol, amount: Math.round(amount * 10000) / 10000 })
+    }
+    if (h.quantity <= 0) continue
 
-    totalInvested += quantity * purchasePrice
-    if (price != null && Number.isFinite(price)) {
-      totalValue += quantity * price
+    const resolved = resolvePrice(priceCache, h.symbol, targetDate, context.carryForwardDays)
+
+    h.lots.forEach((lot, i) => {
+      totalInvested += lot.quantity * lot.unitCost * factor * lotRates[i]!
+    })
+    if (resolved) {
+      totalValue += h.adjustedQuantity * resolved.price * factor * rate
+      if (resolved.priceDate !== targetDate) {
+        estimated.push({ symbol: h.symbol, quality: 'STALE', priceDate: resolved.priceDate })
+      }
+    } else {
+      estimated.push({ symbol: h.symbol, quality: 'MISSING', priceDate: null })
     }
   }
 
@@ -89,140 +216,235 @@ function computeResumeFromCache (
 
   return {
     resumeDate: targetDate,
+    currency: context.baseCurrency,
     totalInvested: Math.round(totalInvested * 10000) / 10000,
     totalValue: Math.round(totalValue * 10000) / 10000,
     totalPnlValue: Math.round(totalPnlValue * 10000) / 10000,
-    totalPnlPercent: Math.round(totalPnlPercent * 10000) / 10000
+    totalPnlPercent: Math.round(totalPnlPercent * 10000) / 10000,
+    totalRealizedPnl: Math.round(totalRealizedPnl * 10000) / 10000,
+    totalUnrealizedPnl: Math.round(totalPnlValue * 10000) / 10000,
+    totalDividends: Math.round(totalDividends * 10000) / 10000,
+    dividendIncome,
+    pricingQuality: {
+      status: estimated.some((e) => e.quality !== 'STALE')
+        ? 'INCOMPLETE'
+        : estimated.length > 0 ? 'STALE' : 'COMPLETE',
+      holdings: estimated
+    }
   }
 }
 
+/** Resume of one portfolio, or of the aggregate across a user's portfolios when portfolioId is null */
+export interface ComputedResume {
+  uid: string
+  portfolioId: string | null
+  date: string
+  data: ResumeData
+}
+
 /**
- * Batch-compute resumes for multiple users and dates.
+ * Batch-compute resumes for multiple users and dates: one per portfolio plus
+ * the user's aggregate (portfolioId null).
+ * Holdings are replayed from the ledger as of each target date and valued in
+ * each user's base currency.
  * Fetches chart data once per symbol for the full date range (minimal Yahoo requests).
  */
 export async function computeResumesBatch (
   uids: string[],
   targetDates: string[]
-): Promise<Array<{ uid: string; date: string; data: Omit<UserDailyStockResumePayload, 'uid'> }>> {
+): Promise<ComputedResume[]> {
   if (uids.length === 0 || targetDates.length === 0) return []
 
-  const rows = await sql`
-    SELECT uid, symbol, quantity, purchase_price
-    FROM user_stocks
-    WHERE uid = ANY(${uids})
-  ` as unknown as Array<{ uid: string; symbol: string; quantity: number; purchase_price: number | null }>
+  await ensureDefaultPortfolios(uids)
+  const entriesByUid = await loadLedgerEntries(uids)
+  const settings = await getPortfolioSettings(uids)
+  const portfolios = await listPortfoliosForUsers(uids)
 
-  const holdingsByUid = new Map<string, Holding[]>()
+  // The aggregate (null) replays every portfolio; lots are matched per portfolio, so it equals their sum
+  const scopes: Array<{ uid: string; portfolioId: string | null }> = []
+  for (const uid of uids) {
+    scopes.push({ uid, portfolioId: null })
+    for (const p of portfolios) {
+      if (p.uid === uid) scopes.push({ uid, portfolioId: p.id })
+    }
+  }
+
+  const holdingsByKey = new Map<string, Position[]>()
   const allSymbols = new Set<string>()
 
-  for (const r of rows) {
-    if (!holdingsByUid.has(r.uid)) holdingsByUid.set(r.uid, [])
-    holdingsByUid.get(r.uid)!.push({
-      symbol: r.symbol,
-      quantity: r.quantity,
-      purchasePrice: r.purchase_price
-    })
-    allSymbols.add(r.symbol)
+  for (const { uid, portfolioId } of scopes) {
+    const entries = filterEntriesByPortfolio(entriesByUid.get(uid) ?? [], portfolioId)
+    for (const targetDate of targetDates) {
+      const positions = computePositionsAsOf(entries, targetDate, settings.get(uid)?.costBasisMethod)
+      holdingsByKey.set(`${uid}|${portfolioId ?? ''}|${targetDate}`, positions)
+      for (const p of positions) {
+        if (p.quantity > 0 || p.realizedPnl !== 0 || p.dividends !== 0) allSymbols.add(p.symbol)
+      }
+    }
   }
 
-  for (const uid of uids) {
-    if (!holdingsByUid.has(uid)) holdingsByUid.set(uid, [])
+  const symbols = [...allSymbols]
+  const carryForwardDays = getCarryForwardDays()
+  const { prices: priceCache, currencies } = await buildPriceCache(symbols, targetDates, carryForwardDays)
+
+  // FX pairs per user (symbol currency -> base currency), over every lot and target date
+  const pairs: Array<{ from: string; to: string }> = []
+  let fxFromDate = targetDates.reduce((min, d) => (d < min ? d : min), targetDates[0])
+  const fxToDate = targetDates.reduce((max, d) => (d > max ? d : max), targetDates[0])
+
+  for (const [key, positions] of holdingsByKey) {
+    const baseCurrency = settings.get(key.split('|')[0])?.baseCurrency ?? DEFAULT_BASE_CURRENCY
+    for (const p of positions) {
+      const { currency } = normalizeCurrency(currencies.get(p.symbol))
+      if (currency !== baseCurrency) pairs.push({ from: currency, to: baseCurrency })
+      for (const lot of p.lots) {
+        if (lot.tradeDate != null && lot.tradeDate < fxFromDate) fxFromDate = lot.tradeDate
+      }
+    }
   }
 
-  const symbols = [...allSymbols]
-  const priceCache = await buildPriceCache(symbols, targetDates)
+  const fxRates = await loadFxRates(pairs, fxFromDate, fxToDate)
 
-  const results: Array<{ uid: string; date: string; data: Omit<UserDailyStockResumePayload, 'uid'> }> = []
+  const results: ComputedResume[] = []
 
-  for (const uid of uids) {
-    const holdings = holdingsByUid.get(uid) ?? []
+  for (const { uid, portfolioId } of scopes) {
+    const context: ValuationContext = {
+      baseCurrency: settings.get(uid)?.baseCurrency ?? DEFAULT_BASE_CURRENCY,
+      currencies,
+      fxRates,
+      carryForwardDays
+    }
     for (const targetDate of targetDates) {
-      const data = computeResumeFromCache(holdings, targetDate, priceCache)
-      results.push({ uid, date: targetDate, data })
+      const holdings = holdingsByKey.get(`${uid}|${portfolioId ?? ''}|${targetDate}`) ?? []
+      const data = computeResumeFromCache(holdings, targetDate, priceCache, context)
+      results.push({ uid, portfolioId, date: targetDate, data })
     }
   }
 
   return results
 }
 
-export async function computeResume (uid: string, targetDate: string): Promise<Omit<UserDailyStockResumePayload, 'uid'>> {
-  const rows = await sql`
-    SELECT symbol, quantity, purchase_price
-    FROM user_stocks
-    WHERE uid = ${uid}
-  `
-  const holdings = rows as unknown as Array<{ symbol: string; quantity: number; purchase_price: number | null }>
-
-  if (holdings.length === 0) {
-    return {
-      resumeDate: targetDate,
-      totalInvested: 0,
-      totalValue: 0,
-      totalPnlValue: 0,
-      totalPnlPercent: 0
-    }
-  }
-
-  const todayStr = formatDate(new Date())
-  const targetDateObj = new Date(targetDate)
-
-  const priceMap = new Map<string, number>()
+/** Resume of one portfolio, or of all the user's portfolios when portfolioId is null */
+export async function computeResume (
+  uid: string,
+  targetDate: string,
+  portfolioId: string | null = null
+): Promise<ResumeData> {
+  const results = await computeResumesBatch([uid], [targetDate])
+  const result = results.find((r) => r.portfolioId === portfolioId)
+  if (!result) throw new Error(`Portfolio ${portfolioId} not found for user ${uid}`)
+  return result.data
+}
 
-  if (targetDate === todayStr) {
-    const symbols = [...new Set(holdings.map((h) => h.symbol))]
-    const quotes = await getQuotes(symbols)
-    for (const q of quotes) {
-      if (q.symbol && typeof q.regularMarketPrice === 'number' && Number.isFinite(q.regularMarketPrice)) {
-        priceMap.set(q.symbol, q.regularMarketPrice)
-      }
-    }
-  } else {
-    const period1 = new Date(targetDateObj)
-    period1.setDate(period1.getDate() - 1)
-    const period2 = new Date(targetDateObj)
-    period2.setDate(period2.getDate() + 1)
+/**
+ * Compute and store the resumes missing for market days in [from, to] (up to
+ * today), for every portfolio of the user. Returns the stored series of the
+ * given portfolio (or the aggregate) as read before filling, and whether
+ * anything was added.
+ */
+async function fillMissingResumes (
+  uid: string,
+  fromDate: string,
+  toDate: string,
+  portfolioId: string | null
+): Promise<{ resumes: UserDailyStockResume[]; filled: boolean }> {
+  const todayStr = getTodayDateString()
+  const resumes = await getResumesForUserInRange(uid, fromDate, toDate, portfolioId)
+
+  const stored = new Set(resumes.map((r) => r.resumeDate))
+  const missingDates = getTradingDaysInRange(null, fromDate, toDate < todayStr ? toDate : todayStr)
+    .filter((d) => !stored.has(d))
+  if (missingDates.length === 0) return { resumes, filled: false }
+
+  const computed = await computeResumesBatch([uid], missingDates)
+  for (const result of computed) {
+    await upsertUserDailyStockResume(uid, result.date, result.data, result.portfolioId)
+  }
+  return { resumes, filled: true }
+}
 
-    for (const h of holdings) {
-      const symbol = h.symbol
-      if (priceMap.has(symbol)) continue
+/**
+ * Stored resumes of a portfolio (or the aggregate) in [from, to], oldest first.
+ * Market days without a stored resume (up to today) are computed and stored
+ * first, for every portfolio of the user.
+ */
+export async function loadResumeSeries (
+  uid: string,
+  fromDate: string,
+  toDate: string,
+  portfolioId: string | null = null
+): Promise<UserDailyStockResume[]> {
+  const { resumes, filled } = await fillMissingResumes(uid, fromDate, toDate, portfolioId)
+  return filled ? await getResumesForUserInRange(uid, fromDate, toDate, portfolioId) : resumes
+}
 
-      try {
-        const chart = await getChartDataAsQuotes(symbol, '1d', period1, period2)
-        const quote = chart.quotes.find((q) => q.date && isSameDate(q.date, targetDateObj))
-        if (quote?.close != null && Number.isFinite(quote.close)) {
-          priceMap.set(symbol, quote.close)
-        }
-      } catch (err) {
-        console.warn(`Could not fetch chart for ${symbol} on ${targetDate}:`, err)
-      }
-    }
+/**
+ * Stored resumes in [from, to], read back in batches so the range may span
+ * the whole history. Like loadResumeSeries, missing days are computed first,
+ * but only within ON_DEMAND_RESUME_DAYS of today; older ones are streamed as
+ * stored.
+ */
+export async function streamResumeSeries (
+  uid: string,
+  fromDate: string,
+  toDate: string,
+  portfolioId: string | null = null
+): Promise<AsyncGenerator<UserDailyStockResume[]>> {
+  const onDemandFrom = addDays(getTodayDateString(), -ON_DEMAND_RESUME_DAYS)
+  if (toDate >= onDemandFrom) {
+    await fillMissingResumes(uid, fromDate > onDemandFrom ? fromDate : onDemandFrom, toDate, portfolioId)
   }
+  return streamResumesForUserInRange(uid, fromDate, toDate, portfolioId)
+}
 
-  let totalInvested = 0
-  let totalValue = 0
+export interface DailyResumeGenerationResult {
+  dates: string[]
+  results: Array<{ date: string; processed: number; errors: number }>
+  totalProcessed: number
+  totalErrors: number
+  usersCount: number
+}
 
-  for (const h of holdings) {
-    const purchasePrice = h.purchase_price ?? 0
-    const price = priceMap.get(h.symbol)
-    const quantity = Number(h.quantity) || 0
+/**
+ * Compute and store the resumes of every user (or of `uids` only), each
+ * portfolio plus the aggregate, for the given dates. Dates on which no
+ * supported exchange trades are skipped. A failed upsert is counted and
+ * logged; it does not stop the others.
+ */
+export async function generateDailyResumes (
+  targetDates: string[],
+  uids?: string[]
+): Promise<DailyResumeGenerationResult> {
+  uids ??= await listUserIds()
+  targetDates = targetDates.filter(isMarketDay)
+  const batchResults = await computeResumesBatch(uids, targetDates)
+
+  const byDate = new Map<string, { processed: number; errors: number }>()
+  for (const d of targetDates) {
+    byDate.set(d, { processed: 0, errors: 0 })
+  }
 
-    totalInvested += quantity * purchasePrice
-    if (price != null && Number.isFinite(price)) {
-      totalValue += quantity * price
+  let totalProcessed = 0
+  let totalErrors = 0
+
+  for (const { uid, portfolioId, date, data } of batchResults) {
+    try {
+      await upsertUserDailyStockResume(uid, date, data, portfolioId)
+      byDate.get(date)!.processed++
+      totalProcessed++
+    } catch (err) {
+      console.error(`Failed to persist resume for user ${uid} (portfolio ${portfolioId ?? 'all'}) on ${date}:`, err)
+      byDate.get(date)!.errors++
+      totalErrors++
     }
   }
 
-  const totalPnlValue = totalValue - totalInvested
-  const totalPnlPercent = totalInvested > 0
-    ? (totalPnlValue / totalInvested) * 100
-    : 0
-
   return {
-    resumeDate: targetDate,
-    totalInvested: Math.round(totalInvested * 10000) / 10000,
-    totalValue: Math.round(totalValue * 10000) / 10000,
-    totalPnlValue: Math.round(totalPnlValue * 10000) / 10000,
-    totalPnlPercent: Math.round(totalPnlPercent * 10000) / 10000
+    dates: targetDates,
+    results: targetDates.map((date) => ({ date, ...byDate.get(date)! })),
+    totalProcessed,
+    totalErrors,
+    usersCount: uids.length
   }
 }
 
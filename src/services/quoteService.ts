@@ -0,0 +1,60 @@
+import { getCache, setCache, getQuoteCacheKey } from './cache.js'
+import { getQuotes as fetchQuotes } from '../utils/yahooRetry.js'
+
+export interface LatestQuote {
+  symbol: string
+  currency?: string
+  regularMarketPrice?: number
+  regularMarketChange?: number
+  regularMarketChangePercent?: number
+}
+
+/**
+ * Latest quotes for a set of symbols through the shared quote cache
+ * (same key and shape as /api/market-data/stocks/quotes).
+ */
+export async function getLatestQuotes (symbols: string[]): Promise<LatestQuote[]> {
+  if (symbols.length === 0) return []
+
+  const cacheKey = getQuoteCacheKey(symbols)
+  const cachedData = await getCache<{ quotes: LatestQuote[] }>(cacheKey)
+  if (cachedData) {
+    console.log(`Cache hit for quotes: ${symbols.join(',')}`)
+    return cachedData.quotes
+  }
+
+  console.log(`Cache miss for quotes: ${symbols.join(',')}`)
+  const results = await fetchQuotes(symbols)
+  const data = {
+    quotes: results.map((q) => ({
+      symbol: q.symbol,
+      currency: q.currency,
+      regularMarketPrice: q.regularMarketPrice,
+      regularMarketChange: q.regularMarketChange,
+      regularMarketChangePercent: q.regularMarketChangePercent
+    }))
+  }
+
+  await setCache(cacheKey, data)
+  return data.quotes
+}
+
+export interface MarketPrice {
+  price: number
+  currency: string | null
+}
+
+/** Current market price per symbol; empty when quotes are unavailable */
+export async function getMarketPrices (symbols: string[]): Promise<Map<string, MarketPrice>> {
+  const prices = new Map<string, MarketPrice>()
+  try {
+    for (const q of await getLatestQuotes(symbols)) {
+      if (typeof q.regularMarketPrice === 'number' && Number.isFinite(q.regularMarketPrice)) {
+        prices.set(q.symbol, { price: q.regularMarketPrice, currency: q.currency ?? null })
+      }
+    }
+  } catch (err) {
+    console.warn('Could not fetch quotes for positions:', err)
+  }
+  return prices
+}
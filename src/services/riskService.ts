@@ -0,0 +1,215 @@
+import { getChartDataAsQuotes } from './chartDataService.js'
+import { loadCurrentPositions } from './ledgerService.js'
+import { computeDailyReturns } from './performanceService.js'
+import { loadResumeSeries } from './portfolioResumeService.js'
+import { formatDate } from '../utils/timezone.js'
+import { round4 } from '../utils/number.js'
+
+const TRADING_DAYS_PER_YEAR = 252
+
+/** Days fetched before `from` so the first day in range has a return */
+const PRICE_LOOKBACK_DAYS = 7
+
+/** Annual risk-free rate in percent when neither the request nor RISK_FREE_RATE sets one */
+const DEFAULT_RISK_FREE_RATE = 0
+
+/** Return from the observation on `startDate` to the one on `date` */
+type DailyReturn = { startDate: string; date: string; value: number }
+
+export interface Drawdown {
+  /** Largest peak-to-trough decline in percent (negative) */
+  value: number
+  peakDate: string | null
+  troughDate: string | null
+}
+
+export interface RiskMetrics {
+  observations: number
+  /** Annualized standard deviation of daily returns, in percent */
+  volatility: number | null
+  maxDrawdown: Drawdown | null
+  sharpe: number | null
+  sortino: number | null
+  /** Against the benchmark, over the days both have a return */
+  beta: number | null
+}
+
+export interface HoldingRiskMetrics extends RiskMetrics {
+  symbol: string
+}
+
+export interface RiskReport {
+  from: string
+  to: string
+  benchmark: string
+  riskFreeRate: number
+  portfolio: RiskMetrics
+  holdings: HoldingRiskMetrics[]
+}
+
+function mean (values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+/** Sample standard deviation; null below two observations */
+function standardDeviation (values: number[]): number | null {
+  if (values.length < 2) return null
+  const m = mean(values)
+  const variance = values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1)
+  return Math.sqrt(variance)
+}
+
+export function getDefaultRiskFreeRate (): number {
+  const fromEnv = parseFloat(process.env.RISK_FREE_RATE || '')
+  return Number.isFinite(fromEnv) ? fromEnv : DEFAULT_RISK_FREE_RATE
+}
+
+/**
+ * Largest decline of the compounded return index from a running peak. The
+ * index starts at 1 on the first return's start date, which is the peak
+ * when the series only goes down from there.
+ */
+export function computeMaxDrawdown (returns: DailyReturn[]): Drawdown | null {
+  if (returns.length === 0) return null
+
+  let index = 1
+  let peak = 1
+  let peakDate = returns[0].startDate
+  let worst: Drawdown = { value: 0, peakDate: null, troughDate: null }
+
+  for (const r of returns) {
+    index *= 1 + r.value
+    if (index > peak) {
+      peak = index
+      peakDate = r.date
+    }
+    const drawdown = index / peak - 1
+    if (drawdown < worst.value) {
+      worst = { value: drawdown, peakDate, troughDate: r.date }
+    }
+  }
+
+  return { ...worst, value: round4(worst.value * 100) }
+}
+
+function computeBeta (returns: DailyReturn[], benchmark: Map<string, number>): number | null {
+  const pairs = returns
+    .filter((r) => benchmark.has(r.date))
+    .map((r) => [r.value, benchmark.get(r.date)!] as const)
+  if (pairs.length < 2) return null
+
+  const meanAsset = mean(pairs.map((p) => p[0]))
+  const meanBenchmark = mean(pairs.map((p) => p[1]))
+  let covariance = 0
+  let variance = 0
+  for (const [asset, bench] of pairs) {
+    covariance += (asset - meanAsset) * (bench - meanBenchmark)
+    variance += (bench - meanBenchmark) ** 2
+  }
+  return variance > 0 ? covariance / variance : null
+}
+
+/**
+ * Annualized risk metrics of a daily return series. `riskFreeRate` is an
+ * annual rate in percent; Sortino only penalizes days below the daily
+ * risk-free rate.
+ */
+export function computeRiskMetrics (
+  returns: DailyReturn[],
+  riskFreeRate: number,
+  benchmark: Map<string, number>
+): RiskMetrics {
+  const values = returns.map((r) => r.value)
+  const dailyRiskFree = riskFreeRate / 100 / TRADING_DAYS_PER_YEAR
+  const deviation = standardDeviation(values)
+
+  let sharpe: number | null = null
+  let sortino: number | null = null
+  if (deviation != null) {
+    const excess = values.map((v) => v - dailyRiskFree)
+    const meanExcess = mean(excess)
+    if (deviation > 0) {
+      sharpe = (meanExcess / deviation) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+    }
+    const downside = Math.sqrt(excess.reduce((sum, v) => sum + Math.min(v, 0) ** 2, 0) / excess.length)
+    if (downside > 0) {
+      sortino = (meanExcess / downside) * Math.sqrt(TRADING_DAYS_PER_YEAR)
+    }
+  }
+
+  const beta = computeBeta(returns, benchmark)
+
+  return {
+    observations: values.length,
+    volatility: deviation != null ? round4(deviation * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100) : null,
+    maxDrawdown: computeMaxDrawdown(returns),
+    sharpe: sharpe != null ? round4(sharpe) : null,
+    sortino: sortino != null ? round4(sortino) : null,
+    beta: beta != null ? round4(beta) : null
+  }
+}
+
+/** Daily close-to-close returns of a symbol within [from, to] from the chart storage */
+async function loadSymbolReturns (symbol: string, fromDate: string, toDate: string): Promise<DailyReturn[]> {
+  const period1 = new Date(`${fromDate}T00:00:00Z`)
+  period1.setUTCDate(period1.getUTCDate() - PRICE_LOOKBACK_DAYS)
+  const period2 = new Date(`${toDate}T00:00:00Z`)
+  period2.setUTCDate(period2.getUTCDate() + 1)
+
+  const { quotes } = await getChartDataAsQuotes(symbol, '1d', period1, period2)
+  const closes = quotes
+    .map((q) => ({ date: formatDate(new Date(q.date)), close: q.adjclose ?? q.close }))
+    .filter((q): q is { date: string; close: number } => q.close != null && Number.isFinite(q.close) && q.close > 0)
+    .sort((a, b) => (a.date < b.date ? -1 : 1))
+
+  const returns: DailyReturn[] = []
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i].date < fromDate || closes[i].date > toDate) continue
+    returns.push({ startDate: closes[i - 1].date, date: closes[i].date, value: closes[i].close / closes[i - 1].close - 1 })
+  }
+  return returns
+}
+
+/**
+ * Volatility, max drawdown, Sharpe, Sortino and beta over [from, to] for a
+ * portfolio (or the user's aggregate) and for each currently open holding.
+ */
+export async function computeRiskReport (
+  uid: string,
+  portfolioId: string | null,
+  fromDate: string,
+  toDate: string,
+  benchmarkSymbol: string,
+  riskFreeRate: number
+): Promise<RiskReport> {
+  const resumes = await loadResumeSeries(uid, fromDate, toDate, portfolioId)
+  const portfolioReturns = computeDailyReturns(resumes)
+
+  let benchmark = new Map<string, number>()
+  try {
+    benchmark = new Map((await loadSymbolReturns(benchmarkSymbol, fromDate, toDate)).map((r) => [r.date, r.value]))
+  } catch (err) {
+    console.warn(`Could not fetch benchmark ${benchmarkSymbol}:`, err)
+  }
+
+  const { positions } = await loadCurrentPositions(uid, portfolioId)
+  const holdings: HoldingRiskMetrics[] = []
+  for (const position of positions.filter((p) => p.quantity > 0)) {
+    try {
+      const returns = await loadSymbolReturns(position.symbol, fromDate, toDate)
+      holdings.push({ symbol: position.symbol, ...computeRiskMetrics(returns, riskFreeRate, benchmark) })
+    } catch (err) {
+      console.warn(`Could not fetch chart for ${position.symbol}:`, err)
+      holdings.push({ symbol: position.symbol, ...computeRiskMetrics([], riskFreeRate, benchmark) })
+    }
+  }
+
+  return {
+    from: fromDate,
+    to: toDate,
+    benchmark: benchmarkSymbol,
+    riskFreeRate,
+    portfolio: computeRiskMetrics(portfolioReturns, riskFreeRate, benchmark),
+    holdings
+  }
+}
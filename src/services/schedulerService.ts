@@ -0,0 +1,277 @@
+import { randomUUID } from 'node:crypto'
+import redisClient from '../config/redis.js'
+import {
+  failStaleJobRuns,
+  finishJobRun,
+  pruneJobRuns,
+  startJobRun
+} from '../repositories/jobRunRepository.js'
+import { listTrackedSymbols } from '../repositories/symbolRepository.js'
+import { generateDailyResumes } from './portfolioResumeService.js'
+import { getChartDataAsQuotes, pruneExpiredIntradayData } from './chartDataService.js'
+import { refreshSymbolProfiles } from './symbolService.js'
+import { syncCorporateActions } from './corporateActionService.js'
+import { addDays, getZonedDateString, isWeekendDate, zonedTimeToUtc } from '../utils/timezone.js'
+import { EXCHANGE_SESSIONS, getSessionClose, type ExchangeCode } from '../utils/tradingCalendar.js'
+
+const LEADER_LOCK_KEY = 'scheduler:leader'
+const DEFAULT_TICK_SECONDS = 30
+/** Outlives a few missed ticks; renewed on every tick while a job runs */
+const LEADER_LOCK_TTL_SECONDS = 120
+
+const JOB_RUN_RETENTION_DAYS = 30
+/** RUNNING rows older than this belong to an instance that went away */
+const STALE_JOB_RUN_HOURS = 6
+/** Daily bars fetched per symbol when pre-warming the chart store */
+const PREWARM_LOOKBACK_DAYS = 10
+
+/** Delay after an exchange's close before its daily resume run, so final closes are published */
+const DAILY_RESUME_DELAY_MINUTES = 30
+
+/**
+ * Exchanges whose close triggers a daily resume run (NYSE also covers
+ * NASDAQ, which shares its calendar). Each run recomputes every user's resume
+ * for that exchange's trading date, so the last exchange to close settles the
+ * day's figures.
+ */
+const DAILY_RESUME_EXCHANGES: ExchangeCode[] = ['XETRA', 'LSE', 'NYSE']
+
+/** Identifies this process in the leader lock and in job_runs */
+const INSTANCE_ID = randomUUID()
+
+/** Take the leader lock if free, or extend it if this instance already holds it */
+const HOLD_LEADERSHIP_SCRIPT = `
+local holder = redis.call('GET', KEYS[1])
+if not holder then
+  redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+  return 1
+end
+if holder == ARGV[1] then
+  redis.call('EXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+return 0
+`
+
+const RELEASE_LEADERSHIP_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
+export interface JobSchedule {
+  description: string
+  /** Most recent scheduled instant at or before `now` */
+  getLatestSlot: (now: Date) => Date
+}
+
+export interface ScheduledJob {
+  name: string
+  schedule: JobSchedule
+  /** Returns a summary stored on the job run */
+  run: (slot: Date) => Promise<Record<string, unknown>>
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null
+let isRunningJobs = false
+/** Last slot claimed per job by this instance, to skip re-claiming every tick */
+const claimedSlots = new Map<string, number>()
+
+/** Every day (or every weekday) at a wall-clock time in an IANA time zone */
+function dailyAt (timeZone: string, time: string, weekdaysOnly: boolean): JobSchedule {
+  return {
+    description: `${weekdaysOnly ? 'weekdays' : 'daily'} at ${time} ${timeZone}`,
+    getLatestSlot: (now) => {
+      let date = getZonedDateString(now, timeZone)
+      let slot = zonedTimeToUtc(date, time, timeZone)
+      while (slot > now || (weekdaysOnly && isWeekendDate(date))) {
+        date = addDays(date, -1)
+        slot = zonedTimeToUtc(date, time, timeZone)
+      }
+      return slot
+    }
+  }
+}
+
+function addMinutes (time: string, minutes: number): string {
+  const [hour, minute] = time.split(':').map(Number)
+  const total = hour * 60 + minute + minutes
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`
+}
+
+/** On the exchange's trading days, `delayMinutes` after its close (early closes included) */
+function afterSessionClose (exchange: ExchangeCode, delayMinutes: number): JobSchedule {
+  const { timeZone } = EXCHANGE_SESSIONS[exchange]
+  return {
+    description: `${delayMinutes} minutes after the ${exchange} close (${timeZone})`,
+    getLatestSlot: (now) => {
+      let date = getZonedDateString(now, timeZone)
+      for (;;) {
+        const close = getSessionClose(exchange, date)
+        if (close != null) {
+          const slot = zonedTimeToUtc(date, addMinutes(close, delayMinutes), timeZone)
+          if (slot <= now) return slot
+        }
+        date = addDays(date, -1)
+      }
+    }
+  }
+}
+
+/** Fill the chart store and symbol profiles for every tracked symbol ahead of the day's requests */
+async function prewarmCaches (): Promise<Record<string, unknown>> {
+  const symbols = await listTrackedSymbols()
+  const to = new Date()
+  const from = new Date(to.getTime() - PREWARM_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+
+  let chartErrors = 0
+  for (const symbol of symbols) {
+    try {
+      await getChartDataAsQuotes(symbol, '1d', from, to)
+    } catch (err) {
+      console.warn(`Could not pre-warm chart for ${symbol}:`, err)
+      chartErrors++
+    }
+  }
+
+  const profilesUpdated = await refreshSymbolProfiles(symbols)
+  return { symbols: symbols.length, chartErrors, profilesUpdated }
+}
+
+async function pruneOldData (): Promise<Record<string, unknown>> {
+  const now = Date.now()
+  const intradayBarsDeleted = await pruneExpiredIntradayData()
+  const staleRunsFailed = await failStaleJobRuns(new Date(now - STALE_JOB_RUN_HOURS * 60 * 60 * 1000))
+  const jobRunsDeleted = await pruneJobRuns(new Date(now - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000))
+  return { intradayBarsDeleted, staleRunsFailed, jobRunsDeleted }
+}
+
+const SCHEDULED_JOBS: ScheduledJob[] = [
+  ...DAILY_RESUME_EXCHANGES.map((exchange): ScheduledJob => ({
+    name: `daily-resume:${exchange}`,
+    schedule: afterSessionClose(exchange, DAILY_RESUME_DELAY_MINUTES),
+    run: async (slot) => {
+      const result = await generateDailyResumes([getZonedDateString(slot, EXCHANGE_SESSIONS[exchange].timeZone)])
+      return { ...result }
+    }
+  })),
+  {
+    // Ahead of the pre-warm, which refetches the series a new split dropped
+    name: 'corporate-actions-sync',
+    schedule: dailyAt('UTC', '05:30', true),
+    run: async () => ({ ...(await syncCorporateActions(await listTrackedSymbols())) })
+  },
+  {
+    name: 'cache-prewarm',
+    schedule: dailyAt('UTC', '06:00', true),
+    run: prewarmCaches
+  },
+  {
+    name: 'data-prune',
+    schedule: dailyAt('UTC', '03:00', false),
+    run: pruneOldData
+  }
+]
+
+export function getScheduledJobs (): Array<{ name: string; schedule: string; latestSlot: Date }> {
+  const now = new Date()
+  return SCHEDULED_JOBS.map((job) => ({
+    name: job.name,
+    schedule: job.schedule.description,
+    latestSlot: job.schedule.getLatestSlot(now)
+  }))
+}
+
+function getTickSeconds (): number {
+  const fromEnv = parseInt(process.env.SCHEDULER_TICK_SECONDS || '', 10)
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_TICK_SECONDS
+}
+
+/**
+ * Whether this instance is the scheduler leader. Without Redis every instance
+ * proceeds; the job_runs slot claim still keeps a slot from running twice.
+ */
+async function holdLeadership (): Promise<boolean> {
+  try {
+    const held = await redisClient.eval(HOLD_LEADERSHIP_SCRIPT, {
+      keys: [LEADER_LOCK_KEY],
+      arguments: [INSTANCE_ID, String(LEADER_LOCK_TTL_SECONDS)]
+    })
+    return held === 1
+  } catch (error) {
+    console.warn('Scheduler leader lock unavailable, relying on job_runs claims:', error)
+    return true
+  }
+}
+
+async function releaseLeadership (): Promise<void> {
+  try {
+    await redisClient.eval(RELEASE_LEADERSHIP_SCRIPT, {
+      keys: [LEADER_LOCK_KEY],
+      arguments: [INSTANCE_ID]
+    })
+  } catch (error) {
+    console.warn('Failed to release scheduler leader lock:', error)
+  }
+}
+
+async function runJob (job: ScheduledJob, slot: Date): Promise<void> {
+  const run = await startJobRun(job.name, slot, INSTANCE_ID)
+  claimedSlots.set(job.name, slot.getTime())
+  if (!run) return
+
+  console.log(`⏰ Running ${job.name} for ${slot.toISOString()}`)
+  try {
+    const result = await job.run(slot)
+    await finishJobRun(run.id, 'SUCCEEDED', result, null)
+    console.log(`⏰ ${job.name} finished`)
+  } catch (err) {
+    console.error(`Scheduled job ${job.name} failed:`, err)
+    await finishJobRun(run.id, 'FAILED', null, err instanceof Error ? err.message : String(err))
+  }
+}
+
+async function tick (): Promise<void> {
+  // Renew the lock even while a long job is running so leadership is not lost mid-run
+  if (!(await holdLeadership())) return
+  if (isRunningJobs) return
+
+  isRunningJobs = true
+  try {
+    for (const job of SCHEDULED_JOBS) {
+      if (!schedulerTimer) break
+      const slot = job.schedule.getLatestSlot(new Date())
+      if (claimedSlots.get(job.name) === slot.getTime()) continue
+      await runJob(job, slot)
+    }
+  } catch (err) {
+    console.error('Scheduler tick failed:', err)
+  } finally {
+    isRunningJobs = false
+  }
+}
+
+/**
+ * Run the scheduled jobs in-process. Set SCHEDULER_ENABLED=false on replicas
+ * that should never run them; otherwise the Redis leader lock elects one.
+ * A slot missed while no instance was up runs once on the next tick.
+ */
+export function startScheduler (): void {
+  if (schedulerTimer) return
+  if (process.env.SCHEDULER_ENABLED === 'false') {
+    console.log('⏰ Scheduler disabled (SCHEDULER_ENABLED=false)')
+    return
+  }
+
+  const tickSeconds = getTickSeconds()
+  schedulerTimer = setInterval(() => { void tick() }, tickSeconds * 1000)
+  console.log(`⏰ Scheduler running (${SCHEDULED_JOBS.length} jobs, tick ${tickSeconds}s, instance ${INSTANCE_ID})`)
+}
+
+export async function stopScheduler (): Promise<void> {
+  if (!schedulerTimer) return
+  clearInterval(schedulerTimer)
+  schedulerTimer = null
+  await releaseLeadership()
+}
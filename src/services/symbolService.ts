@@ -0,0 +1,159 @@
+import type { Response } from 'express'
+import { getCache, setCache, getSearchCacheKey } from './cache.js'
+import {
+  getQuotes,
+  getSymbolProfile,
+  searchSymbols as fetchSearchResults,
+  type SymbolSearchResult
+} from '../utils/yahooRetry.js'
+import {
+  getSymbols,
+  listSymbolsWithStaleProfile,
+  updateSymbolProfile,
+  upsertSymbols
+} from '../repositories/symbolRepository.js'
+import type { SymbolInfo } from '../models/symbol.js'
+import redisClient from '../config/redis.js'
+
+/** Cached metadata older than this is refreshed from Yahoo when next looked up */
+const SYMBOL_REFRESH_MS = 30 * 24 * 60 * 60 * 1000
+
+/** Sector/industry/country barely change; refetch them weekly at most */
+const PROFILE_REFRESH_MS = 7 * 24 * 60 * 60 * 1000
+const PROFILE_LOCK_TTL_SECONDS = 300
+
+/**
+ * Metadata for the given symbols from the `symbols` table, resolving unknown
+ * (and stale) ones through Yahoo's quote endpoint. Symbols Yahoo doesn't know
+ * are absent from the result.
+ * Throws when Yahoo is unreachable and a symbol has never been resolved;
+ * stale entries are then served as they are.
+ */
+export async function resolveSymbols (symbols: string[]): Promise<Map<string, SymbolInfo>> {
+  const unique = [...new Set(symbols)]
+  const cached = await getSymbols(unique)
+
+  const now = Date.now()
+  const missing = unique.filter((s) => !cached.has(s))
+  const stale = unique.filter((s) => {
+    const info = cached.get(s)
+    return info != null && now - new Date(info.updatedAt).getTime() > SYMBOL_REFRESH_MS
+  })
+  const toFetch = [...missing, ...stale]
+  if (toFetch.length === 0) return cached
+
+  let quotes: Awaited<ReturnType<typeof getQuotes>>
+  try {
+    quotes = await getQuotes(toFetch)
+  } catch (err) {
+    if (missing.length > 0) throw err
+    console.warn(`Could not refresh symbol metadata for ${stale.join(',')}:`, err)
+    return cached
+  }
+
+  const fetched = quotes
+    .filter((q) => q.symbol && toFetch.includes(q.symbol) && q.quoteType !== 'NONE')
+    .map((q) => ({
+      symbol: q.symbol,
+      name: q.longName ?? q.shortName ?? null,
+      exchange: q.fullExchangeName ?? q.exchange ?? null,
+      currency: q.currency ?? null,
+      quoteType: q.quoteType ?? null
+    }))
+  await upsertSymbols(fetched)
+
+  const updatedAt = new Date()
+  for (const info of fetched) {
+    const previous = cached.get(info.symbol)
+    cached.set(info.symbol, {
+      ...info,
+      sector: previous?.sector ?? null,
+      industry: previous?.industry ?? null,
+      country: previous?.country ?? null,
+      profileUpdatedAt: previous?.profileUpdatedAt ?? null,
+      updatedAt
+    })
+  }
+  return cached
+}
+
+async function acquireProfileLock (symbol: string): Promise<boolean> {
+  try {
+    const lockKey = `yahoo:profile_lock:${symbol}`
+    const result = await redisClient.setNX(lockKey, '1')
+    if (result === 1) {
+      await redisClient.expire(lockKey, PROFILE_LOCK_TTL_SECONDS)
+      return true
+    }
+    return false
+  } catch (error) {
+    console.warn(`Failed to acquire profile lock for ${symbol}:`, error)
+    return true // Updates are idempotent, at worst the profile is fetched twice
+  }
+}
+
+async function releaseProfileLock (symbol: string): Promise<void> {
+  try {
+    await redisClient.del(`yahoo:profile_lock:${symbol}`)
+  } catch (error) {
+    console.warn(`Failed to release profile lock for ${symbol}:`, error)
+  }
+}
+
+/**
+ * Fetch quoteSummary profiles for the symbols whose cached profile is missing
+ * or older than a week. Each fetch goes through the Yahoo rate limiter, so
+ * this is slow; it runs from the pre-warm job, not on request paths.
+ * Returns the number of profiles updated.
+ */
+export async function refreshSymbolProfiles (symbols: string[]): Promise<number> {
+  const stale = await listSymbolsWithStaleProfile([...new Set(symbols)], PROFILE_REFRESH_MS)
+  let updated = 0
+
+  for (const symbol of stale) {
+    if (!(await acquireProfileLock(symbol))) continue
+    try {
+      await updateSymbolProfile(symbol, await getSymbolProfile(symbol))
+      updated++
+    } catch (err) {
+      console.warn(`Could not fetch profile for ${symbol}:`, err)
+    } finally {
+      await releaseProfileLock(symbol)
+    }
+  }
+
+  return updated
+}
+
+/**
+ * Check that every symbol resolves through Yahoo; sends the 400/503 response
+ * and returns false otherwise.
+ */
+export async function checkSymbols (symbols: string[], res: Response): Promise<boolean> {
+  if (symbols.length === 0) return true
+  try {
+    const resolved = await resolveSymbols(symbols)
+    const unknown = symbols.filter((s) => !resolved.has(s))
+    if (unknown.length === 0) return true
+    res.status(400).json({ error: `Unknown symbol: ${unknown.join(', ')}` })
+  } catch (error) {
+    console.error(`Error validating symbols ${symbols.join(',')}:`, error)
+    res.status(503).json({ error: 'Symbol validation is temporarily unavailable' })
+  }
+  return false
+}
+
+/** Yahoo symbol search through the Redis cache */
+export async function searchSymbols (query: string): Promise<SymbolSearchResult[]> {
+  const cacheKey = getSearchCacheKey(query)
+  const cachedData = await getCache<{ results: SymbolSearchResult[] }>(cacheKey)
+  if (cachedData) {
+    console.log(`Cache hit for symbol search: ${query}`)
+    return cachedData.results
+  }
+
+  console.log(`Cache miss for symbol search: ${query}`)
+  const results = await fetchSearchResults(query)
+  await setCache(cacheKey, { results })
+  return results
+}
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { detectDelimiter, formatCsvRow, parseCsv } from './csv.js'
+
+test('parseCsv reads quoted fields with delimiters, newlines and quotes', () => {
+  const text = 'symbol,note\r\nAAPL,"a, b"\nMSFT,"line 1\nline 2"\nTSLA,"say ""hi"""\n'
+  assert.deepEqual(parseCsv(text), [
+    ['symbol', 'note'],
+    ['AAPL', 'a, b'],
+    ['MSFT', 'line 1\nline 2'],
+    ['TSLA', 'say "hi"']
+  ])
+})
+
+test('parseCsv drops a leading BOM and skips blank lines', () => {
+  assert.deepEqual(parseCsv('\uFEFFa,b\n\n1,2\n\n'), [['a', 'b'], ['1', '2']])
+})
+
+test('parseCsv keeps empty fields and a last line without a line break', () => {
+  assert.deepEqual(parseCsv('a,,c\n,,'), [['a', '', 'c'], ['', '', '']])
+})
+
+test('detectDelimiter picks the most frequent delimiter outside quotes', () => {
+  assert.equal(detectDelimiter('date;symbol;"price, EUR"\n1;2;3'), ';')
+  assert.equal(detectDelimiter('date\tsymbol\tprice'), '\t')
+  assert.equal(detectDelimiter('symbol'), ',')
+  assert.deepEqual(parseCsv('a;"1,5"\nb;2'), [['a', '1,5'], ['b', '2']])
+})
+
+test('formatCsvRow quotes special characters and defuses formulas', () => {
+  assert.equal(formatCsvRow(['a,b', 'say "hi"', null, 1.5]), '"a,b","say ""hi""",,1.5')
+  assert.equal(formatCsvRow(['=SUM(A1)', -3]), "'=SUM(A1),-3")
+})
@@ -0,0 +1,87 @@
+export type CsvDelimiter = ',' | ';' | '\t'
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t']
+
+/** Delimiter occurring most often outside quotes on the first line */
+export function detectDelimiter (text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(DELIMITERS.map((d) => [d, 0]))
+  let inQuotes = false
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes
+    else if (!inQuotes && (char === '\n' || char === '\r')) break
+    else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1)
+    }
+  }
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), ',')
+}
+
+/**
+ * RFC 4180 parser: quoted fields may hold delimiters, newlines and doubled
+ * quotes. A leading BOM is dropped and blank lines are skipped.
+ */
+export function parseCsv (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  const endRecord = (): void => {
+    record.push(field)
+    if (record.length > 1 || record[0].trim() !== '') records.push(record)
+    record = []
+    field = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRecord()
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || record.length > 0) endRecord()
+
+  return records
+}
+
+/** Characters that make spreadsheets treat a text cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function quoteCsvField (text: string, delimiter: CsvDelimiter): string {
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One CSV line (without the line break). Text cells that look like formulas
+ * are prefixed with an apostrophe; numbers go through `formatNumber` and are
+ * never escaped that way, so negative values stay numeric.
+ */
+export function formatCsvRow (
+  values: Array<string | number | null>,
+  delimiter: CsvDelimiter = ',',
+  formatNumber: (value: number) => string = String
+): string {
+  return values.map((value) => {
+    if (value == null) return ''
+    if (typeof value === 'number') return quoteCsvField(formatNumber(value), delimiter)
+    return quoteCsvField(FORMULA_PREFIX.test(value) ? `'${value}` : value, delimiter)
+  }).join(delimiter)
+}
@@ -0,0 +1,4 @@
+/** Round to the 4 decimal places amounts and percentages are served with */
+export function round4 (value: number): number {
+  return Math.round(value * 10000) / 10000
+}
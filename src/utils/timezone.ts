@@ -0,0 +1,88 @@
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter (timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+function getZonedParts (date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {}
+  for (const { type, value } of getFormatter(timeZone).formatToParts(date)) {
+    if (type !== 'literal') parts[type] = parseInt(value, 10)
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  }
+}
+
+/** Offset of the time zone from UTC at the given instant, in milliseconds */
+function getTimeZoneOffsetMs (date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/** Calendar date (YYYY-MM-DD) of an instant in the given IANA time zone */
+export function getZonedDateString (date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone)
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows `time` (HH:MM) on
+ * `dateStr` (YYYY-MM-DD). The offset is re-evaluated once so dates on a DST
+ * change resolve to the offset in effect at that time.
+ */
+export function zonedTimeToUtc (dateStr: string, time: string, timeZone: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number)
+  const [hour, minute] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  let instant = wallClock - getTimeZoneOffsetMs(new Date(wallClock), timeZone)
+  instant = wallClock - getTimeZoneOffsetMs(new Date(instant), timeZone)
+  return new Date(instant)
+}
+
+/** UTC calendar date of an instant as YYYY-MM-DD */
+export function formatDate (date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/** Shift a YYYY-MM-DD date by whole days */
+export function addDays (dateStr: string, days: number): string {
+  const d = new Date(`${dateStr}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+export function isWeekendDate (dateStr: string): boolean {
+  const day = new Date(`${dateStr}T00:00:00Z`).getUTCDay()
+  return day === 0 || day === 6
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { getHolidayName, getSessionClose, isMarketDay, isTradingDay } from './tradingCalendar.js'
+
+test('isTradingDay is false on exchange holidays', () => {
+  assert.equal(isTradingDay('NYSE', '2024-12-25'), false)
+  assert.equal(isTradingDay('NYSE', '2024-03-29'), false)
+  assert.equal(isTradingDay('NYSE', '2024-11-28'), false)
+  assert.equal(isTradingDay('NASDAQ', '2024-07-04'), false)
+  assert.equal(isTradingDay('XETRA', '2024-12-24'), false)
+  assert.equal(isTradingDay('LSE', '2024-12-26'), false)
+  assert.equal(isTradingDay('LSE', '2024-05-06'), false)
+})
+
+test('isTradingDay moves weekend holidays to the observed weekday', () => {
+  assert.equal(getHolidayName('NYSE', '2022-06-20'), 'Juneteenth')
+  assert.equal(getHolidayName('NYSE', '2026-07-03'), 'Independence Day')
+  // New Year's Day on a Saturday is not observed on the Friday before
+  assert.equal(isTradingDay('NYSE', '2021-12-31'), true)
+})
+
+test('isTradingDay is true on ordinary weekdays and false on weekends', () => {
+  assert.equal(isTradingDay('NYSE', '2024-12-26'), true)
+  assert.equal(isTradingDay('XETRA', '2024-06-12'), true)
+  assert.equal(isTradingDay('NYSE', '2024-12-28'), false)
+  assert.equal(isTradingDay('LSE', '2024-12-29'), false)
+})
+
+test('getSessionClose returns the early close and null when closed', () => {
+  assert.equal(getSessionClose('NYSE', '2024-11-29'), '13:00')
+  assert.equal(getSessionClose('NYSE', '2024-12-26'), '16:00')
+  assert.equal(getSessionClose('NYSE', '2024-12-25'), null)
+})
+
+test('isMarketDay is true when any exchange trades', () => {
+  // NYSE is closed on Thanksgiving, XETRA and LSE are not
+  assert.equal(isMarketDay('2024-11-28'), true)
+  assert.equal(isMarketDay('2024-12-25'), false)
+})
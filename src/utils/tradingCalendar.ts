@@ -0,0 +1,240 @@
+import { addDays, isWeekendDate } from './timezone.js'
+
+export const EXCHANGE_CODES = ['NYSE', 'NASDAQ', 'XETRA', 'LSE'] as const
+
+export type ExchangeCode = typeof EXCHANGE_CODES[number]
+
+export interface ExchangeSession {
+  code: ExchangeCode
+  timeZone: string
+  /** Regular session, local wall-clock HH:MM */
+  open: string
+  close: string
+  /** Close on half days (e.g. Christmas Eve) */
+  earlyClose: string
+}
+
+export const EXCHANGE_SESSIONS: Record<ExchangeCode, ExchangeSession> = {
+  NYSE: { code: 'NYSE', timeZone: 'America/New_York', open: '09:30', close: '16:00', earlyClose: '13:00' },
+  NASDAQ: { code: 'NASDAQ', timeZone: 'America/New_York', open: '09:30', close: '16:00', earlyClose: '13:00' },
+  XETRA: { code: 'XETRA', timeZone: 'Europe/Berlin', open: '09:00', close: '17:30', earlyClose: '14:00' },
+  LSE: { code: 'LSE', timeZone: 'Europe/London', open: '08:00', close: '16:30', earlyClose: '12:30' }
+}
+
+interface CalendarYear {
+  holidays: Map<string, string>
+  earlyCloses: Set<string>
+}
+
+/** One-off closures not covered by the yearly rules (state funerals, royal events) */
+const SPECIAL_CLOSURES: Record<'US' | 'XETRA' | 'LSE', Record<string, string>> = {
+  US: {
+    '2018-12-05': 'National Day of Mourning (George H. W. Bush)',
+    '2025-01-09': 'National Day of Mourning (Jimmy Carter)'
+  },
+  XETRA: {},
+  LSE: {
+    '2022-06-02': 'Spring Bank Holiday (Platinum Jubilee)',
+    '2022-06-03': 'Platinum Jubilee',
+    '2022-09-19': 'State Funeral of Queen Elizabeth II',
+    '2023-05-08': 'Coronation of King Charles III'
+  }
+}
+
+const calendarCache = new Map<string, CalendarYear>()
+
+function isoDate (year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+function getUtcDay (dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay()
+}
+
+/** Easter Sunday (Gregorian, anonymous algorithm) */
+function getEasterSunday (year: number): string {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return isoDate(year, month, day)
+}
+
+/** nth (1-based) given weekday of a month; n = -1 for the last one */
+function getNthWeekday (year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = isoDate(year, month, 1)
+    const offset = (weekday - getUtcDay(first) + 7) % 7
+    return addDays(first, offset + (n - 1) * 7)
+  }
+  const nextMonthFirst = month === 12 ? isoDate(year + 1, 1, 1) : isoDate(year, month + 1, 1)
+  const last = addDays(nextMonthFirst, -1)
+  return addDays(last, -((getUtcDay(last) - weekday + 7) % 7))
+}
+
+/** US rule: Saturday holidays are observed on Friday, Sunday ones on Monday */
+function observedUs (dateStr: string): string {
+  const day = getUtcDay(dateStr)
+  if (day === 6) return addDays(dateStr, -1)
+  if (day === 0) return addDays(dateStr, 1)
+  return dateStr
+}
+
+/** UK rule: weekend holidays move to the next free weekday */
+function observedUk (dateStr: string, taken: Map<string, string>): string {
+  let observed = dateStr
+  while (isWeekendDate(observed) || taken.has(observed)) observed = addDays(observed, 1)
+  return observed
+}
+
+function buildUsYear (year: number): CalendarYear {
+  const holidays = new Map<string, string>()
+  const earlyCloses = new Set<string>()
+
+  // New Year's Day on a Saturday is not observed on the Friday before (that would close the prior year)
+  const newYear = isoDate(year, 1, 1)
+  if (getUtcDay(newYear) !== 6) holidays.set(observedUs(newYear), "New Year's Day")
+  holidays.set(getNthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day')
+  holidays.set(getNthWeekday(year, 2, 1, 3), "Washington's Birthday")
+  holidays.set(addDays(getEasterSunday(year), -2), 'Good Friday')
+  holidays.set(getNthWeekday(year, 5, 1, -1), 'Memorial Day')
+  if (year >= 2022) holidays.set(observedUs(isoDate(year, 6, 19)), 'Juneteenth')
+  holidays.set(observedUs(isoDate(year, 7, 4)), 'Independence Day')
+  holidays.set(getNthWeekday(year, 9, 1, 1), 'Labor Day')
+  const thanksgiving = getNthWeekday(year, 11, 4, 4)
+  holidays.set(thanksgiving, 'Thanksgiving Day')
+  holidays.set(observedUs(isoDate(year, 12, 25)), 'Christmas Day')
+
+  earlyCloses.add(addDays(thanksgiving, 1))
+  for (const candidate of [isoDate(year, 7, 3), isoDate(year, 12, 24)]) {
+    if (!isWeekendDate(candidate) && !holidays.has(candidate)) earlyCloses.add(candidate)
+  }
+
+  return { holidays, earlyCloses }
+}
+
+function buildXetraYear (year: number): CalendarYear {
+  const holidays = new Map<string, string>()
+  const easter = getEasterSunday(year)
+
+  holidays.set(isoDate(year, 1, 1), "New Year's Day")
+  holidays.set(addDays(easter, -2), 'Good Friday')
+  holidays.set(addDays(easter, 1), 'Easter Monday')
+  holidays.set(isoDate(year, 5, 1), 'Labour Day')
+  holidays.set(isoDate(year, 12, 24), 'Christmas Eve')
+  holidays.set(isoDate(year, 12, 25), 'Christmas Day')
+  holidays.set(isoDate(year, 12, 26), 'Boxing Day')
+  holidays.set(isoDate(year, 12, 31), "New Year's Eve")
+
+  return { holidays, earlyCloses: new Set() }
+}
+
+function buildLseYear (year: number): CalendarYear {
+  const holidays = new Map<string, string>()
+  const earlyCloses = new Set<string>()
+  const easter = getEasterSunday(year)
+
+  holidays.set(observedUk(isoDate(year, 1, 1), holidays), "New Year's Day")
+  holidays.set(addDays(easter, -2), 'Good Friday')
+  holidays.set(addDays(easter, 1), 'Easter Monday')
+  // The 2020 early May bank holiday moved to Friday 8 May (VE Day)
+  holidays.set(year === 2020 ? '2020-05-08' : getNthWeekday(year, 5, 1, 1), 'Early May Bank Holiday')
+  // The 2022 spring bank holiday moved to the Jubilee weekend (special closures)
+  if (year !== 2022) holidays.set(getNthWeekday(year, 5, 1, -1), 'Spring Bank Holiday')
+  holidays.set(getNthWeekday(year, 8, 1, -1), 'Summer Bank Holiday')
+  holidays.set(observedUk(isoDate(year, 12, 25), holidays), 'Christmas Day')
+  holidays.set(observedUk(isoDate(year, 12, 26), holidays), 'Boxing Day')
+
+  for (const candidate of [isoDate(year, 12, 24), isoDate(year, 12, 31)]) {
+    if (!isWeekendDate(candidate) && !holidays.has(candidate)) earlyCloses.add(candidate)
+  }
+
+  return { holidays, earlyCloses }
+}
+
+function getCalendarYear (exchange: ExchangeCode, year: number): CalendarYear {
+  const group = exchange === 'NYSE' || exchange === 'NASDAQ' ? 'US' : exchange
+  const cacheKey = `${group}:${year}`
+  let calendar = calendarCache.get(cacheKey)
+  if (!calendar) {
+    calendar = group === 'US' ? buildUsYear(year) : group === 'XETRA' ? buildXetraYear(year) : buildLseYear(year)
+    for (const [date, name] of Object.entries(SPECIAL_CLOSURES[group])) {
+      if (date.startsWith(`${year}-`)) calendar.holidays.set(date, name)
+    }
+    calendarCache.set(cacheKey, calendar)
+  }
+  return calendar
+}
+
+/** Name of the holiday closing the exchange on that date, if any */
+export function getHolidayName (exchange: ExchangeCode, dateStr: string): string | null {
+  return getCalendarYear(exchange, Number(dateStr.slice(0, 4))).holidays.get(dateStr) ?? null
+}
+
+export function isTradingDay (exchange: ExchangeCode, dateStr: string): boolean {
+  return !isWeekendDate(dateStr) && getHolidayName(exchange, dateStr) == null
+}
+
+/** Local close time (HH:MM) of the session on that date; null when the exchange is closed */
+export function getSessionClose (exchange: ExchangeCode, dateStr: string): string | null {
+  if (!isTradingDay(exchange, dateStr)) return null
+  const session = EXCHANGE_SESSIONS[exchange]
+  const calendar = getCalendarYear(exchange, Number(dateStr.slice(0, 4)))
+  return calendar.earlyCloses.has(dateStr) ? session.earlyClose : session.close
+}
+
+/** Whether at least one supported exchange trades that day; resumes are generated for these dates */
+export function isMarketDay (dateStr: string): boolean {
+  return EXCHANGE_CODES.some((exchange) => isTradingDay(exchange, dateStr))
+}
+
+/**
+ * Trading days in [from, to]. With an exchange, that exchange's sessions;
+ * with null, days on which any supported exchange trades.
+ */
+export function getTradingDaysInRange (exchange: ExchangeCode | null, fromDate: string, toDate: string): string[] {
+  const dates: string[] = []
+  for (let d = fromDate; d <= toDate; d = addDays(d, 1)) {
+    if (exchange ? isTradingDay(exchange, d) : isMarketDay(d)) dates.push(d)
+  }
+  return dates
+}
+
+/** The last `n` trading days up to and including `toDate`, newest first (see getTradingDaysInRange) */
+export function getLastNTradingDays (exchange: ExchangeCode | null, n: number, toDate: string): string[] {
+  const dates: string[] = []
+  for (let d = toDate; dates.length < n; d = addDays(d, -1)) {
+    if (exchange ? isTradingDay(exchange, d) : isMarketDay(d)) dates.push(d)
+  }
+  return dates
+}
+
+/**
+ * Exchange whose calendar applies to a Yahoo symbol, from its suffix
+ * (SAP.DE, VOD.L) or, for indices, its name. Unsuffixed symbols are US
+ * listings. FX pairs (EURUSD=X), futures and other suffixes return null:
+ * callers fall back to weekdays.
+ */
+export function getExchangeForSymbol (symbol: string): ExchangeCode | null {
+  const upper = symbol.toUpperCase()
+  if (upper.endsWith('=X') || upper.endsWith('=F')) return null
+  if (upper.startsWith('^')) {
+    if (upper === '^GDAXI' || upper === '^MDAXI' || upper === '^TECDAX') return 'XETRA'
+    if (upper === '^FTSE' || upper === '^FTMC') return 'LSE'
+    if (upper === '^IXIC' || upper === '^NDX') return 'NASDAQ'
+    return upper === '^GSPC' || upper === '^DJI' || upper === '^RUT' ? 'NYSE' : null
+  }
+  if (upper.endsWith('.DE') || upper.endsWith('.F')) return 'XETRA'
+  if (upper.endsWith('.L')) return 'LSE'
+  return upper.includes('.') ? null : 'NYSE'
+}
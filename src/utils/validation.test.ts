@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { QUANTITY_DECIMALS, hasMaxDecimals, isUuid } from './validation.js'
+
+test('hasMaxDecimals accepts values whose double is not exact', () => {
+  assert.equal(hasMaxDecimals(128.02, QUANTITY_DECIMALS), true)
+  assert.equal(hasMaxDecimals(128.0003, QUANTITY_DECIMALS), true)
+  assert.equal(hasMaxDecimals(0.1 + 0.2, 2), false)
+  assert.equal(hasMaxDecimals(999999.99, 2), true)
+  assert.equal(hasMaxDecimals(123456789.12345678, QUANTITY_DECIMALS), true)
+})
+
+test('hasMaxDecimals accepts 2-decimal values at the edges of the range', () => {
+  for (const value of [0, 0.01, 0.07, 0.29, 1.1, 4.35, 9.99, 1005.03, 99999.99, 999999999999.99]) {
+    assert.equal(hasMaxDecimals(value, 2), true, String(value))
+  }
+})
+
+test('hasMaxDecimals rejects values with more decimals', () => {
+  assert.equal(hasMaxDecimals(1.123456789, QUANTITY_DECIMALS), false)
+  assert.equal(hasMaxDecimals(0.005, 2), false)
+})
+
+test('isUuid accepts UUIDs only', () => {
+  assert.equal(isUuid('3f2504e0-4f89-41d3-9a0c-0305e82c3301'), true)
+  assert.equal(isUuid('3F2504E0-4F89-41D3-9A0C-0305E82C3301'), true)
+  assert.equal(isUuid('3f2504e0-4f89-41d3-9a0c-0305e82c330'), false)
+  assert.equal(isUuid('not-a-uuid'), false)
+  assert.equal(isUuid(42), false)
+})
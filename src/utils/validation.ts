@@ -0,0 +1,29 @@
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Decimal places stored for quantities and unit prices (NUMERIC(20, 8)) */
+export const QUANTITY_DECIMALS = 8
+
+/** Largest quantity or unit price that fits NUMERIC(20, 8) */
+export const MAX_DECIMAL_VALUE = 1e12
+
+export function isValidDateString (value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime())
+}
+
+/**
+ * Whether `value` can be compared with a UUID column; repositories check ids
+ * from the path with it, as Postgres rejects malformed ones with an error
+ */
+export function isUuid (value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value)
+}
+
+/**
+ * True when `value` has at most `decimals` decimal places. Rounding to the
+ * decimal string and back compares against the nearest double, so binary
+ * representation error (128.02 is 128.0199999…) does not count as a digit.
+ */
+export function hasMaxDecimals (value: number, decimals: number): boolean {
+  return Number(value.toFixed(decimals)) === value
+}
@@ -3,6 +3,19 @@ import redisClient from '../config/redis.js'
 
 const yahooFinance = new YahooFinance({ suppressNotices: ['yahooSurvey'] })
 
+export type ChartInterval = '1d' | '5m' | '1h' | '15m' | '30m' | '60m' | '1wk' | '1mo'
+
+/** Single OHLCV bar as returned by Yahoo's chart endpoint (array mode) */
+export interface ChartQuote {
+  date: Date
+  open: number | null
+  high: number | null
+  low: number | null
+  close: number | null
+  volume: number | null
+  adjclose: number | null
+}
+
 const MAX_REQUESTS_PER_MINUTE = 3
 const RATE_LIMIT_KEY = 'yahoo:rate_limit:requests'
 const MAX_RETRIES = 8
@@ -63,35 +76,136 @@ async function executeWithRetry<T> (operation: () => Promise<T>): Promise<T> {
   throw new Error('Max retries exceeded')
 }
 
-export async function getQuotes (symbols: string[]): Promise<Array<{
+/** Fields we read from Yahoo's quote endpoint */
+export interface YahooQuote {
   symbol: string
+  currency?: string
   regularMarketPrice?: number
   regularMarketChange?: number
   regularMarketChangePercent?: number
-}>> {
+  shortName?: string
+  longName?: string
+  exchange?: string
+  fullExchangeName?: string
+  quoteType?: string
+}
+
+/** Yahoo search hit (Yahoo-listed instruments only) */
+export interface SymbolSearchResult {
+  symbol: string
+  name: string | null
+  exchange: string | null
+  quoteType: string | null
+}
+
+/** Classification data from quoteSummary's assetProfile and quoteType modules */
+export interface SymbolProfile {
+  sector: string | null
+  industry: string | null
+  country: string | null
+  quoteType: string | null
+}
+
+export async function getQuotes (symbols: string[]): Promise<YahooQuote[]> {
   return await executeWithRetry(async () => {
-    return await yahooFinance.quote(symbols) as Array<{
-      symbol: string
-      regularMarketPrice?: number
-      regularMarketChange?: number
-      regularMarketChangePercent?: number
-    }>
+    return await yahooFinance.quote(symbols) as YahooQuote[]
+  })
+}
+
+export async function getSymbolProfile (symbol: string): Promise<SymbolProfile> {
+  return await executeWithRetry(async () => {
+    const result = await yahooFinance.quoteSummary(symbol, { modules: ['assetProfile', 'quoteType'] })
+    return {
+      sector: result?.assetProfile?.sector ?? null,
+      industry: result?.assetProfile?.industry ?? null,
+      country: result?.assetProfile?.country ?? null,
+      quoteType: result?.quoteType?.quoteType ?? null
+    }
+  })
+}
+
+export async function searchSymbols (query: string, limit = 10): Promise<SymbolSearchResult[]> {
+  return await executeWithRetry(async () => {
+    const result = await yahooFinance.search(query, { quotesCount: limit, newsCount: 0 })
+    const quotes = (result?.quotes ?? []) as Array<Record<string, unknown>>
+    return quotes
+      .filter((q) => q.isYahooFinance === true && typeof q.symbol === 'string')
+      .map((q) => ({
+        symbol: q.symbol as string,
+        name: (q.longname as string | undefined) ?? (q.shortname as string | undefined) ?? null,
+        exchange: (q.exchDisp as string | undefined) ?? (q.exchange as string | undefined) ?? null,
+        quoteType: (q.quoteType as string | undefined) ?? null
+      }))
   })
 }
 
 export async function getChart (
   symbol: string,
   options: {
-    interval: '1d' | '5m' | '1h' | '15m' | '30m' | '60m' | '1wk' | '1mo'
+    interval: ChartInterval
     period1: Date
     period2: Date
   }
-): Promise<{ quotes: Array<{ date: Date; close: number | null }> }> {
+): Promise<{ quotes: ChartQuote[]; currency: string | null }> {
   return await executeWithRetry(async () => {
     const result = await yahooFinance.chart(symbol, {
       ...options,
       return: 'array' as const
     })
-    return result as { quotes: Array<{ date: Date; close: number | null }> }
+    const quotes = (result?.quotes ?? []) as Array<Partial<ChartQuote> & { date: Date }>
+    return {
+      quotes: quotes.map((q) => ({
+        date: q.date,
+        open: q.open ?? null,
+        high: q.high ?? null,
+        low: q.low ?? null,
+        close: q.close ?? null,
+        volume: q.volume ?? null,
+        adjclose: q.adjclose ?? null
+      })),
+      currency: result?.meta?.currency ?? null
+    }
+  })
+}
+
+/** Split or dividend event from Yahoo's chart endpoint; `date` is the ex-date */
+export interface ChartEvent {
+  type: 'SPLIT' | 'DIVIDEND'
+  date: Date
+  /** New shares per old share (10 for a 10:1 split) */
+  splitRatio: number | null
+  /** Cash per share in the listing currency */
+  amount: number | null
+}
+
+/**
+ * Splits and dividends since `period1`. Monthly bars keep the response small;
+ * only the events are used.
+ */
+export async function getChartEvents (
+  symbol: string,
+  period1: Date
+): Promise<{ events: ChartEvent[]; currency: string | null }> {
+  return await executeWithRetry(async () => {
+    const result = await yahooFinance.chart(symbol, {
+      interval: '1mo',
+      period1,
+      period2: new Date(),
+      events: 'div|split',
+      return: 'array' as const
+    })
+
+    const events: ChartEvent[] = []
+    for (const split of result?.events?.splits ?? []) {
+      if (split.numerator > 0 && split.denominator > 0) {
+        events.push({ type: 'SPLIT', date: split.date, splitRatio: split.numerator / split.denominator, amount: null })
+      }
+    }
+    for (const dividend of result?.events?.dividends ?? []) {
+      if (Number.isFinite(dividend.amount) && dividend.amount > 0) {
+        events.push({ type: 'DIVIDEND', date: dividend.date, splitRatio: null, amount: dividend.amount })
+      }
+    }
+    return { events, currency: result?.meta?.currency ?? null }
   })
 }